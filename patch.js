@@ -3,108 +3,205 @@
  * kaizen-dedup-fix/patch.js
  *
  * Applies DB-backed message dedup + stopped-agent guards to
- * packages/backend/dist/index.js in the guzus/office monorepo.
+ * packages/backend/dist/index.js in the guzus/office monorepo. Prefer
+ * src/integration/install.ts where the backend source can be changed.
  *
  * Usage (from repo root):
- *   bun kaizen-dedup-fix/patch.js
+ *   bun kaizen-dedup-fix/patch.js             apply every pending patch
+ *   bun kaizen-dedup-fix/patch.js --dry-run   show what would change, write nothing
+ *   bun kaizen-dedup-fix/patch.js --verify    exit 1 unless every patch is applied
+ *   bun kaizen-dedup-fix/patch.js --revert    restore the pre-patch bundle (--force
+ *                                             if it changed since patching)
  *
- * Idempotent — safe to re-run (all replacements are exact-match).
+ * Patches target functions by name in the parsed bundle
+ * (src/patcher/bundle-patcher.ts) and are applied all-or-nothing. The
+ * unpatched bundle is kept as index.js.dedup-fix.bak, with a manifest of the
+ * applied patch versions in index.js.dedup-fix.json. Idempotent — safe to re-run.
+ *
+ * A bundle patched by the old string-replace version of this script is
+ * upgraded in place: its PATCH 3 / PATCH 5 text is listed as `legacy` below.
  */
 
-import { readFileSync, writeFileSync } from "fs";
+import {
+  BundlePatchError,
+  applyToFile,
+  formatPlan,
+  revertFile,
+  verifyFile,
+} from "./src/patcher/bundle-patcher.js";
 
 const TARGET = "packages/backend/dist/index.js";
 
-let src = readFileSync(TARGET, "utf8");
+// Persistent dedup TTL — keep in sync with DEFAULT_ROUTING_DEDUP_CONFIG.ttlMs
+// in src/dedup/config.ts. Interpolated into the injected SQL below.
+const DEDUP_TTL_MS = 72 * 60 * 60 * 1000;
 
-let appliedCount = 0;
+// What the old string-replace patch.js inserted for PATCH 3 and PATCH 5. The
+// old PATCH 3 indexes seen_at_ms, which no longer exists once the table is
+// migrated, so it must not stay in initSchema.
+const LEGACY_INIT_SCHEMA_DEDUP = `  await db.query(\`CREATE TABLE IF NOT EXISTS message_dedup (dedup_key TEXT PRIMARY KEY, seen_at_ms BIGINT NOT NULL)\`);
+  await db.query("CREATE INDEX IF NOT EXISTS idx_message_dedup_seen ON message_dedup(seen_at_ms)");
+  await db.query("DELETE FROM message_dedup WHERE seen_at_ms < $1", [Date.now() - 72 * 60 * 60 * 1000]);
+`;
 
-function applyPatch(name, oldStr, newStr) {
-  if (!src.includes(oldStr)) {
-    // Already applied or source changed — check for new string
-    if (src.includes(newStr)) {
-      console.log(`${name}: already applied, skipping`);
-      return;
+const LEGACY_SHOULD_ROUTE_DB_DEDUP = `  routedEventCache.set(dedupKey, nowMs);
+  try {
+    const _dedupDb = await getDb();
+    const _dedupRows = (await _dedupDb.query("SELECT seen_at_ms FROM message_dedup WHERE dedup_key = $1", [dedupKey])).rows;
+    if (_dedupRows.length > 0 && (nowMs - Number(_dedupRows[0].seen_at_ms)) <= ROUTING_DEDUP_TTL_MS) {
+      return { shouldDeliver: false, message: "Message deduplicated (DB): repeated payload ignored (task " + (meta.taskId ?? "n/a") + ", seq " + (meta.seq ?? "n/a") + ")" };
     }
-    console.error(`${name}: MISS — neither old nor new string found`);
-    process.exit(1);
-  }
-  src = src.replace(oldStr, newStr);
-  appliedCount++;
-  console.log(`${name}: OK`);
-}
+    await _dedupDb.query("INSERT INTO message_dedup (dedup_key, seen_at_ms) VALUES ($1, $2) ON CONFLICT (dedup_key) DO UPDATE SET seen_at_ms = $2", [dedupKey, nowMs]);
+  } catch (_e) { /* DB dedup unavailable — in-memory guard still active */ }
+  const loopRouteKey`;
 
-// ── PATCH 1 ─────────────────────────────────────────────────────────────────
-// reconcileAgentStatesOnStartup: skip stopped agents
-applyPatch(
-  "PATCH 1 — reconcile skip stopped",
-  `if (!staleStatuses.has(agent.status))
+// Bump a patch's version whenever its edits change.
+const PATCHES = [
+  // ── PATCH 1 ───────────────────────────────────────────────────────────────
+  // reconcileAgentStatesOnStartup: skip stopped agents
+  {
+    id: "reconcile-skip-stopped",
+    version: 1,
+    description: "reconcile skip stopped",
+    target: "reconcileAgentStatesOnStartup",
+    edits: [
+      {
+        kind: "replace",
+        find: `if (!staleStatuses.has(agent.status))
+      continue;`,
+        replace: `if (!staleStatuses.has(agent.status) || agent.status === "stopped")
       continue;`,
-  `if (!staleStatuses.has(agent.status) || agent.status === "stopped")
-      continue;`
-);
+      },
+    ],
+  },
 
-// ── PATCH 2 ─────────────────────────────────────────────────────────────────
-// ensureAgentStarted: hard-block stopped agents
-applyPatch(
-  "PATCH 2 — ensureAgentStarted stopped guard",
-  `async function ensureAgentStarted(agentId) {
-  if (runningAgents.has(agentId))
+  // ── PATCH 2 ───────────────────────────────────────────────────────────────
+  // ensureAgentStarted: hard-block stopped agents
+  {
+    id: "ensure-started-stopped-guard",
+    version: 1,
+    description: "ensureAgentStarted stopped guard",
+    target: "ensureAgentStarted",
+    edits: [
+      {
+        kind: "replace",
+        find: `  if (runningAgents.has(agentId))
     return;`,
-  `async function ensureAgentStarted(agentId) {
-  if (runningAgents.has(agentId))
+        replace: `  if (runningAgents.has(agentId))
     return;
   const _stoppedCheck = await getAgent(agentId);
   if (_stoppedCheck && _stoppedCheck.status === "stopped") {
     throw new Error("Cannot start stopped agent " + agentId + " — explicitly stopped, requires manual restart");
-  }`
-);
+  }`,
+      },
+    ],
+  },
 
-// ── PATCH 3 ─────────────────────────────────────────────────────────────────
-// initSchema: create message_dedup table + startup prune
-applyPatch(
-  "PATCH 3 — message_dedup table creation",
-  `  } catch {}\n}\nasync function closeDb()`,
-  `  } catch {}
-  await db.query(\`CREATE TABLE IF NOT EXISTS message_dedup (dedup_key TEXT PRIMARY KEY, seen_at_ms BIGINT NOT NULL)\`);
-  await db.query("CREATE INDEX IF NOT EXISTS idx_message_dedup_seen ON message_dedup(seen_at_ms)");
-  await db.query("DELETE FROM message_dedup WHERE seen_at_ms < $1", [Date.now() - 72 * 60 * 60 * 1000]);
-}
-async function closeDb()`
-);
+  // ── PATCH 3 ───────────────────────────────────────────────────────────────
+  // initSchema: create unified message_dedup table (schema.sql), migrate the
+  // legacy dedup_key/seen_at_ms shape from earlier patch.js runs, startup prune.
+  // The copy SQL mirrors LEGACY_PATCH_JS_COPY_SQL in src/dedup/legacy-migration.ts.
+  {
+    id: "init-schema-message-dedup",
+    version: 1,
+    description: "message_dedup table creation",
+    target: "initSchema",
+    edits: [
+      {
+        kind: "append-body",
+        code: `  const _legacyDedupCols = await db.query("SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'message_dedup' AND column_name = 'seen_at_ms'");
+  if (_legacyDedupCols.rows.length > 0) await db.query("ALTER TABLE message_dedup RENAME TO message_dedup_legacy");
+  await db.query(\`CREATE TABLE IF NOT EXISTS message_dedup (dedup_key TEXT PRIMARY KEY, from_agent_id TEXT NOT NULL, to_agent_id TEXT NOT NULL, content_hash TEXT NOT NULL, task_id TEXT, seq TEXT, message_id TEXT, fingerprint TEXT, seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), expires_at TIMESTAMPTZ NOT NULL)\`);
+  const _legacyDedupTable = await db.query("SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = 'message_dedup_legacy'");
+  if (_legacyDedupTable.rows.length > 0) {
+    await db.query(\`INSERT INTO message_dedup (dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, seen_at, expires_at) SELECT dedup_key, m[1], m[2], m[4], NULLIF(m[3], 'none'), NULLIF(m[5], 'none'), to_timestamp(seen_at_ms / 1000.0), to_timestamp((seen_at_ms + $1) / 1000.0) FROM (SELECT dedup_key, seen_at_ms, regexp_match(dedup_key, '^(.*)->(.*)[|]task:(.*)[|]hash:(.*)[|]seq:(.*)$') AS m FROM message_dedup_legacy) legacy WHERE m IS NOT NULL AND seen_at_ms + $1 > $2 ON CONFLICT (dedup_key) DO NOTHING\`, [${DEDUP_TTL_MS}, Date.now()]);
+    await db.query("DROP TABLE message_dedup_legacy");
+  }
+  await db.query("CREATE INDEX IF NOT EXISTS idx_message_dedup_route ON message_dedup(from_agent_id, to_agent_id)");
+  await db.query("CREATE INDEX IF NOT EXISTS idx_message_dedup_expires ON message_dedup(expires_at)");
+  await db.query("DELETE FROM message_dedup WHERE expires_at < NOW()");
+`,
+        legacy: [LEGACY_INIT_SCHEMA_DEDUP],
+      },
+    ],
+  },
 
-// ── PATCH 4 ─────────────────────────────────────────────────────────────────
-// shouldRouteMessage: promote to async
-applyPatch(
-  "PATCH 4 — shouldRouteMessage async",
-  `function shouldRouteMessage(fromAgentId, toAgentId, rawMessage) {`,
-  `async function shouldRouteMessage(fromAgentId, toAgentId, rawMessage) {`
-);
+  // ── PATCH 4 ───────────────────────────────────────────────────────────────
+  // shouldRouteMessage: promote to async
+  {
+    id: "should-route-async",
+    version: 1,
+    description: "shouldRouteMessage async",
+    target: "shouldRouteMessage",
+    edits: [{ kind: "make-async" }],
+  },
 
-// ── PATCH 5 ─────────────────────────────────────────────────────────────────
-// shouldRouteMessage: DB check+upsert after in-memory cache set
-applyPatch(
-  "PATCH 5 — DB dedup persistence",
-  `  routedEventCache.set(dedupKey, nowMs);\n  const loopRouteKey`,
-  `  routedEventCache.set(dedupKey, nowMs);
+  // ── PATCH 5 ───────────────────────────────────────────────────────────────
+  // shouldRouteMessage: atomic DB insert-or-refresh-expired after in-memory cache
+  // set (same statement as PostgresDedupStore.insertOrRefreshExpired)
+  {
+    id: "should-route-db-dedup",
+    version: 1,
+    description: "DB dedup persistence",
+    target: "shouldRouteMessage",
+    edits: [
+      {
+        kind: "replace",
+        find: `  routedEventCache.set(dedupKey, nowMs);\n  const loopRouteKey`,
+        replace: `  routedEventCache.set(dedupKey, nowMs);
   try {
     const _dedupDb = await getDb();
-    const _dedupRows = (await _dedupDb.query("SELECT seen_at_ms FROM message_dedup WHERE dedup_key = $1", [dedupKey])).rows;
-    if (_dedupRows.length > 0 && (nowMs - Number(_dedupRows[0].seen_at_ms)) <= ROUTING_DEDUP_TTL_MS) {
+    const _dedupRows = (await _dedupDb.query(\`INSERT INTO message_dedup (dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, seen_at, expires_at) VALUES ($1, $2, $3, $4, $5, $6, to_timestamp($7 / 1000.0), to_timestamp($8 / 1000.0)) ON CONFLICT (dedup_key) DO UPDATE SET seen_at = EXCLUDED.seen_at, expires_at = EXCLUDED.expires_at WHERE message_dedup.expires_at <= EXCLUDED.seen_at RETURNING dedup_key\`, [dedupKey, fromAgentId, toAgentId, meta.eventHash, meta.taskId ?? null, meta.seq ?? null, nowMs, nowMs + ${DEDUP_TTL_MS}])).rows;
+    if (_dedupRows.length === 0) {
       return { shouldDeliver: false, message: "Message deduplicated (DB): repeated payload ignored (task " + (meta.taskId ?? "n/a") + ", seq " + (meta.seq ?? "n/a") + ")" };
     }
-    await _dedupDb.query("INSERT INTO message_dedup (dedup_key, seen_at_ms) VALUES ($1, $2) ON CONFLICT (dedup_key) DO UPDATE SET seen_at_ms = $2", [dedupKey, nowMs]);
   } catch (_e) { /* DB dedup unavailable — in-memory guard still active */ }
-  const loopRouteKey`
-);
+  const loopRouteKey`,
+        legacy: [LEGACY_SHOULD_ROUTE_DB_DEDUP],
+      },
+    ],
+  },
+
+  // ── PATCH 6 ───────────────────────────────────────────────────────────────
+  // communicate(): await the now-async shouldRouteMessage
+  {
+    id: "communicate-await-route",
+    version: 1,
+    description: "await shouldRouteMessage",
+    target: "communicate",
+    edits: [{ kind: "await-calls", callee: "shouldRouteMessage" }],
+  },
+];
 
-// ── PATCH 6 ─────────────────────────────────────────────────────────────────
-// communicate(): await the now-async shouldRouteMessage
-applyPatch(
-  "PATCH 6 — await shouldRouteMessage",
-  `  const routingDecision = shouldRouteMessage(callerAgentId, args.targetAgentId, normalizedMessage);`,
-  `  const routingDecision = await shouldRouteMessage(callerAgentId, args.targetAgentId, normalizedMessage);`
-);
+const args = new Set(process.argv.slice(2));
 
-writeFileSync(TARGET, src);
-console.log(`\nAll patches applied (${appliedCount} new). Written to ${TARGET}`);
+try {
+  if (args.has("--revert")) {
+    const manifest = revertFile(TARGET, { force: args.has("--force") });
+    console.log(`Reverted ${TARGET} to the bundle from before ${manifest.appliedAt}`);
+  } else if (args.has("--verify")) {
+    const problems = verifyFile(TARGET, PATCHES);
+    if (problems.length > 0) {
+      console.error(`${TARGET}: verification FAILED`);
+      for (const problem of problems) console.error(`  - ${problem}`);
+      process.exit(1);
+    }
+    console.log(`${TARGET}: all ${PATCHES.length} patches applied, manifest matches`);
+  } else {
+    const result = applyToFile(TARGET, PATCHES, { dryRun: args.has("--dry-run") });
+    console.log(formatPlan(result.plan));
+    if (result.status === "dry-run") {
+      console.log(`\nDry run — ${TARGET} not written`);
+    } else if (result.status === "unchanged") {
+      console.log(`\nNothing to apply — ${TARGET} is up to date`);
+    } else {
+      const applied = result.manifest.patches.filter((p) => p.state === "applied-now").length;
+      console.log(`\nAll patches applied (${applied} new). Written to ${TARGET}`);
+      console.log(`Backup: ${result.manifest.backup}`);
+    }
+  }
+} catch (err) {
+  if (!(err instanceof BundlePatchError)) throw err;
+  console.error(err.message);
+  process.exit(1);
+}
@@ -0,0 +1,354 @@
+/**
+ * delivery-records.ts
+ *
+ * Persistent delivery records for routed send_message calls, and the
+ * check_message_status capability built on them.
+ *
+ * Agents replayed messages because they could not tell whether an earlier
+ * send landed — the protocol had to insist "TIMEOUT ≠ FAILURE". Now every
+ * routed message gets a row in message_deliveries under the deliveryId the
+ * sender was given (send-message-result.ts):
+ *
+ *   queued ──▶ delivered ──▶ read
+ *     │  └──▶ held ──▶ delivered            (target paused; mailbox drain)
+ *     └──▶ duplicate | bounced | rate-limited | failed   (terminal)
+ *
+ * "read" is recorded when the recipient starts a turn after the message was
+ * delivered (markReadForAgent at turn start). Transitions only move forward:
+ * an update whose predecessor does not match is ignored.
+ *
+ * checkMessageStatus() answers for one deliveryId, or lists the caller's
+ * recent sends when the ID is unknown — the case of an agent that restarted
+ * and lost its context.
+ */
+
+import { DbAdapter } from "../dedup/store.js";
+import { HeldMessageStatus } from "./mailbox.js";
+import { SendMessageResult } from "./send-message-result.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DeliveryStatus =
+  | "queued"
+  | "held"
+  | "delivered"
+  | "read"
+  | "duplicate"
+  | "bounced"
+  | "rate-limited"
+  | "failed";
+
+/** Statuses a record may be in before moving to the key. */
+export const DELIVERY_PREDECESSORS: Readonly<Record<DeliveryStatus, readonly DeliveryStatus[]>> = Object.freeze({
+  queued: [],
+  held: ["queued"],
+  delivered: ["queued", "held"],
+  read: ["delivered"],
+  duplicate: ["queued", "held"],
+  bounced: ["queued", "held"],
+  "rate-limited": ["queued"],
+  failed: ["queued", "held"],
+});
+
+export interface DeliveryRecord {
+  deliveryId: string;
+  fromAgentId: string;
+  toAgentId: string;
+  deliveredToAgentId: string | null;
+  status: DeliveryStatus;
+  detail: string | null;
+  matchedDeliveryId: string | null;
+  preview: string;
+  createdAtMs: number;
+  updatedAtMs: number;
+  deliveredAtMs: number | null;
+  readAtMs: number | null;
+}
+
+export interface DeliveryUpdate {
+  status: DeliveryStatus;
+  deliveredToAgentId?: string | null;
+  detail?: string | null;
+  matchedDeliveryId?: string | null;
+}
+
+const PREVIEW_CHARS = 200;
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export interface DeliveryRecordStore {
+  create(record: Pick<DeliveryRecord, "deliveryId" | "fromAgentId" | "toAgentId" | "preview">, atMs: number): Promise<void>;
+  /** Applies the update if the current status is a valid predecessor. Returns whether it did. */
+  update(deliveryId: string, update: DeliveryUpdate, atMs: number): Promise<boolean>;
+  /** Marks every message delivered to `agentId` at or before `upToMs` as read. Returns rows changed. */
+  markReadForAgent(agentId: string, upToMs: number, atMs: number): Promise<number>;
+  get(deliveryId: string): Promise<DeliveryRecord | null>;
+  listFrom(fromAgentId: string, limit: number): Promise<DeliveryRecord[]>;
+}
+
+function msOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function rowToDeliveryRecord(row: Record<string, unknown>): DeliveryRecord {
+  return {
+    deliveryId: String(row.delivery_id),
+    fromAgentId: String(row.from_agent_id),
+    toAgentId: String(row.to_agent_id),
+    deliveredToAgentId: row.delivered_to_agent_id ? String(row.delivered_to_agent_id) : null,
+    status: String(row.status) as DeliveryStatus,
+    detail: row.detail ? String(row.detail) : null,
+    matchedDeliveryId: row.matched_delivery_id ? String(row.matched_delivery_id) : null,
+    preview: String(row.preview),
+    createdAtMs: Number(row.created_at_ms),
+    updatedAtMs: Number(row.updated_at_ms),
+    deliveredAtMs: msOrNull(row.delivered_at_ms),
+    readAtMs: msOrNull(row.read_at_ms),
+  };
+}
+
+const SELECT_DELIVERY = `
+  SELECT delivery_id, from_agent_id, to_agent_id, delivered_to_agent_id, status, detail,
+         matched_delivery_id, preview,
+         EXTRACT(EPOCH FROM created_at) * 1000 AS created_at_ms,
+         EXTRACT(EPOCH FROM updated_at) * 1000 AS updated_at_ms,
+         EXTRACT(EPOCH FROM delivered_at) * 1000 AS delivered_at_ms,
+         EXTRACT(EPOCH FROM read_at) * 1000 AS read_at_ms
+  FROM message_deliveries`;
+
+export class PostgresDeliveryRecordStore implements DeliveryRecordStore {
+  constructor(private readonly db: DbAdapter) {}
+
+  async create(
+    record: Pick<DeliveryRecord, "deliveryId" | "fromAgentId" | "toAgentId" | "preview">,
+    atMs: number
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO message_deliveries (delivery_id, from_agent_id, to_agent_id, status, preview, created_at, updated_at)
+       VALUES ($1, $2, $3, 'queued', $4, to_timestamp($5 / 1000.0), to_timestamp($5 / 1000.0))
+       ON CONFLICT (delivery_id) DO NOTHING`,
+      [record.deliveryId, record.fromAgentId, record.toAgentId, record.preview.slice(0, PREVIEW_CHARS), atMs]
+    );
+  }
+
+  async update(deliveryId: string, update: DeliveryUpdate, atMs: number): Promise<boolean> {
+    const { rows } = await this.db.query(
+      `UPDATE message_deliveries
+       SET status = $2,
+           delivered_to_agent_id = COALESCE($3, delivered_to_agent_id),
+           detail = COALESCE($4, detail),
+           matched_delivery_id = COALESCE($5, matched_delivery_id),
+           updated_at = to_timestamp($6 / 1000.0),
+           delivered_at = CASE WHEN $2 = 'delivered' THEN to_timestamp($6 / 1000.0) ELSE delivered_at END,
+           read_at = CASE WHEN $2 = 'read' THEN to_timestamp($6 / 1000.0) ELSE read_at END
+       WHERE delivery_id = $1 AND status = ANY($7::text[])
+       RETURNING delivery_id`,
+      [
+        deliveryId,
+        update.status,
+        update.deliveredToAgentId ?? null,
+        update.detail ?? null,
+        update.matchedDeliveryId ?? null,
+        atMs,
+        DELIVERY_PREDECESSORS[update.status],
+      ]
+    );
+    return rows.length > 0;
+  }
+
+  async markReadForAgent(agentId: string, upToMs: number, atMs: number): Promise<number> {
+    const { rows } = await this.db.query(
+      `UPDATE message_deliveries
+       SET status = 'read', read_at = to_timestamp($3 / 1000.0), updated_at = to_timestamp($3 / 1000.0)
+       WHERE delivered_to_agent_id = $1 AND status = 'delivered' AND delivered_at <= to_timestamp($2 / 1000.0)
+       RETURNING delivery_id`,
+      [agentId, upToMs, atMs]
+    );
+    return rows.length;
+  }
+
+  async get(deliveryId: string): Promise<DeliveryRecord | null> {
+    const { rows } = await this.db.query(`${SELECT_DELIVERY} WHERE delivery_id = $1`, [deliveryId]);
+    return rows.length > 0 ? rowToDeliveryRecord(rows[0]) : null;
+  }
+
+  async listFrom(fromAgentId: string, limit: number): Promise<DeliveryRecord[]> {
+    const { rows } = await this.db.query(
+      `${SELECT_DELIVERY} WHERE from_agent_id = $1 ORDER BY created_at DESC LIMIT $2`,
+      [fromAgentId, limit]
+    );
+    return rows.map(rowToDeliveryRecord);
+  }
+}
+
+export class MemoryDeliveryRecordStore implements DeliveryRecordStore {
+  private readonly records = new Map<string, DeliveryRecord>();
+
+  async create(
+    record: Pick<DeliveryRecord, "deliveryId" | "fromAgentId" | "toAgentId" | "preview">,
+    atMs: number
+  ): Promise<void> {
+    if (this.records.has(record.deliveryId)) return;
+    this.records.set(record.deliveryId, {
+      ...record,
+      preview: record.preview.slice(0, PREVIEW_CHARS),
+      deliveredToAgentId: null,
+      status: "queued",
+      detail: null,
+      matchedDeliveryId: null,
+      createdAtMs: atMs,
+      updatedAtMs: atMs,
+      deliveredAtMs: null,
+      readAtMs: null,
+    });
+  }
+
+  async update(deliveryId: string, update: DeliveryUpdate, atMs: number): Promise<boolean> {
+    const record = this.records.get(deliveryId);
+    if (!record || !DELIVERY_PREDECESSORS[update.status].includes(record.status)) return false;
+    record.status = update.status;
+    record.deliveredToAgentId = update.deliveredToAgentId ?? record.deliveredToAgentId;
+    record.detail = update.detail ?? record.detail;
+    record.matchedDeliveryId = update.matchedDeliveryId ?? record.matchedDeliveryId;
+    record.updatedAtMs = atMs;
+    if (update.status === "delivered") record.deliveredAtMs = atMs;
+    if (update.status === "read") record.readAtMs = atMs;
+    return true;
+  }
+
+  async markReadForAgent(agentId: string, upToMs: number, atMs: number): Promise<number> {
+    let changed = 0;
+    for (const record of this.records.values()) {
+      if (
+        record.deliveredToAgentId === agentId &&
+        record.status === "delivered" &&
+        record.deliveredAtMs !== null &&
+        record.deliveredAtMs <= upToMs
+      ) {
+        record.status = "read";
+        record.readAtMs = atMs;
+        record.updatedAtMs = atMs;
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  async get(deliveryId: string): Promise<DeliveryRecord | null> {
+    const record = this.records.get(deliveryId);
+    return record ? { ...record } : null;
+  }
+
+  async listFrom(fromAgentId: string, limit: number): Promise<DeliveryRecord[]> {
+    return [...this.records.values()]
+      .filter((r) => r.fromAgentId === fromAgentId)
+      .sort((a, b) => b.createdAtMs - a.createdAtMs)
+      .slice(0, limit)
+      .map((r) => ({ ...r }));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mapping from routing outcomes
+// ---------------------------------------------------------------------------
+
+/** The record update implied by a send_message result. */
+export function deliveryUpdateFor(result: SendMessageResult): DeliveryUpdate {
+  switch (result.status) {
+    case "delivered":
+      return { status: "delivered", deliveredToAgentId: result.toAgentId };
+    case "rerouted":
+      return { status: "delivered", deliveredToAgentId: result.reroutedTo.id, detail: `rerouted from ${result.toAgentName ?? result.toAgentId}` };
+    case "held":
+      return { status: "held", detail: `${result.toAgentName ?? result.toAgentId} is ${result.targetStatus}` };
+    case "duplicate-dropped":
+      return { status: "duplicate", matchedDeliveryId: result.matchedDeliveryId, detail: `dedup ${result.via}` };
+    case "target-stopped":
+      return { status: "bounced", detail: result.reason };
+    case "rate-limited":
+      return { status: "rate-limited", detail: result.reason };
+    case "failed":
+      return { status: "failed", detail: result.error };
+  }
+}
+
+/** The record update implied by a mailbox drain resolving a held message. */
+export function deliveryUpdateForHeld(status: Exclude<HeldMessageStatus, "held">, toAgentId: string): DeliveryUpdate {
+  switch (status) {
+    case "delivered":
+      return { status: "delivered", deliveredToAgentId: toAgentId };
+    case "dropped-duplicate":
+      return { status: "duplicate", detail: "dedup on mailbox drain" };
+    case "bounced":
+      return { status: "bounced", detail: "recipient retired before the message was delivered" };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// check_message_status
+// ---------------------------------------------------------------------------
+
+const STATUS_TEXT: Record<DeliveryStatus, string> = {
+  queued: "queued — routing in progress",
+  held: "held — the recipient is paused; it will be delivered on resume",
+  delivered: "delivered — not yet read by the recipient",
+  read: "read by the recipient",
+  duplicate: "not delivered — duplicate of an earlier message",
+  bounced: "not delivered — bounced",
+  "rate-limited": "not delivered — rate limited",
+  failed: "not delivered — failed",
+};
+
+function describe(record: DeliveryRecord): string {
+  const to = record.deliveredToAgentId && record.deliveredToAgentId !== record.toAgentId
+    ? `${record.toAgentId} (rerouted to ${record.deliveredToAgentId})`
+    : record.toAgentId;
+  return (
+    `${record.deliveryId} → ${to}: ${STATUS_TEXT[record.status]}` +
+    (record.matchedDeliveryId ? ` (matched ${record.matchedDeliveryId})` : "") +
+    (record.detail && record.status !== "delivered" && record.status !== "read" ? ` (${record.detail})` : "") +
+    ` — sent ${new Date(record.createdAtMs).toISOString()}`
+  );
+}
+
+export interface CheckMessageStatusResult {
+  records: DeliveryRecord[];
+  text: string;
+}
+
+/**
+ * Backs the check_message_status tool. With a deliveryId, reports that
+ * delivery (only to its sender or recipient). Without one, or when the ID is
+ * unknown, lists the caller's most recent sends.
+ */
+export async function checkMessageStatus(
+  store: DeliveryRecordStore,
+  askingAgentId: string,
+  deliveryId?: string | null,
+  recentLimit = 10
+): Promise<CheckMessageStatusResult> {
+  if (deliveryId) {
+    const record = await store.get(deliveryId);
+    const visible =
+      record &&
+      (record.fromAgentId === askingAgentId ||
+        record.toAgentId === askingAgentId ||
+        record.deliveredToAgentId === askingAgentId);
+    if (visible) {
+      return { records: [record], text: `[check_message_status] ${describe(record)}` };
+    }
+  }
+
+  const recent = await store.listFrom(askingAgentId, recentLimit);
+  const heading = deliveryId
+    ? `[check_message_status] No delivery ${deliveryId} found for you. Your ${recent.length} most recent sends:`
+    : `[check_message_status] Your ${recent.length} most recent sends:`;
+  return {
+    records: recent,
+    text: recent.length === 0 ? `${heading} none.` : [heading, ...recent.map((r) => `- ${describe(r)}`)].join("\n"),
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * failover-router.ts
+ *
+ * Role-based failover routing. When the target of a task or send_message is
+ * paused/stopped/retired, the message goes to a live agent with the same role
+ * instead of erroring — retiring Scout must not black-hole everything that
+ * other agents still address to Scout.
+ *
+ * FailoverRouter.resolve() accepts either a specific agent or a role:
+ *  - agent target, live:      the agent itself (no failover)
+ *  - agent target, not live:  a live agent with the target's role
+ *  - role target:             a live agent with that role
+ *
+ * Which live agent is chosen is a per-role FailoverStrategy:
+ *  - least-loaded:    prefer idle over thinking/executing, then the agent
+ *                     that has been inactive longest (lastActiveAt)
+ *  - round-robin:     rotate through the role's live agents
+ *  - sticky-per-task: the same task keeps going to the same replacement
+ *                     while it stays live; first pick is least-loaded
+ *
+ * Failed-over messages are annotated with the original recipient
+ * (annotateFailover) so the replacement knows whose work it is picking up.
+ */
+
+import { TtlLruCache } from "../dedup/ttl-lru-cache.js";
+import { getLogger } from "../observability/logger.js";
+import { AgentStatus, inboundMessagePolicy } from "./lifecycle.js";
+
+const log = getLogger("failover");
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type FailoverStrategy = "least-loaded" | "round-robin" | "sticky-per-task";
+
+export interface RoutableAgent {
+  id: string;
+  name: string;
+  role: string;
+  status: AgentStatus;
+  lastActiveAt?: string | null;
+}
+
+export type RouteTarget = { agentId: string } | { role: string };
+
+export interface RouteResolution {
+  agent: RoutableAgent;
+  /** The addressed agent when the message was failed over, else null. */
+  originalRecipient: RoutableAgent | null;
+  failedOver: boolean;
+  strategy: FailoverStrategy;
+}
+
+export interface FailoverRouterConfig {
+  strategy: FailoverStrategy;
+  byRole: Record<string, FailoverStrategy>;
+  /** How long a sticky task → agent assignment is remembered. */
+  stickyTtlMs: number;
+  /** Upper bound on remembered sticky assignments. */
+  maxStickyTasks: number;
+}
+
+export const DEFAULT_FAILOVER_ROUTER_CONFIG: Readonly<FailoverRouterConfig> = Object.freeze({
+  strategy: "least-loaded",
+  byRole: {},
+  stickyTtlMs: 24 * 60 * 60 * 1000,
+  maxStickyTasks: 5_000,
+});
+
+export interface FailoverRouterDeps {
+  now?: () => number;
+}
+
+/** True when the agent accepts messages right now. */
+export function isRoutable(agent: RoutableAgent): boolean {
+  return inboundMessagePolicy(agent.status) === "deliver";
+}
+
+function isBusy(agent: RoutableAgent): boolean {
+  return agent.status === "thinking" || agent.status === "executing";
+}
+
+function lastActiveMs(agent: RoutableAgent): number {
+  const ms = agent.lastActiveAt ? Date.parse(agent.lastActiveAt) : NaN;
+  return Number.isNaN(ms) ? 0 : ms;
+}
+
+/** Least-loaded ordering: idle first, then longest inactive, then id for stability. */
+function compareLoad(a: RoutableAgent, b: RoutableAgent): number {
+  return (
+    Number(isBusy(a)) - Number(isBusy(b)) ||
+    lastActiveMs(a) - lastActiveMs(b) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+export class FailoverRouter {
+  private readonly config: FailoverRouterConfig;
+  private readonly now: () => number;
+  private readonly roundRobinCursor = new Map<string, number>();
+  private readonly sticky: TtlLruCache<string>;
+
+  constructor(config: Partial<FailoverRouterConfig> = {}, deps: FailoverRouterDeps = {}) {
+    this.config = {
+      ...DEFAULT_FAILOVER_ROUTER_CONFIG,
+      ...config,
+      byRole: { ...DEFAULT_FAILOVER_ROUTER_CONFIG.byRole, ...config.byRole },
+    };
+    this.now = deps.now ?? Date.now;
+    this.sticky = new TtlLruCache<string>({ maxEntries: this.config.maxStickyTasks });
+  }
+
+  strategyFor(role: string): FailoverStrategy {
+    return this.config.byRole[role] ?? this.config.strategy;
+  }
+
+  /**
+   * Picks the agent that should receive a message for `target`. Returns null
+   * when the target is unknown or no live agent has the role.
+   */
+  resolve(target: RouteTarget, agents: RoutableAgent[], options: { taskId?: string | null } = {}): RouteResolution | null {
+    let original: RoutableAgent | null = null;
+    let role: string;
+    if ("agentId" in target) {
+      original = agents.find((a) => a.id === target.agentId) ?? null;
+      if (!original) return null;
+      if (isRoutable(original)) {
+        return { agent: original, originalRecipient: null, failedOver: false, strategy: this.strategyFor(original.role) };
+      }
+      role = original.role;
+    } else {
+      role = target.role;
+    }
+
+    const candidates = agents.filter((a) => a.role === role && isRoutable(a));
+    if (candidates.length === 0) return null;
+
+    const strategy = this.strategyFor(role);
+    const agent = this.pick(strategy, role, candidates, options.taskId ?? null);
+    if (original) {
+      log.info(`${original.name}(${original.id}) is ${original.status} — routing to ${agent.name}(${agent.id})`, {
+        from: original.id,
+        to: agent.id,
+        strategy,
+      });
+    }
+    return { agent, originalRecipient: original, failedOver: original !== null, strategy };
+  }
+
+  private pick(strategy: FailoverStrategy, role: string, candidates: RoutableAgent[], taskId: string | null): RoutableAgent {
+    switch (strategy) {
+      case "round-robin": {
+        const ordered = [...candidates].sort((a, b) => a.id.localeCompare(b.id));
+        const cursor = this.roundRobinCursor.get(role) ?? 0;
+        this.roundRobinCursor.set(role, (cursor + 1) % ordered.length);
+        return ordered[cursor % ordered.length];
+      }
+      case "sticky-per-task": {
+        if (!taskId) return [...candidates].sort(compareLoad)[0];
+        const nowMs = this.now();
+        const stickyKey = `${role}|${taskId}`;
+        const previous = this.sticky.get(stickyKey, nowMs);
+        const chosen = candidates.find((a) => a.id === previous) ?? [...candidates].sort(compareLoad)[0];
+        this.sticky.set(stickyKey, chosen.id, nowMs + this.config.stickyTtlMs, nowMs);
+        return chosen;
+      }
+      case "least-loaded":
+        return [...candidates].sort(compareLoad)[0];
+    }
+  }
+}
+
+/** Prefixes a failed-over message with who it was originally addressed to. */
+export function annotateFailover(content: string, resolution: RouteResolution): string {
+  const original = resolution.originalRecipient;
+  if (!resolution.failedOver || !original) return content;
+  return `[Failover — originally for ${original.name} (${original.role}, ${original.status})] ${content}`;
+}
+
+// ---------------------------------------------------------------------------
+// Module singleton
+// ---------------------------------------------------------------------------
+
+let _router: FailoverRouter | null = null;
+
+export function registerFailoverRouter(router: FailoverRouter): void {
+  _router = router;
+}
+
+export function getFailoverRouter(): FailoverRouter {
+  if (!_router) _router = new FailoverRouter();
+  return _router;
+}
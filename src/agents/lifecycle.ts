@@ -0,0 +1,237 @@
+/**
+ * lifecycle.ts
+ *
+ * Agent lifecycle state machine. "Stopped is permanent unless manually
+ * restarted" used to be re-implemented ad hoc in every guard
+ * (filterDispatchableAgents, safeReconcileOnStartup, guardedStartAgent and
+ * the manager/scheduler patches). This module declares the legal transitions
+ * and which actor may perform each one; the guards are built on top of it.
+ *
+ * Illegal transitions throw typed LifecycleErrors; successful ones emit an
+ * AgentTransitionEvent to every onAgentTransition() listener.
+ *
+ * Four "not running" states, all operator-controlled:
+ *  - paused:      temporarily out; messages are held; resumeAgent() brings it back
+ *  - retired:     permanent; never restarted; messages bounce back to the sender
+ *  - stopped:     legacy manual stop — behaves like paused (operator restart only)
+ *  - quarantined: parked by the watchdog after a crash loop; messages are held;
+ *                 only an operator releases it (releaseQuarantine). Unlike
+ *                 `error`, the scheduler and watchdog cannot move it to idle,
+ *                 and being a persisted status it survives a backend restart.
+ */
+
+import { errorMessage, getLogger } from "../observability/logger.js";
+
+const log = getLogger("lifecycle");
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AgentStatus =
+  | "idle"
+  | "thinking"
+  | "executing"
+  | "error"
+  | "quarantined"
+  | "paused"
+  | "retired"
+  | "stopped";
+
+/**
+ * Who is asking for the transition:
+ *  - runtime:    the agent loop itself (turn start/end, tool execution, crash)
+ *  - scheduler:  task dispatch / ensureAgentStarted on message arrival
+ *  - watchdog:   stalled/crashed agent recovery
+ *  - reconciler: startup state reconcile after a backend restart
+ *  - operator:   a human, via UI or API
+ */
+export type LifecycleActor = "runtime" | "scheduler" | "watchdog" | "reconciler" | "operator";
+
+export interface LifecycleAgent {
+  id: string;
+  name?: string;
+  status: AgentStatus;
+}
+
+export interface AgentTransitionEvent {
+  agentId: string;
+  from: AgentStatus;
+  to: AgentStatus;
+  actor: LifecycleActor;
+  reason: string | null;
+  atMs: number;
+}
+
+// ---------------------------------------------------------------------------
+// Transition table
+// ---------------------------------------------------------------------------
+
+interface TransitionRule {
+  from: readonly AgentStatus[];
+  to: AgentStatus;
+  actors: readonly LifecycleActor[];
+}
+
+const LIVE: readonly AgentStatus[] = ["idle", "thinking", "executing"];
+
+export const AGENT_TRANSITIONS: readonly TransitionRule[] = [
+  { from: ["idle", "executing"], to: "thinking", actors: ["runtime"] },
+  { from: ["thinking"], to: "executing", actors: ["runtime"] },
+  { from: ["thinking", "executing"], to: "idle", actors: ["runtime", "reconciler", "watchdog", "operator"] },
+  { from: LIVE, to: "error", actors: ["runtime", "watchdog"] },
+  { from: ["error"], to: "idle", actors: ["watchdog", "scheduler", "operator"] },
+  { from: [...LIVE, "error"], to: "quarantined", actors: ["watchdog", "operator"] },
+  { from: [...LIVE, "error", "quarantined"], to: "stopped", actors: ["operator"] },
+  { from: [...LIVE, "error", "quarantined", "stopped"], to: "paused", actors: ["operator"] },
+  // Stopped/paused/quarantined are permanent unless manually restarted
+  // (resumeAgent, releaseQuarantine)
+  { from: ["stopped", "paused", "quarantined"], to: "idle", actors: ["operator"] },
+  // Retired is terminal: no rule leaves it
+  { from: [...LIVE, "error", "quarantined", "stopped", "paused"], to: "retired", actors: ["operator"] },
+];
+
+/** Statuses that only an operator may move an agent out of (or nobody, for terminal ones). */
+export function isOperatorOnly(status: AgentStatus): boolean {
+  return AGENT_TRANSITIONS.every((rule) => !rule.from.includes(status) || rule.actors.every((a) => a === "operator"));
+}
+
+/** Statuses with no way out — the agent is never restarted. */
+export function isTerminal(status: AgentStatus): boolean {
+  return !AGENT_TRANSITIONS.some((rule) => rule.from.includes(status));
+}
+
+/**
+ * What happens to a message addressed to an agent in `status`:
+ *  - deliver: the agent is (or may be) running
+ *  - hold:    paused/stopped/quarantined — keep it for when the agent is resumed
+ *  - bounce:  retired — return it to the sender
+ */
+export type InboundMessagePolicy = "deliver" | "hold" | "bounce";
+
+export function inboundMessagePolicy(status: AgentStatus): InboundMessagePolicy {
+  if (isTerminal(status)) return "bounce";
+  if (isOperatorOnly(status)) return "hold";
+  return "deliver";
+}
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export class LifecycleError extends Error {
+  constructor(
+    message: string,
+    readonly agentId: string,
+    readonly from: AgentStatus,
+    readonly to: AgentStatus,
+    readonly actor: LifecycleActor
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** No rule allows `from → to` at all. */
+export class IllegalTransitionError extends LifecycleError {}
+
+/** The transition exists, but `actor` is not allowed to perform it. */
+export class ForbiddenTransitionError extends LifecycleError {}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+export function canTransition(from: AgentStatus, to: AgentStatus, actor: LifecycleActor): boolean {
+  return AGENT_TRANSITIONS.some((r) => r.from.includes(from) && r.to === to && r.actors.includes(actor));
+}
+
+function describe(agent: LifecycleAgent): string {
+  return agent.name ? `${agent.name}(${agent.id})` : agent.id;
+}
+
+export function assertTransition(agent: LifecycleAgent, to: AgentStatus, actor: LifecycleActor): void {
+  const from = agent.status;
+  if (canTransition(from, to, actor)) return;
+  const rules = AGENT_TRANSITIONS.filter((r) => r.from.includes(from) && r.to === to);
+  if (rules.length === 0) {
+    throw new IllegalTransitionError(
+      `Illegal lifecycle transition for agent ${describe(agent)}: ${from} -> ${to}`,
+      agent.id,
+      from,
+      to,
+      actor
+    );
+  }
+  const allowed = [...new Set(rules.flatMap((r) => r.actors))].join(", ");
+  throw new ForbiddenTransitionError(
+    `${actor} may not move agent ${describe(agent)} ${from} -> ${to} (allowed: ${allowed})`,
+    agent.id,
+    from,
+    to,
+    actor
+  );
+}
+
+/**
+ * Starting an agent brings it up in `idle`. Already-live agents need no
+ * transition; anything else must be allowed to move to idle by `actor` — so a
+ * stopped agent can only be started by an operator.
+ */
+export function assertMayStart(agent: LifecycleAgent, actor: LifecycleActor): void {
+  if (LIVE.includes(agent.status)) return;
+  assertTransition(agent, "idle", actor);
+}
+
+export function mayStart(agent: LifecycleAgent, actor: LifecycleActor): boolean {
+  return LIVE.includes(agent.status) || canTransition(agent.status, "idle", actor);
+}
+
+// ---------------------------------------------------------------------------
+// Transition events
+// ---------------------------------------------------------------------------
+
+export type AgentTransitionListener = (event: AgentTransitionEvent) => void;
+
+const listeners = new Set<AgentTransitionListener>();
+
+/** Subscribes to successful transitions. Returns an unsubscribe function. */
+export function onAgentTransition(listener: AgentTransitionListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function emit(event: AgentTransitionEvent): void {
+  for (const listener of [...listeners]) {
+    try {
+      listener(event);
+    } catch (err) {
+      log.error("Transition listener threw", { error: errorMessage(err) });
+    }
+  }
+}
+
+/**
+ * Validates and performs a transition: checks the table, persists the new
+ * status via `persist`, then emits the transition event.
+ */
+export async function transitionAgent(
+  agent: LifecycleAgent,
+  to: AgentStatus,
+  actor: LifecycleActor,
+  persist: (id: string, status: AgentStatus) => Promise<void>,
+  reason: string | null = null
+): Promise<AgentTransitionEvent> {
+  assertTransition(agent, to, actor);
+  await persist(agent.id, to);
+  const event: AgentTransitionEvent = {
+    agentId: agent.id,
+    from: agent.status,
+    to,
+    actor,
+    reason,
+    atMs: Date.now(),
+  };
+  emit(event);
+  return event;
+}
@@ -0,0 +1,138 @@
+/**
+ * mailbox.test.ts
+ *
+ * Draining and rerouting through the routing dedup while its store is down:
+ * under a fail-closed policy nothing is dropped as a duplicate — drained mail
+ * stays held, rerouted mail is held or bounced.
+ */
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MessageFlowGuard } from "../dedup/message-flow-guard.js";
+import { RoutingDedupService } from "../dedup/routing-dedup-service.js";
+import { DedupRecord } from "../dedup/store.js";
+import { MemoryDedupStore } from "../dedup/stores/memory-store.js";
+import { MemoryLogSink, setLogSink } from "../observability/logger.js";
+import { FailoverRouter } from "./failover-router.js";
+import { MailboxAgent, MailboxDeps, MemoryMailboxStore, acceptForNonRunningAgent, drainMailbox } from "./mailbox.js";
+
+setLogSink(new MemoryLogSink().sink);
+
+const T0 = 1_700_000_000_000;
+
+/** A dedup store that can be taken down and brought back. */
+class FlakyStore extends MemoryDedupStore {
+  down = true;
+
+  override async insertOrRefreshExpired(record: DedupRecord): Promise<boolean> {
+    if (this.down) throw new Error("connection refused");
+    return super.insertOrRefreshExpired(record);
+  }
+}
+
+const MINA: MailboxAgent = { id: "mina", name: "mina", role: "reviewer", status: "idle" };
+const ROBIN: MailboxAgent = { id: "robin", name: "robin", role: "reviewer", status: "idle" };
+
+interface Harness {
+  deps: MailboxDeps;
+  store: MemoryMailboxStore;
+  delivered: Array<{ to: string; content: string }>;
+}
+
+function harness(dedup: RoutingDedupService, agents: MailboxAgent[] = []): Harness {
+  const store = new MemoryMailboxStore();
+  const delivered: Harness["delivered"] = [];
+  let clock = T0;
+  return {
+    store,
+    delivered,
+    deps: {
+      store,
+      listAgents: async () => agents,
+      router: new FailoverRouter(),
+      dedup,
+      messageFlow: new MessageFlowGuard(),
+      deliver: async (to, content) => {
+        delivered.push({ to, content });
+      },
+      now: () => clock++,
+    },
+  };
+}
+
+function failClosed(store: FlakyStore): RoutingDedupService {
+  return new RoutingDedupService(store, { failurePolicy: { defaultMode: "fail-closed" } }, { now: () => T0 });
+}
+
+async function holdTwo(h: Harness): Promise<void> {
+  const paused = { ...MINA, status: "paused" as const };
+  await acceptForNonRunningAgent(paused, { id: "h1", fromAgentId: "jin", content: "Please review PR 12" }, h.deps);
+  await acceptForNonRunningAgent(paused, { id: "h2", fromAgentId: "jin", content: "And PR 13 after that" }, h.deps);
+}
+
+test("a drain under fail-closed keeps held mail held while the store is down", async () => {
+  const dedupStore = new FlakyStore();
+  const h = harness(failClosed(dedupStore));
+  await holdTwo(h);
+
+  const during = await drainMailbox(MINA, failClosed(dedupStore), h.deps);
+  assert.deepEqual(during.droppedDuplicate, []);
+  assert.deepEqual(during.delivered, []);
+  assert.match(during.stoppedReason ?? "", /fail-closed/);
+  assert.equal(h.delivered.length, 0);
+  assert.deepEqual((await h.store.listHeld(MINA.id, 10)).map((m) => m.id), ["h1", "h2"]);
+
+  // The next drain, once the store is back, delivers both
+  dedupStore.down = false;
+  const after = await drainMailbox(MINA, failClosed(dedupStore), h.deps);
+  assert.deepEqual(after.delivered, ["h1", "h2"]);
+  assert.equal(after.stoppedReason, null);
+  assert.deepEqual(await h.store.listHeld(MINA.id, 10), []);
+});
+
+test("a drain still drops a real duplicate", async () => {
+  const dedupStore = new FlakyStore();
+  dedupStore.down = false;
+  const dedup = failClosed(dedupStore);
+  const h = harness(dedup);
+  await holdTwo(h);
+  await dedup.check({ fromAgentId: "jin", toAgentId: MINA.id, content: "Please review PR 12", messageId: "resent" });
+
+  const result = await drainMailbox(MINA, dedup, h.deps);
+  assert.deepEqual(result.droppedDuplicate, ["h1"]);
+  assert.deepEqual(result.delivered, ["h2"]);
+});
+
+test("a drain applies role-scoped failure rules", async () => {
+  const dedupStore = new FlakyStore();
+  const dedup = new RoutingDedupService(
+    dedupStore,
+    { failurePolicy: { defaultMode: "fail-open", rules: [{ toRole: "reviewer", mode: "fail-closed" }] } },
+    { now: () => T0 }
+  );
+  const h = harness(dedup);
+  await holdTwo(h);
+
+  assert.notEqual((await drainMailbox(MINA, dedup, h.deps)).stoppedReason, null);
+  assert.equal(h.delivered.length, 0);
+  // Same mail to an engineer: the default fail-open delivers it
+  const engineer = { ...MINA, role: "engineer" };
+  assert.deepEqual((await drainMailbox(engineer, dedup, h.deps)).delivered, ["h1", "h2"]);
+});
+
+test("a reroute under fail-closed holds the message instead of calling it a duplicate", async () => {
+  const dedupStore = new FlakyStore();
+  const h = harness(failClosed(dedupStore), [ROBIN]);
+  h.deps.config = { defaultPolicy: "reroute", retiredPolicy: "bounce", byRole: {}, byAgentId: {} };
+
+  const paused = { ...MINA, status: "paused" as const };
+  const outcome = await acceptForNonRunningAgent(paused, { id: "m1", fromAgentId: "jin", content: "Please review PR 12" }, h.deps);
+  assert.deepEqual(outcome, { outcome: "held", heldMessageId: "m1" });
+  assert.equal(h.delivered.length, 0);
+
+  const retired = { ...MINA, status: "retired" as const };
+  h.deps.config = { ...h.deps.config, retiredPolicy: "reroute" };
+  const bounced = await acceptForNonRunningAgent(retired, { id: "m2", fromAgentId: "jin", content: "Please review PR 13" }, h.deps);
+  assert.deepEqual(bounced, { outcome: "bounced", reason: "mina is retired and the dedup store is unavailable" });
+  assert.equal(h.delivered.length, 0);
+});
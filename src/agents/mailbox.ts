@@ -0,0 +1,400 @@
+/**
+ * mailbox.ts
+ *
+ * Durable per-agent mailbox for messages addressed to agents that are not
+ * running. Previously those messages were discarded — the sendMessageToAgent
+ * patch logged a warning and returned, registerSendMessageHandler returned an
+ * error string — and any work addressed to that role was lost.
+ *
+ * acceptForNonRunningAgent() applies the configured MailboxPolicy:
+ *  - hold:    store in agent_mailbox until the agent is resumed
+ *  - reroute: deliver to a live agent with the same role instead, chosen by
+ *             the FailoverRouter (failover-router.ts). The rerouted message
+ *             passes the message-flow guard and the routing dedup keyed to
+ *             the replacement, exactly like a direct send to it
+ *  - bounce:  notify the sender that the message was not delivered
+ *
+ * drainMailbox() runs after resumeAgent(): every held message goes through
+ * the routing dedup first, so a replay that was held four times while the
+ * agent was paused is delivered once. A key recorded for a delivery that then
+ * throws is released again, so the message is retried on the next drain
+ * instead of being dropped as its own duplicate.
+ *
+ * Only a match (L1, DB or near-duplicate) counts as a duplicate. A
+ * fail-closed verdict means the dedup store is down: a drained message stays
+ * held and the pass stops, a rerouted one is held or bounced instead.
+ *
+ * Retired agents never drain, so "hold" falls back to "bounce" for them.
+ */
+
+import crypto from "crypto";
+import { FlowCheckResult, MessageFlowGuard, getMessageFlowGuard } from "../dedup/message-flow-guard.js";
+import {
+  DedupCheckResult,
+  DedupVerdictSource,
+  RoutingDedupService,
+  getRoutingDedupService,
+} from "../dedup/routing-dedup-service.js";
+import { DbAdapter } from "../dedup/store.js";
+import { getLogger } from "../observability/logger.js";
+import { recordStoppedAgentBlock } from "../observability/routing-metrics.js";
+import { FailoverRouter, annotateFailover, getFailoverRouter } from "./failover-router.js";
+import { AgentStatus, inboundMessagePolicy, isTerminal } from "./lifecycle.js";
+
+const log = getLogger("mailbox");
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MailboxPolicy = "hold" | "reroute" | "bounce";
+
+export type HeldMessageStatus = "held" | "delivered" | "dropped-duplicate" | "bounced";
+
+export interface HeldMessage {
+  id: string;
+  toAgentId: string;
+  fromAgentId: string;
+  content: string;
+  taskId: string | null;
+  heldAtMs: number;
+  status: HeldMessageStatus;
+  resolvedAtMs: number | null;
+}
+
+export interface MailboxAgent {
+  id: string;
+  name: string;
+  role: string;
+  status: AgentStatus;
+  lastActiveAt?: string | null;
+}
+
+export interface MailboxPolicyConfig {
+  /** Applied to paused/stopped/quarantined targets when no role/agent override matches. */
+  defaultPolicy: MailboxPolicy;
+  /**
+   * Applied to retired targets. "hold" is treated as "bounce". Keep the
+   * default "bounce" and opt roles or agents into "reroute" via byRole /
+   * byAgentId, which also apply to retired targets.
+   */
+  retiredPolicy: MailboxPolicy;
+  byRole: Record<string, MailboxPolicy>;
+  byAgentId: Record<string, MailboxPolicy>;
+}
+
+export const DEFAULT_MAILBOX_POLICY_CONFIG: Readonly<MailboxPolicyConfig> = Object.freeze({
+  defaultPolicy: "hold",
+  retiredPolicy: "bounce",
+  byRole: {},
+  byAgentId: {},
+});
+
+export function mailboxPolicyFor(config: MailboxPolicyConfig, target: MailboxAgent): MailboxPolicy {
+  const policy = isTerminal(target.status)
+    ? config.byAgentId[target.id] ?? config.byRole[target.role] ?? config.retiredPolicy
+    : config.byAgentId[target.id] ?? config.byRole[target.role] ?? config.defaultPolicy;
+  return policy === "hold" && isTerminal(target.status) ? "bounce" : policy;
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export interface MailboxStore {
+  hold(message: HeldMessage): Promise<void>;
+  /** Held (unresolved) messages for one agent, oldest first. */
+  listHeld(agentId: string, limit: number): Promise<HeldMessage[]>;
+  resolve(id: string, status: Exclude<HeldMessageStatus, "held">, atMs: number): Promise<void>;
+}
+
+function rowToHeldMessage(row: Record<string, unknown>): HeldMessage {
+  return {
+    id: String(row.id),
+    toAgentId: String(row.to_agent_id),
+    fromAgentId: String(row.from_agent_id),
+    content: String(row.content),
+    taskId: row.task_id ? String(row.task_id) : null,
+    heldAtMs: Number(row.held_at_ms),
+    status: String(row.status) as HeldMessageStatus,
+    resolvedAtMs: row.resolved_at_ms === null || row.resolved_at_ms === undefined ? null : Number(row.resolved_at_ms),
+  };
+}
+
+export class PostgresMailboxStore implements MailboxStore {
+  constructor(private readonly db: DbAdapter) {}
+
+  async hold(message: HeldMessage): Promise<void> {
+    await this.db.query(
+      `INSERT INTO agent_mailbox (id, to_agent_id, from_agent_id, content, task_id, held_at, status)
+       VALUES ($1, $2, $3, $4, $5, to_timestamp($6 / 1000.0), 'held')`,
+      [message.id, message.toAgentId, message.fromAgentId, message.content, message.taskId, message.heldAtMs]
+    );
+  }
+
+  async listHeld(agentId: string, limit: number): Promise<HeldMessage[]> {
+    const { rows } = await this.db.query(
+      `SELECT id, to_agent_id, from_agent_id, content, task_id, status,
+              EXTRACT(EPOCH FROM held_at) * 1000 AS held_at_ms,
+              EXTRACT(EPOCH FROM resolved_at) * 1000 AS resolved_at_ms
+       FROM agent_mailbox
+       WHERE to_agent_id = $1 AND status = 'held'
+       ORDER BY held_at ASC
+       LIMIT $2`,
+      [agentId, limit]
+    );
+    return rows.map(rowToHeldMessage);
+  }
+
+  async resolve(id: string, status: Exclude<HeldMessageStatus, "held">, atMs: number): Promise<void> {
+    await this.db.query(
+      `UPDATE agent_mailbox SET status = $2, resolved_at = to_timestamp($3 / 1000.0)
+       WHERE id = $1 AND status = 'held'`,
+      [id, status, atMs]
+    );
+  }
+}
+
+export class MemoryMailboxStore implements MailboxStore {
+  private readonly messages = new Map<string, HeldMessage>();
+
+  async hold(message: HeldMessage): Promise<void> {
+    this.messages.set(message.id, { ...message, status: "held", resolvedAtMs: null });
+  }
+
+  async listHeld(agentId: string, limit: number): Promise<HeldMessage[]> {
+    return [...this.messages.values()]
+      .filter((m) => m.toAgentId === agentId && m.status === "held")
+      .sort((a, b) => a.heldAtMs - b.heldAtMs)
+      .slice(0, limit)
+      .map((m) => ({ ...m }));
+  }
+
+  async resolve(id: string, status: Exclude<HeldMessageStatus, "held">, atMs: number): Promise<void> {
+    const message = this.messages.get(id);
+    if (message && message.status === "held") {
+      message.status = status;
+      message.resolvedAtMs = atMs;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Accept: message to a non-running agent
+// ---------------------------------------------------------------------------
+
+/** Verdicts that matched an earlier message. "fail-closed" matched nothing — the store was down. */
+const DUPLICATE_SOURCES: ReadonlySet<DedupVerdictSource> = new Set(["l1", "db", "near-duplicate"]);
+
+function isMatchedDuplicate(verdict: DedupCheckResult): boolean {
+  return verdict.isDuplicate && DUPLICATE_SOURCES.has(verdict.source);
+}
+
+export interface MailboxDeps {
+  store: MailboxStore;
+  config?: MailboxPolicyConfig;
+  /** All agents — reroute candidates are filtered by the router. */
+  listAgents: () => Promise<MailboxAgent[]>;
+  /** Defaults to the module FailoverRouter. */
+  router?: FailoverRouter;
+  /** Dedup for rerouted messages. Defaults to the module RoutingDedupService. */
+  dedup?: RoutingDedupService;
+  /** Flow guard for rerouted messages. Defaults to the module MessageFlowGuard. */
+  messageFlow?: MessageFlowGuard;
+  /**
+   * Delivers a message into an agent's conversation (sendMessageToAgent).
+   * `fromAgentId` is null for platform notices (bounces); the integration
+   * formats the "[Message from …]" prefix.
+   */
+  deliver: (toAgentId: string, content: string, fromAgentId: string | null) => Promise<void>;
+  /** Called after a held message is resolved — e.g. to update its delivery record. */
+  onResolved?: (message: HeldMessage, status: Exclude<HeldMessageStatus, "held">) => Promise<void>;
+  now?: () => number;
+}
+
+export type MailboxOutcome =
+  | { outcome: "held"; heldMessageId: string }
+  | { outcome: "rerouted"; reroutedTo: MailboxAgent }
+  /** The replacement already received this message. */
+  | { outcome: "duplicate"; reroutedTo: MailboxAgent; verdict: DedupCheckResult }
+  /** The route to the replacement is throttled or paused. */
+  | { outcome: "rate-limited"; reroutedTo: MailboxAgent; flow: FlowCheckResult }
+  | { outcome: "bounced"; reason: string };
+
+export interface InboundMessage {
+  /** Held message ID; the send_message deliveryId so both refer to the same message. */
+  id?: string;
+  fromAgentId: string;
+  content: string;
+  taskId?: string | null;
+}
+
+/**
+ * Handles a message whose target's inboundMessagePolicy is not "deliver".
+ * Returns what was done so the send_message handler can tell the sender.
+ */
+export async function acceptForNonRunningAgent(
+  target: MailboxAgent,
+  message: InboundMessage,
+  deps: MailboxDeps
+): Promise<MailboxOutcome> {
+  const now = deps.now ?? Date.now;
+  const policy = mailboxPolicyFor(deps.config ?? DEFAULT_MAILBOX_POLICY_CONFIG, target);
+  recordStoppedAgentBlock("route");
+
+  if (policy === "reroute") {
+    const agents = (await deps.listAgents()).filter((a) => a.id !== target.id);
+    const resolution = (deps.router ?? getFailoverRouter()).resolve({ agentId: target.id }, [target, ...agents], {
+      taskId: message.taskId,
+    });
+    if (resolution) {
+      const replacement = resolution.agent;
+      // Same gates as a direct send, keyed to the replacement: flow guard first
+      // so a throttled message does not record a dedup key
+      const flow = await (deps.messageFlow ?? getMessageFlowGuard()).check(message.fromAgentId, replacement.id);
+      if (!flow.allowed) return { outcome: "rate-limited", reroutedTo: replacement, flow };
+      const dedup = deps.dedup ?? getRoutingDedupService();
+      const verdict = await dedup.check({
+        fromAgentId: message.fromAgentId,
+        toAgentId: replacement.id,
+        content: message.content,
+        taskId: message.taskId,
+        messageId: message.id,
+        toRole: replacement.role,
+      });
+      if (isMatchedDuplicate(verdict)) return { outcome: "duplicate", reroutedTo: replacement, verdict };
+      if (!verdict.isDuplicate) {
+        try {
+          await deps.deliver(replacement.id, annotateFailover(message.content, resolution), message.fromAgentId);
+        } catch (err) {
+          await dedup.release(verdict.dedupKey, message.id ?? null);
+          throw err;
+        }
+        return { outcome: "rerouted", reroutedTo: replacement };
+      }
+      // Fail-closed: not delivered and not known to be a duplicate
+      log.warn(`Reroute from ${target.name}(${target.id}) blocked — dedup store unavailable`, {
+        agentId: target.id,
+        replacementId: replacement.id,
+        reason: verdict.reason,
+      });
+    }
+    // No live agent with that role, or the reroute was blocked: hold if the
+    // target can come back, else bounce
+    if (isTerminal(target.status)) {
+      const why = resolution ? "the dedup store is unavailable" : `no live ${target.role} agent is available`;
+      return { outcome: "bounced", reason: `${target.name} is retired and ${why}` };
+    }
+  } else if (policy === "bounce") {
+    return { outcome: "bounced", reason: `${target.name} is ${target.status}` };
+  }
+
+  const held: HeldMessage = {
+    id: message.id ?? `held_${crypto.randomBytes(8).toString("hex")}`,
+    toAgentId: target.id,
+    fromAgentId: message.fromAgentId,
+    content: message.content,
+    taskId: message.taskId ?? null,
+    heldAtMs: now(),
+    status: "held",
+    resolvedAtMs: null,
+  };
+  await deps.store.hold(held);
+  log.info(`Held message for ${target.status} agent ${target.name}(${target.id})`, { heldMessageId: held.id, agentId: target.id });
+  return { outcome: "held", heldMessageId: held.id };
+}
+
+// ---------------------------------------------------------------------------
+// Drain: after resumeAgent()
+// ---------------------------------------------------------------------------
+
+export interface DrainResult {
+  delivered: string[];
+  droppedDuplicate: string[];
+  bounced: string[];
+  /** Why the pass stopped with messages still held (dedup store unavailable); null when it finished. */
+  stoppedReason: string | null;
+}
+
+const DRAIN_BATCH = 100;
+
+/**
+ * Delivers an agent's held messages, oldest first, each through the routing
+ * dedup. If the agent has since been retired, held messages are bounced to
+ * their senders instead. No-op while the agent is still paused. Stops at the
+ * first fail-closed verdict and leaves the rest held for the next drain.
+ */
+export async function drainMailbox(
+  agent: MailboxAgent,
+  dedup: RoutingDedupService,
+  deps: MailboxDeps
+): Promise<DrainResult> {
+  const now = deps.now ?? Date.now;
+  const result: DrainResult = { delivered: [], droppedDuplicate: [], bounced: [], stoppedReason: null };
+  const policy = inboundMessagePolicy(agent.status);
+  if (policy === "hold") return result;
+
+  const resolve = async (message: HeldMessage, status: Exclude<HeldMessageStatus, "held">): Promise<void> => {
+    await deps.store.resolve(message.id, status, now());
+    if (deps.onResolved) await deps.onResolved(message, status);
+  };
+
+  drain: for (;;) {
+    const batch = await deps.store.listHeld(agent.id, DRAIN_BATCH);
+    if (batch.length === 0) break;
+
+    for (const message of batch) {
+      if (policy === "bounce") {
+        await deps.deliver(
+          message.fromAgentId,
+          `[Bounced] Your message to ${agent.name} was not delivered — ${agent.name} is retired: ${message.content.slice(0, 200)}`,
+          null
+        );
+        await resolve(message, "bounced");
+        result.bounced.push(message.id);
+        continue;
+      }
+
+      const verdict = await dedup.check({
+        fromAgentId: message.fromAgentId,
+        toAgentId: agent.id,
+        content: message.content,
+        taskId: message.taskId,
+        messageId: message.id,
+        toRole: agent.role,
+      });
+      if (isMatchedDuplicate(verdict)) {
+        await resolve(message, "dropped-duplicate");
+        result.droppedDuplicate.push(message.id);
+        continue;
+      }
+      if (verdict.isDuplicate) {
+        // Fail-closed: the store is down. Undelivered — keep it held for the next drain
+        result.stoppedReason = verdict.reason ?? "dedup store unavailable";
+        log.warn(`Drain of ${agent.name}(${agent.id}) stopped — dedup store unavailable`, {
+          agentId: agent.id,
+          heldMessageId: message.id,
+          reason: result.stoppedReason,
+        });
+        break drain;
+      }
+      try {
+        await deps.deliver(agent.id, message.content, message.fromAgentId);
+      } catch (err) {
+        // Still held: the next drain retries it, so it must not match its own key
+        await dedup.release(verdict.dedupKey, message.id);
+        throw err;
+      }
+      await resolve(message, "delivered");
+      result.delivered.push(message.id);
+    }
+  }
+
+  log.info(`Drained ${agent.name}(${agent.id})`, {
+    agentId: agent.id,
+    delivered: result.delivered.length,
+    duplicate: result.droppedDuplicate.length,
+    bounced: result.bounced.length,
+  });
+  return result;
+}
@@ -0,0 +1,51 @@
+-- Migration: held-message mailbox for non-running agents
+-- Messages addressed to paused/stopped agents are held here instead of being
+-- dropped, and drained through the routing dedup when the agent is resumed.
+-- Applied as migration 4 by dedup/migrations.ts (runDedupMigrations); this
+-- file is the resulting schema.
+
+CREATE TABLE IF NOT EXISTS agent_mailbox (
+  id             TEXT PRIMARY KEY,
+  to_agent_id    TEXT NOT NULL,
+  from_agent_id  TEXT NOT NULL,
+  content        TEXT NOT NULL,
+  task_id        TEXT,
+  held_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status         TEXT NOT NULL DEFAULT 'held',  -- held | delivered | dropped-duplicate | bounced
+  resolved_at    TIMESTAMPTZ
+);
+
+-- Drain order: oldest held first, per recipient
+CREATE INDEX IF NOT EXISTS idx_agent_mailbox_held
+  ON agent_mailbox(to_agent_id, held_at)
+  WHERE status = 'held';
+
+-- ---------------------------------------------------------------------------
+-- Delivery records: one row per routed send_message, keyed by the deliveryId
+-- returned to the sender. queued → (held →) delivered → read, or a terminal
+-- duplicate / bounced / rate-limited / failed. Backs check_message_status.
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS message_deliveries (
+  delivery_id            TEXT PRIMARY KEY,
+  from_agent_id          TEXT NOT NULL,
+  to_agent_id            TEXT NOT NULL,           -- addressed recipient
+  delivered_to_agent_id  TEXT,                    -- differs from to_agent_id when rerouted
+  status                 TEXT NOT NULL,           -- queued | held | delivered | read | duplicate | bounced | rate-limited | failed
+  detail                 TEXT,                    -- bounce/limit/failure reason
+  matched_delivery_id    TEXT,                    -- duplicate: the earlier delivery it matched
+  preview                TEXT NOT NULL,           -- first 200 chars of the message
+  created_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at             TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at           TIMESTAMPTZ,
+  read_at                TIMESTAMPTZ
+);
+
+-- check_message_status with no ID: the sender's recent sends
+CREATE INDEX IF NOT EXISTS idx_message_deliveries_from
+  ON message_deliveries(from_agent_id, created_at DESC);
+
+-- Read acknowledgement at turn start: delivered, unread, per recipient
+CREATE INDEX IF NOT EXISTS idx_message_deliveries_unread
+  ON message_deliveries(delivered_to_agent_id, delivered_at)
+  WHERE status = 'delivered';
@@ -0,0 +1,195 @@
+/**
+ * send-message-result.ts
+ *
+ * Typed outcome of a send_message tool call. The patched
+ * registerSendMessageHandler used to return prose ("Error: agent X is
+ * stopped — message not delivered", "Message delivered to X"), so agents and
+ * the scheduler had to parse sentences to learn what happened.
+ *
+ * Every outcome carries a deliveryId. It is generated before the dedup check
+ * and passed as the dedup messageId, so a duplicate-dropped result names the
+ * deliveryId of the earlier message it matched.
+ *
+ * renderSendMessageResult() turns a result into the tool output text. Its
+ * first line is a fixed `[send_message] status=… delivery_id=…` header that
+ * the SEND_MESSAGE FAILURE PROTOCOL tells agents to read instead of guessing.
+ */
+
+import crypto from "crypto";
+import { DedupCheckResult } from "../dedup/routing-dedup-service.js";
+import { FlowCheckResult, FlowLimit } from "../dedup/message-flow-guard.js";
+import { AgentStatus } from "./lifecycle.js";
+import { MailboxOutcome } from "./mailbox.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SendMessageStatus =
+  | "delivered"
+  | "duplicate-dropped"
+  | "target-stopped"
+  | "held"
+  | "rerouted"
+  | "rate-limited"
+  | "failed";
+
+interface SendMessageResultBase {
+  deliveryId: string;
+  /** Agent the sender addressed (may be unresolved for "failed"). */
+  toAgentId: string;
+  toAgentName: string | null;
+  atMs: number;
+}
+
+export type SendMessageResult = SendMessageResultBase &
+  (
+    | { status: "delivered" }
+    | {
+        status: "duplicate-dropped";
+        dedupKey: string;
+        via: DedupCheckResult["source"];
+        /** deliveryId of the earlier message this one duplicated, when known. */
+        matchedDeliveryId: string | null;
+        /** Set for near-duplicate drops. */
+        similarity: number | null;
+      }
+    | { status: "target-stopped"; targetStatus: AgentStatus; reason: string }
+    | { status: "held"; targetStatus: AgentStatus; heldMessageId: string }
+    | { status: "rerouted"; targetStatus: AgentStatus; reroutedTo: { id: string; name: string } }
+    | { status: "rate-limited"; limit: FlowLimit; retryAfterMs: number; reason: string }
+    | { status: "failed"; error: string }
+  );
+
+export interface SendMessageTarget {
+  id: string;
+  name: string;
+  status: AgentStatus;
+}
+
+// ---------------------------------------------------------------------------
+// Builders
+// ---------------------------------------------------------------------------
+
+export function newDeliveryId(): string {
+  return `dlv_${crypto.randomBytes(8).toString("hex")}`;
+}
+
+function base(deliveryId: string, target: { id: string; name?: string | null }, atMs: number): SendMessageResultBase {
+  return { deliveryId, toAgentId: target.id, toAgentName: target.name ?? null, atMs };
+}
+
+export function deliveredResult(deliveryId: string, target: SendMessageTarget, atMs = Date.now()): SendMessageResult {
+  return { ...base(deliveryId, target, atMs), status: "delivered" };
+}
+
+/** From a routing dedup verdict with isDuplicate = true. */
+export function duplicateResult(
+  deliveryId: string,
+  target: SendMessageTarget,
+  verdict: DedupCheckResult,
+  atMs = Date.now()
+): SendMessageResult {
+  return {
+    ...base(deliveryId, target, atMs),
+    status: "duplicate-dropped",
+    dedupKey: verdict.dedupKey,
+    via: verdict.source,
+    matchedDeliveryId: verdict.nearMatch?.matchedMessageId ?? verdict.matchedMessageId ?? null,
+    similarity: verdict.source === "near-duplicate" ? verdict.nearMatch?.similarity ?? null : null,
+  };
+}
+
+/** From the mailbox, for a target that is not running. */
+export function mailboxResult(
+  deliveryId: string,
+  target: SendMessageTarget,
+  outcome: MailboxOutcome,
+  atMs = Date.now()
+): SendMessageResult {
+  switch (outcome.outcome) {
+    case "held":
+      return { ...base(deliveryId, target, atMs), status: "held", targetStatus: target.status, heldMessageId: outcome.heldMessageId };
+    case "rerouted":
+      return {
+        ...base(deliveryId, target, atMs),
+        status: "rerouted",
+        targetStatus: target.status,
+        reroutedTo: { id: outcome.reroutedTo.id, name: outcome.reroutedTo.name },
+      };
+    case "duplicate":
+      return duplicateResult(deliveryId, target, outcome.verdict, atMs);
+    case "rate-limited":
+      return rateLimitedResult(deliveryId, target, outcome.flow, atMs);
+    case "bounced":
+      return { ...base(deliveryId, target, atMs), status: "target-stopped", targetStatus: target.status, reason: outcome.reason };
+  }
+}
+
+/** From a message-flow guard rejection (allowed = false). */
+export function rateLimitedResult(
+  deliveryId: string,
+  target: SendMessageTarget,
+  flow: FlowCheckResult,
+  atMs = Date.now()
+): SendMessageResult {
+  return {
+    ...base(deliveryId, target, atMs),
+    status: "rate-limited",
+    limit: flow.limit ?? "route",
+    retryAfterMs: flow.retryAfterMs,
+    reason: flow.reason ?? "rate limited",
+  };
+}
+
+export function failedResult(
+  deliveryId: string,
+  target: { id: string; name?: string | null },
+  error: unknown,
+  atMs = Date.now()
+): SendMessageResult {
+  return {
+    ...base(deliveryId, target, atMs),
+    status: "failed",
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * True when the message will not reach anyone unless the sender acts.
+ * Held, rerouted and duplicate-dropped messages need no resend.
+ */
+export function needsSenderAction(result: SendMessageResult): boolean {
+  return result.status === "target-stopped" || result.status === "rate-limited" || result.status === "failed";
+}
+
+// ---------------------------------------------------------------------------
+// Renderer
+// ---------------------------------------------------------------------------
+
+/** Tool output text: a fixed status header line, then one sentence for the agent. */
+export function renderSendMessageResult(result: SendMessageResult): string {
+  const name = result.toAgentName ?? result.toAgentId;
+  const header = `[send_message] status=${result.status} delivery_id=${result.deliveryId}`;
+  switch (result.status) {
+    case "delivered":
+      return `${header}\nMessage delivered to ${name}. Do not resend — wait for a reply.`;
+    case "duplicate-dropped":
+      return (
+        `${header}\nNot delivered: ${name} already received ` +
+        (result.similarity !== null ? `a near-identical message (similarity ${result.similarity.toFixed(2)})` : "this message") +
+        (result.matchedDeliveryId ? ` as ${result.matchedDeliveryId}` : "") +
+        `. Do not resend — wait for a reply.`
+      );
+    case "held":
+      return `${header}\n${name} is ${result.targetStatus}. Message held (${result.heldMessageId}) and will be delivered when ${name} is resumed. Do not resend.`;
+    case "rerouted":
+      return `${header}\n${name} is ${result.targetStatus}. Message delivered to ${result.reroutedTo.name} (same role) instead. Do not resend.`;
+    case "target-stopped":
+      return `${header}\nNot delivered: ${result.reason}. Route it to another agent or log a task comment.`;
+    case "rate-limited":
+      return `${header}\nNot delivered: ${result.reason}. Wait at least ${Math.ceil(result.retryAfterMs / 1000)}s — or for a reply — before sending to ${name} again.`;
+    case "failed":
+      return `${header}\nNot delivered: ${result.error}.`;
+  }
+}
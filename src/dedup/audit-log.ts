@@ -0,0 +1,156 @@
+/**
+ * audit-log.ts
+ *
+ * Durable record of every routing dedup decision. Before this, a dropped
+ * message left only a console line (or nothing), so "why didn't Dev get my
+ * message?" meant grepping logs. RoutingDedupService writes one entry per
+ * check() — allowed or dropped, and which earlier message it matched — and
+ * queryDedupDecisions() answers the question by agent, route, task and time.
+ *
+ * Backends mirror DedupStore: Postgres / SQLite / in-memory (stores/).
+ */
+
+import type { DedupCheckResult, RoutingDedupInput } from "./routing-dedup-service.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DedupDecision =
+  | "allowed"
+  | "dropped-l1"
+  | "dropped-db"
+  | "dropped-near-duplicate"
+  | "dropped-fail-closed"
+  | "fail-open";
+
+export interface DedupAuditEntry {
+  id: string;
+  decidedAtMs: number;
+  decision: DedupDecision;
+  fromAgentId: string;
+  toAgentId: string;
+  taskId: string | null;
+  dedupKey: string;
+  messageId: string | null;
+  /** Earlier message this one matched (drops and near misses). */
+  matchedDedupKey: string | null;
+  matchedMessageId: string | null;
+  /** Near-duplicate similarity, when near-dup mode produced a match. */
+  similarity: number | null;
+  reason: string | null;
+}
+
+export interface DedupAuditQuery {
+  /** Matches either side of the route. */
+  agentId?: string;
+  fromAgentId?: string;
+  toAgentId?: string;
+  taskId?: string;
+  decisions?: DedupDecision[];
+  /** Inclusive lower bound on decidedAtMs. */
+  sinceMs?: number;
+  /** Exclusive upper bound on decidedAtMs. */
+  untilMs?: number;
+  /** Default 100, newest first. */
+  limit?: number;
+}
+
+export interface DedupAuditLog {
+  record(entry: DedupAuditEntry): Promise<void>;
+  query(query: DedupAuditQuery): Promise<DedupAuditEntry[]>;
+}
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DECISION_BY_SOURCE: Record<DedupCheckResult["source"], DedupDecision> = {
+  recorded: "allowed",
+  l1: "dropped-l1",
+  db: "dropped-db",
+  "near-duplicate": "dropped-near-duplicate",
+  "fail-open": "fail-open",
+  "fail-closed": "dropped-fail-closed",
+};
+
+/** Audit/metrics decision for a check result's source. */
+export function dedupDecisionFor(source: DedupCheckResult["source"]): DedupDecision {
+  return DECISION_BY_SOURCE[source];
+}
+
+export function toAuditEntry(
+  id: string,
+  decidedAtMs: number,
+  input: RoutingDedupInput,
+  result: DedupCheckResult
+): DedupAuditEntry {
+  const match = result.nearMatch;
+  return {
+    id,
+    decidedAtMs,
+    decision: DECISION_BY_SOURCE[result.source],
+    fromAgentId: input.fromAgentId,
+    toAgentId: input.toAgentId,
+    taskId: input.taskId ?? null,
+    dedupKey: result.dedupKey,
+    messageId: input.messageId ?? null,
+    matchedDedupKey: match?.matchedDedupKey ?? (result.isDuplicate ? result.dedupKey : null),
+    matchedMessageId: match?.matchedMessageId ?? result.matchedMessageId ?? null,
+    similarity: match?.similarity ?? null,
+    reason: result.reason ?? null,
+  };
+}
+
+/**
+ * Builds the WHERE clause + params for SQL-backed audit logs.
+ * `placeholder(n)` renders the n-th (1-based) parameter for the dialect;
+ * `fromMs(p)` converts an epoch-ms parameter to the decided_at column type.
+ */
+export function buildAuditWhere(
+  query: DedupAuditQuery,
+  placeholder: (n: number) => string,
+  decidedAtColumn: string,
+  fromMs: (param: string) => string = (param) => param
+): { where: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  const bind = (value: unknown): string => {
+    params.push(value);
+    return placeholder(params.length);
+  };
+
+  if (query.agentId !== undefined) {
+    const p = bind(query.agentId);
+    clauses.push(`(from_agent_id = ${p} OR to_agent_id = ${p})`);
+  }
+  if (query.fromAgentId !== undefined) clauses.push(`from_agent_id = ${bind(query.fromAgentId)}`);
+  if (query.toAgentId !== undefined) clauses.push(`to_agent_id = ${bind(query.toAgentId)}`);
+  if (query.taskId !== undefined) clauses.push(`task_id = ${bind(query.taskId)}`);
+  if (query.decisions && query.decisions.length > 0) {
+    clauses.push(`decision IN (${query.decisions.map((d) => bind(d)).join(", ")})`);
+  }
+  if (query.sinceMs !== undefined) clauses.push(`${decidedAtColumn} >= ${fromMs(bind(query.sinceMs))}`);
+  if (query.untilMs !== undefined) clauses.push(`${decidedAtColumn} < ${fromMs(bind(query.untilMs))}`);
+
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+export function rowToAuditEntry(row: Record<string, unknown>): DedupAuditEntry {
+  return {
+    id: String(row.id),
+    decidedAtMs: Number(row.decided_at_ms),
+    decision: String(row.decision) as DedupDecision,
+    fromAgentId: String(row.from_agent_id),
+    toAgentId: String(row.to_agent_id),
+    taskId: row.task_id ? String(row.task_id) : null,
+    dedupKey: String(row.dedup_key),
+    messageId: row.message_id ? String(row.message_id) : null,
+    matchedDedupKey: row.matched_dedup_key ? String(row.matched_dedup_key) : null,
+    matchedMessageId: row.matched_message_id ? String(row.matched_message_id) : null,
+    similarity: row.similarity === null || row.similarity === undefined ? null : Number(row.similarity),
+    reason: row.reason ? String(row.reason) : null,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * circuit-breaker.ts
+ *
+ * Consecutive-failure circuit breaker for the dedup store. During a DB hiccup
+ * (typically at startup) every routed message used to hit the failing DB and
+ * then fail open — which is how the "Jin 4x" loops slipped through. While the
+ * breaker is open the service skips the DB entirely and applies the route's
+ * failure mode (failure-policy.ts) straight away.
+ *
+ *   closed ──(failureThreshold consecutive failures)──▶ open
+ *   open ──(cooldownMs elapsed)──▶ half-open ──(probe ok)──▶ closed
+ *                                            └─(probe fails)──▶ open
+ *
+ * Every state change raises a structured DedupHealthEvent.
+ */
+
+import { errorMessage, getLogger } from "../observability/logger.js";
+
+const log = getLogger("dedup");
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerConfig {
+  /** Consecutive store failures that trip the breaker. */
+  failureThreshold: number;
+  /** How long the breaker stays open before allowing a probe. */
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: Readonly<CircuitBreakerConfig> = Object.freeze({
+  failureThreshold: 3,
+  cooldownMs: 15_000,
+});
+
+export interface DedupHealthEvent {
+  type: "dedup.circuit.opened" | "dedup.circuit.half_open" | "dedup.circuit.closed";
+  state: CircuitState;
+  atMs: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  /** When the next probe is allowed (open state only). */
+  retryAtMs: number | null;
+}
+
+export type DedupHealthListener = (event: DedupHealthEvent) => void;
+
+export class CircuitBreaker {
+  private _state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAtMs = 0;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly config: CircuitBreakerConfig,
+    private readonly now: () => number,
+    private readonly onEvent: DedupHealthListener = () => {}
+  ) {}
+
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  /** Earliest time a probe is allowed; `now` when not open. */
+  retryAtMs(): number {
+    return this._state === "open" ? this.openedAtMs + this.config.cooldownMs : this.now();
+  }
+
+  /** True if the store may be called. Moves open → half-open once the cooldown has elapsed. */
+  canAttempt(): boolean {
+    if (this._state !== "open") return true;
+    if (this.now() < this.retryAtMs()) return false;
+    this.transition("half-open");
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.lastError = null;
+    if (this._state !== "closed") this.transition("closed");
+  }
+
+  recordFailure(err: unknown): void {
+    this.consecutiveFailures++;
+    this.lastError = err instanceof Error ? err.message : String(err);
+    if (
+      this._state === "half-open" ||
+      (this._state === "closed" && this.consecutiveFailures >= this.config.failureThreshold)
+    ) {
+      this.openedAtMs = this.now();
+      this.transition("open");
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    this._state = state;
+    const event: DedupHealthEvent = {
+      type:
+        state === "open"
+          ? "dedup.circuit.opened"
+          : state === "half-open"
+            ? "dedup.circuit.half_open"
+            : "dedup.circuit.closed",
+      state,
+      atMs: this.now(),
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      retryAtMs: state === "open" ? this.retryAtMs() : null,
+    };
+    if (state === "open") {
+      log.error("Circuit opened after consecutive DB failures", {
+        consecutiveFailures: event.consecutiveFailures,
+        lastError: event.lastError,
+        retryAt: new Date(event.retryAtMs!).toISOString(),
+      });
+    }
+    try {
+      this.onEvent(event);
+    } catch (err) {
+      log.error("Health event listener threw", { error: errorMessage(err) });
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * coherence.test.ts
+ *
+ * Two RoutingDedupService instances — two replicas — sharing one store and a
+ * LocalDedupBus, on every backend test-databases.ts can open.
+ */
+
+import assert from "node:assert/strict";
+import { MemoryLogSink, setLogSink } from "../observability/logger.js";
+import { LocalDedupBus } from "./coherence.js";
+import { RoutingDedupService } from "./routing-dedup-service.js";
+import { DedupStore } from "./store.js";
+import { BackendCase, testEachBackend } from "./test-databases.js";
+
+setLogSink(new MemoryLogSink().sink);
+
+const MESSAGE = { fromAgentId: "jin", toAgentId: "mina", content: "Can you take over the migration task?" };
+
+async function replicas(store: DedupStore, bus: LocalDedupBus | null): Promise<[RoutingDedupService, RoutingDedupService]> {
+  const pair: [RoutingDedupService, RoutingDedupService] = [
+    new RoutingDedupService(store, {}, { broadcast: bus ?? undefined, instanceId: "replica-a" }),
+    new RoutingDedupService(store, {}, { broadcast: bus ?? undefined, instanceId: "replica-b" }),
+  ];
+  for (const service of pair) await service.startBroadcast();
+  return pair;
+}
+
+const cases: Record<string, BackendCase> = {
+  "a key recorded on one replica is caught from the other's L1": async (store) => {
+    const [a, b] = await replicas(store, new LocalDedupBus());
+    assert.equal((await a.check({ ...MESSAGE, messageId: "m1" })).source, "recorded");
+
+    const resend = await b.check({ ...MESSAGE, messageId: "m2" });
+    assert.equal(resend.isDuplicate, true);
+    assert.equal(resend.source, "l1");
+    assert.equal(resend.matchedMessageId, "m1");
+    assert.equal(b.l1Stats().hits, 1);
+  },
+
+  "without a channel the other replica still catches it from the shared store": async (store) => {
+    const [a, b] = await replicas(store, null);
+    await a.check({ ...MESSAGE, messageId: "m1" });
+
+    const resend = await b.check({ ...MESSAGE, messageId: "m2" });
+    assert.equal(resend.isDuplicate, true);
+    assert.equal(resend.source, "db");
+  },
+
+  "a released key is dropped from every replica's L1": async (store) => {
+    const [a, b] = await replicas(store, new LocalDedupBus());
+    const first = await a.check({ ...MESSAGE, messageId: "m1" });
+    assert.equal((await b.peek(MESSAGE)).isDuplicate, true);
+
+    // The delivery failed on replica A; the sender's retry lands on B
+    assert.equal(await a.release(first.dedupKey, "m1"), true);
+    const retry = await b.check({ ...MESSAGE, messageId: "m2" });
+    assert.equal(retry.isDuplicate, false);
+    assert.equal(retry.source, "recorded");
+  },
+
+  "a replica that stopped listening falls back to the store": async (store) => {
+    const [a, b] = await replicas(store, new LocalDedupBus());
+    await b.stopBroadcast();
+    await a.check({ ...MESSAGE, messageId: "m1" });
+
+    const resend = await b.check({ ...MESSAGE, messageId: "m2" });
+    assert.equal(resend.isDuplicate, true);
+    assert.equal(resend.source, "db");
+  },
+};
+
+testEachBackend((name) => `two replicas sharing one ${name} store`, cases);
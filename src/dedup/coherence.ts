@@ -0,0 +1,109 @@
+/**
+ * coherence.ts
+ *
+ * Cross-process L1 coherence for multiple backend replicas. L1 is
+ * per-process and loadStartupDedupGuard() only warms it once at boot, so
+ * without this worker B never learns what worker A recorded — every check
+ * falls through to the DB (or fails open if the DB errors).
+ *
+ * When a replica records a new key it publishes a DedupKeyAnnouncement;
+ * every other replica warms its L1 with it. A key released after a failed
+ * delivery is announced with `released: true` and dropped from every L1, so
+ * the retry is not blocked by another replica's cache. The DB stays authoritative —
+ * a lost announcement only costs a DB round-trip, never a wrong verdict.
+ *
+ * Channels:
+ *  - PostgresNotifyDedupChannel — LISTEN/NOTIFY on a dedicated connection
+ *  - LocalDedupBus — in-process, for tests with several services sharing one store
+ */
+
+import { errorMessage, getLogger } from "../observability/logger.js";
+
+const log = getLogger("dedup");
+
+// ---------------------------------------------------------------------------
+// Contract
+// ---------------------------------------------------------------------------
+
+export interface DedupKeyAnnouncement {
+  /** Instance ID of the publishing replica — receivers ignore their own. */
+  originId: string;
+  dedupKey: string;
+  seenAtMs: number;
+  messageId: string | null;
+  /** The key was released (RoutingDedupService.release), not recorded. */
+  released?: boolean;
+}
+
+export type DedupAnnouncementHandler = (announcement: DedupKeyAnnouncement) => void;
+
+export interface DedupBroadcastChannel {
+  publish(announcement: DedupKeyAnnouncement): Promise<void>;
+  /** Resolves once listening; returns an unsubscribe function. */
+  subscribe(handler: DedupAnnouncementHandler): Promise<() => Promise<void>>;
+}
+
+export const DEDUP_NOTIFY_CHANNEL = "routing_dedup";
+
+// ---------------------------------------------------------------------------
+// In-process bus (tests / single-host multi-instance)
+// ---------------------------------------------------------------------------
+
+export class LocalDedupBus implements DedupBroadcastChannel {
+  private readonly handlers = new Set<DedupAnnouncementHandler>();
+
+  async publish(announcement: DedupKeyAnnouncement): Promise<void> {
+    for (const handler of [...this.handlers]) {
+      handler({ ...announcement });
+    }
+  }
+
+  async subscribe(handler: DedupAnnouncementHandler): Promise<() => Promise<void>> {
+    this.handlers.add(handler);
+    return async () => {
+      this.handlers.delete(handler);
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Postgres LISTEN/NOTIFY
+// ---------------------------------------------------------------------------
+
+/**
+ * Minimal shape of a dedicated `pg.Client` — LISTEN needs a connection that
+ * is not returned to a pool, so this is separate from DbAdapter.
+ */
+export interface PgNotificationClient {
+  query(sql: string, params?: unknown[]): Promise<unknown>;
+  on(event: "notification", listener: (msg: { channel: string; payload?: string }) => void): unknown;
+  removeListener(event: "notification", listener: (msg: { channel: string; payload?: string }) => void): unknown;
+}
+
+export class PostgresNotifyDedupChannel implements DedupBroadcastChannel {
+  constructor(
+    private readonly client: PgNotificationClient,
+    private readonly channel: string = DEDUP_NOTIFY_CHANNEL
+  ) {}
+
+  async publish(announcement: DedupKeyAnnouncement): Promise<void> {
+    await this.client.query("SELECT pg_notify($1, $2)", [this.channel, JSON.stringify(announcement)]);
+  }
+
+  async subscribe(handler: DedupAnnouncementHandler): Promise<() => Promise<void>> {
+    const listener = (msg: { channel: string; payload?: string }) => {
+      if (msg.channel !== this.channel || !msg.payload) return;
+      try {
+        handler(JSON.parse(msg.payload) as DedupKeyAnnouncement);
+      } catch (err) {
+        log.error("Ignoring malformed coherence payload", { error: errorMessage(err) });
+      }
+    };
+    this.client.on("notification", listener);
+    await this.client.query(`LISTEN ${this.channel}`);
+    return async () => {
+      this.client.removeListener("notification", listener);
+      await this.client.query(`UNLISTEN ${this.channel}`);
+    };
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * config.ts
+ *
+ * Single source of truth for routing dedup timing. Every dedup path — the
+ * RoutingDedupService, the startup guard, pruning and the patch.js bundle
+ * injection — reads its TTL from here instead of carrying its own constant.
+ */
+
+import { CircuitBreakerConfig, DEFAULT_CIRCUIT_BREAKER_CONFIG } from "./circuit-breaker.js";
+import { DEFAULT_FAILURE_POLICY_CONFIG, DedupFailurePolicyConfig } from "./failure-policy.js";
+import { DEFAULT_NEAR_DUPLICATE_CONFIG, NearDuplicateConfig } from "./near-duplicate.js";
+
+export interface RoutingDedupConfig {
+  /** How long a routed message key blocks an identical resend. */
+  ttlMs: number;
+  /** Upper bound on in-process L1 cache entries. */
+  maxL1Keys: number;
+  /** Max rows pulled from the store when pre-warming L1 at startup. */
+  startupLoadLimit: number;
+  /** Optional MinHash near-duplicate mode (near-duplicate.ts). Off by default. */
+  nearDuplicate: NearDuplicateConfig;
+  /** Behaviour when the store is unavailable (failure-policy.ts). */
+  failurePolicy: DedupFailurePolicyConfig;
+  /** Store circuit breaker (circuit-breaker.ts). */
+  circuitBreaker: CircuitBreakerConfig;
+}
+
+type NestedConfigKey = "nearDuplicate" | "failurePolicy" | "circuitBreaker";
+
+export type RoutingDedupConfigOverrides = Partial<Omit<RoutingDedupConfig, NestedConfigKey>> & {
+  [K in NestedConfigKey]?: Partial<RoutingDedupConfig[K]>;
+};
+
+export const DEFAULT_ROUTING_DEDUP_CONFIG: Readonly<RoutingDedupConfig> = Object.freeze({
+  ttlMs: 72 * 60 * 60 * 1000, // 72h — covers session-replay window
+  maxL1Keys: 10_000,
+  startupLoadLimit: 20_000,
+  nearDuplicate: DEFAULT_NEAR_DUPLICATE_CONFIG,
+  failurePolicy: DEFAULT_FAILURE_POLICY_CONFIG,
+  circuitBreaker: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+});
+
+export function resolveRoutingDedupConfig(
+  overrides: RoutingDedupConfigOverrides = {}
+): RoutingDedupConfig {
+  const config = {
+    ...DEFAULT_ROUTING_DEDUP_CONFIG,
+    ...overrides,
+    nearDuplicate: { ...DEFAULT_ROUTING_DEDUP_CONFIG.nearDuplicate, ...overrides.nearDuplicate },
+    failurePolicy: { ...DEFAULT_ROUTING_DEDUP_CONFIG.failurePolicy, ...overrides.failurePolicy },
+    circuitBreaker: { ...DEFAULT_ROUTING_DEDUP_CONFIG.circuitBreaker, ...overrides.circuitBreaker },
+  };
+  if (!(config.ttlMs > 0)) throw new Error(`Invalid dedup ttlMs: ${config.ttlMs}`);
+  if (!(config.maxL1Keys > 0)) throw new Error(`Invalid dedup maxL1Keys: ${config.maxL1Keys}`);
+  const { threshold, reportFloor } = config.nearDuplicate;
+  if (!(threshold > 0 && threshold <= 1)) throw new Error(`Invalid near-duplicate threshold: ${threshold}`);
+  if (!(reportFloor <= threshold)) throw new Error(`Near-duplicate reportFloor ${reportFloor} exceeds threshold`);
+  if (!(config.circuitBreaker.failureThreshold >= 1)) {
+    throw new Error(`Invalid circuit breaker failureThreshold: ${config.circuitBreaker.failureThreshold}`);
+  }
+  return config;
+}
@@ -0,0 +1,50 @@
+/**
+ * dedup-key.ts
+ *
+ * The one dedup key scheme, shared by L1 cache, the message_dedup table and
+ * the compiled bundle's shouldRouteMessage (whose `dedupKey` uses the same
+ * layout — which is what lets legacy patch.js rows be migrated):
+ *
+ *   <from>-><to>|task:<taskId|none>|hash:<contentHash>|seq:<seq|none>
+ *
+ * contentHash is the full sha256 hex of whitespace-normalized content.
+ */
+
+import crypto from "crypto";
+
+export interface DedupKeyParts {
+  fromAgentId: string;
+  toAgentId: string;
+  contentHash: string;
+  taskId: string | null;
+  seq: string | null;
+}
+
+const KEY_PATTERN = /^(.*)->(.*)\|task:(.*)\|hash:(.*)\|seq:(.*)$/;
+
+export function normalizeContent(content: string): string {
+  return content.replace(/\s+/g, " ").trim();
+}
+
+export function computeContentHash(content: string): string {
+  return crypto.createHash("sha256").update(normalizeContent(content)).digest("hex");
+}
+
+export function buildDedupKey(parts: DedupKeyParts): string {
+  return `${parts.fromAgentId}->${parts.toAgentId}|task:${parts.taskId ?? "none"}|hash:${parts.contentHash}|seq:${parts.seq ?? "none"}`;
+}
+
+/** Inverse of buildDedupKey. Returns null for keys not in the canonical layout. */
+export function parseDedupKey(key: string): DedupKeyParts | null {
+  const m = KEY_PATTERN.exec(key);
+  if (!m) return null;
+  const [, fromAgentId, toAgentId, taskId, contentHash, seq] = m;
+  if (!fromAgentId || !toAgentId || !contentHash) return null;
+  return {
+    fromAgentId,
+    toAgentId,
+    contentHash,
+    taskId: taskId === "none" ? null : taskId,
+    seq: seq === "none" ? null : seq,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * failure-policy.ts
+ *
+ * What routing dedup does when the store is unavailable (DB error or circuit
+ * open), configurable per route or per target role:
+ *
+ *  - fail-open:           deliver, guarded by L1 only (historic behaviour)
+ *  - fail-closed:         drop the message
+ *  - queue-until-healthy: hold the check until the store recovers, up to
+ *                         queueTimeoutMs, then fail closed. Held checks retry
+ *                         with exponential backoff (queueRetryMs doubling up to
+ *                         queueRetryMaxMs), never before the breaker's cooldown
+ */
+
+export type DedupFailureMode = "fail-open" | "fail-closed" | "queue-until-healthy";
+
+export interface DedupFailureRule {
+  /** Sender agent ID; omitted or "*" matches any sender. */
+  from?: string;
+  /** Recipient agent ID; omitted or "*" matches any recipient. */
+  to?: string;
+  /** Recipient role (e.g. "developer"); omitted or "*" matches any role. */
+  toRole?: string;
+  mode: DedupFailureMode;
+}
+
+export interface DedupFailurePolicyConfig {
+  defaultMode: DedupFailureMode;
+  /** First matching rule wins. */
+  rules: DedupFailureRule[];
+  /** Max time a queue-until-healthy check waits before failing closed. */
+  queueTimeoutMs: number;
+  /** First retry delay of a held check; doubles after each attempt. */
+  queueRetryMs: number;
+  /** Upper bound on the retry delay. */
+  queueRetryMaxMs: number;
+}
+
+export const DEFAULT_FAILURE_POLICY_CONFIG: Readonly<DedupFailurePolicyConfig> = Object.freeze({
+  defaultMode: "fail-open",
+  rules: [],
+  queueTimeoutMs: 30_000,
+  queueRetryMs: 50,
+  queueRetryMaxMs: 2_000,
+});
+
+function matches(pattern: string | undefined, value: string | null | undefined): boolean {
+  return pattern === undefined || pattern === "*" || pattern === value;
+}
+
+export function failureModeFor(
+  config: DedupFailurePolicyConfig,
+  route: { fromAgentId: string; toAgentId: string; toRole?: string | null }
+): DedupFailureMode {
+  const rule = config.rules.find(
+    (r) => matches(r.from, route.fromAgentId) && matches(r.to, route.toAgentId) && matches(r.toRole, route.toRole)
+  );
+  return rule?.mode ?? config.defaultMode;
+}
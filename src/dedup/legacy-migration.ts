@@ -0,0 +1,132 @@
+/**
+ * legacy-migration.ts
+ *
+ * Upgrades older `message_dedup` shapes to the unified schema (schema.sql).
+ * Two legacy shapes exist in the wild under the same table name:
+ *
+ *  - "patch-js":      (dedup_key TEXT PK, seen_at_ms BIGINT) — created by the
+ *                     original patch.js PATCH 3 inside the bundle's initSchema
+ *  - "persistent-v1": (id TEXT PK, from_agent_id, ..., unique on route+hash) —
+ *                     the first persistent-dedup.ts schema
+ *
+ * Called by runDedupMigrations() (migrations.ts) before the ledger is read.
+ * Postgres only (both legacy shapes only ever existed there). Rename, create,
+ * copy and drop run in one transaction (withTransaction), so a failure leaves
+ * the legacy table untouched. A message_dedup_legacy left behind by the
+ * non-transactional copy patch.js inlines is picked up on the next start.
+ *
+ * The patch-js copy parses dedup_key with the same layout as buildDedupKey;
+ * rows whose key does not match are dropped (they can never be hit again).
+ * Keep LEGACY_PATCH_JS_COPY_SQL in sync with the copy inlined in patch.js.
+ *
+ * persistent-v1 rows are not copied. Their content_hash is a 32-char hash of
+ * the raw content and the content itself was never stored, so no row can be
+ * re-keyed to computeContentHash — a copied key would never match. The table
+ * is dropped and the dedup window restarts empty for those routes.
+ */
+
+import { getLogger } from "../observability/logger.js";
+import { DEFAULT_ROUTING_DEDUP_CONFIG } from "./config.js";
+import { DbAdapter, withTransaction } from "./store.js";
+
+const log = getLogger("dedup");
+
+export type LegacyDedupShape = "patch-js" | "persistent-v1";
+
+export interface LegacyMigrationResult {
+  from: LegacyDedupShape | null;
+  migrated: number;
+  dropped: number;
+}
+
+const LEGACY_TABLE = "message_dedup_legacy";
+
+export const UNIFIED_DEDUP_TABLE_SQL = `CREATE TABLE IF NOT EXISTS message_dedup (
+  dedup_key TEXT PRIMARY KEY, from_agent_id TEXT NOT NULL, to_agent_id TEXT NOT NULL,
+  content_hash TEXT NOT NULL, task_id TEXT, seq TEXT, message_id TEXT, fingerprint TEXT,
+  seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), expires_at TIMESTAMPTZ NOT NULL)`;
+
+/** $1 = ttlMs, $2 = nowMs. Copies unexpired, parseable patch.js rows. */
+export const LEGACY_PATCH_JS_COPY_SQL = `INSERT INTO message_dedup
+  (dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, seen_at, expires_at)
+SELECT dedup_key, m[1], m[2], m[4], NULLIF(m[3], 'none'), NULLIF(m[5], 'none'),
+       to_timestamp(seen_at_ms / 1000.0), to_timestamp((seen_at_ms + $1) / 1000.0)
+FROM (SELECT dedup_key, seen_at_ms,
+             regexp_match(dedup_key, '^(.*)->(.*)[|]task:(.*)[|]hash:(.*)[|]seq:(.*)$') AS m
+      FROM ${LEGACY_TABLE}) legacy
+WHERE m IS NOT NULL AND seen_at_ms + $1 > $2
+ON CONFLICT (dedup_key) DO NOTHING
+RETURNING dedup_key`;
+
+async function columnsOf(db: DbAdapter, table: string): Promise<Set<string>> {
+  const { rows } = await db.query(
+    `SELECT column_name FROM information_schema.columns
+     WHERE table_schema = current_schema() AND table_name = $1`,
+    [table]
+  );
+  return new Set(rows.map((r) => String(r.column_name)));
+}
+
+function shapeOf(columns: Set<string>): LegacyDedupShape | null {
+  if (columns.has("seen_at_ms")) return "patch-js";
+  if (columns.has("id") && !columns.has("dedup_key")) return "persistent-v1";
+  return null;
+}
+
+/**
+ * What the live message_dedup table looks like. "unknown" is a table that is
+ * neither unified nor a known legacy shape — nothing can safely upgrade it.
+ */
+export type DedupTableState = "missing" | "unified" | LegacyDedupShape | "unknown";
+
+const UNIFIED_REQUIRED_COLUMNS = ["dedup_key", "from_agent_id", "to_agent_id", "content_hash", "seen_at", "expires_at"];
+
+const UNIFIED_SQLITE_REQUIRED_COLUMNS = ["dedup_key", "from_agent_id", "to_agent_id", "content_hash", "seen_at_ms", "expires_at_ms"];
+
+export async function detectDedupTable(db: DbAdapter, dialect: "postgres" | "sqlite" = "postgres"): Promise<DedupTableState> {
+  if (dialect === "sqlite") {
+    // No legacy shapes on SQLite (schema.sqlite.sql): unified, missing or unknown
+    const { rows } = await db.query("SELECT name FROM pragma_table_info('message_dedup')");
+    const columns = new Set(rows.map((r) => String(r.name)));
+    if (columns.size === 0) return "missing";
+    return UNIFIED_SQLITE_REQUIRED_COLUMNS.every((c) => columns.has(c)) ? "unified" : "unknown";
+  }
+  const columns = await columnsOf(db, "message_dedup");
+  if (columns.size === 0) return "missing";
+  const legacy = shapeOf(columns);
+  if (legacy) return legacy;
+  return UNIFIED_REQUIRED_COLUMNS.every((c) => columns.has(c)) ? "unified" : "unknown";
+}
+
+/**
+ * Detects a legacy message_dedup table and upgrades it in place.
+ * Safe to call on every startup — a no-op once the unified table exists.
+ */
+export async function migrateLegacyDedupTable(
+  db: DbAdapter,
+  ttlMs: number = DEFAULT_ROUTING_DEDUP_CONFIG.ttlMs,
+  nowMs: number = Date.now()
+): Promise<LegacyMigrationResult> {
+  // Resume an interrupted migration before looking at the live table
+  const leftover = shapeOf(await columnsOf(db, LEGACY_TABLE));
+  const from = leftover ?? shapeOf(await columnsOf(db, "message_dedup"));
+  if (!from) return { from: null, migrated: 0, dropped: 0 };
+
+  const { total, migrated } = await withTransaction(db, async (tx) => {
+    if (!leftover) await tx.query(`ALTER TABLE message_dedup RENAME TO ${LEGACY_TABLE}`);
+    await tx.query(UNIFIED_DEDUP_TABLE_SQL);
+    const count = await tx.query(`SELECT COUNT(*) AS n FROM ${LEGACY_TABLE}`);
+    // persistent-v1 keys cannot be rebuilt (see header): nothing is copied
+    const rows = from === "patch-js" ? (await tx.query(LEGACY_PATCH_JS_COPY_SQL, [ttlMs, nowMs])).rows : [];
+    await tx.query(`DROP TABLE ${LEGACY_TABLE}`);
+    return { total: Number(count.rows[0]?.n ?? 0), migrated: rows.length };
+  });
+
+  const dropped = total - migrated;
+  if (from === "persistent-v1") {
+    log.warn("Dropped legacy persistent-v1 message_dedup — its keys cannot be rebuilt, the dedup window restarts", { dropped });
+  } else {
+    log.info(`Migrated legacy ${from} message_dedup`, { kept: migrated, dropped });
+  }
+  return { from, migrated, dropped };
+}
@@ -0,0 +1,442 @@
+/**
+ * message-flow-guard.ts
+ *
+ * Rate limiting and loop detection for inter-agent messages. Dedup only
+ * catches identical content: an A→B→A ping-pong where each side rephrases,
+ * or a burst of distinct messages from one agent, passes straight through.
+ *
+ * MessageFlowGuard.check() runs in the send_message handler BEFORE the
+ * routing dedup (a throttled message must not record a dedup key, or the
+ * sender's legitimate retry would be dropped as a duplicate). It enforces:
+ *
+ *  - route:  token bucket per (from, to)
+ *  - sender: token bucket per sender across all recipients
+ *  - cycle:  the same conversational cycle (A→B→A, A→B→C→A, …) closing
+ *            maxCycleRepeats times within windowMs
+ *
+ * Each limit's action is configurable:
+ *  - throttle:    reject this message; the sender may retry after retryAfterMs
+ *  - pause-route: reject and pause the route (or sender) for pauseMs
+ *
+ * Every time a limit trips, an activity explains why — once per trip, not
+ * once per rejected message.
+ *
+ * Recent messages are kept as an adjacency index (from → to → timestamps)
+ * maintained on insert and expiry, so a check costs the cycle search, not a
+ * rebuild over every message in the window. Expired cycle closures, trip
+ * reports and pauses are swept once a minute.
+ */
+
+import { errorMessage, getLogger } from "../observability/logger.js";
+
+const log = getLogger("message-flow");
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export type FlowLimit = "route" | "sender" | "cycle";
+export type FlowLimitAction = "throttle" | "pause-route";
+
+export interface TokenBucketConfig {
+  /** Burst size. */
+  capacity: number;
+  /** Sustained rate. */
+  refillPerMinute: number;
+}
+
+export interface MessageFlowConfig {
+  route: TokenBucketConfig;
+  sender: TokenBucketConfig;
+  cycle: {
+    windowMs: number;
+    /** Longest cycle searched for, in agents (2 = ping-pong). */
+    maxCycleLength: number;
+    /** Closures of the same cycle within windowMs that trip the limit. */
+    maxCycleRepeats: number;
+  };
+  actions: Record<FlowLimit, FlowLimitAction>;
+  /** How long a paused route/sender stays paused. */
+  pauseMs: number;
+}
+
+export const DEFAULT_MESSAGE_FLOW_CONFIG: Readonly<MessageFlowConfig> = Object.freeze<MessageFlowConfig>({
+  route: { capacity: 10, refillPerMinute: 6 },
+  sender: { capacity: 30, refillPerMinute: 20 },
+  cycle: { windowMs: 10 * 60 * 1000, maxCycleLength: 4, maxCycleRepeats: 10 },
+  actions: { route: "throttle", sender: "throttle", cycle: "pause-route" },
+  pauseMs: 10 * 60 * 1000,
+});
+
+export interface MessageFlowConfigOverrides {
+  route?: Partial<TokenBucketConfig>;
+  sender?: Partial<TokenBucketConfig>;
+  cycle?: Partial<MessageFlowConfig["cycle"]>;
+  actions?: Partial<Record<FlowLimit, FlowLimitAction>>;
+  pauseMs?: number;
+}
+
+export function resolveMessageFlowConfig(overrides: MessageFlowConfigOverrides = {}): MessageFlowConfig {
+  const d = DEFAULT_MESSAGE_FLOW_CONFIG;
+  const config: MessageFlowConfig = {
+    route: { ...d.route, ...overrides.route },
+    sender: { ...d.sender, ...overrides.sender },
+    cycle: { ...d.cycle, ...overrides.cycle },
+    actions: { ...d.actions, ...overrides.actions },
+    pauseMs: overrides.pauseMs ?? d.pauseMs,
+  };
+  for (const [name, bucket] of [["route", config.route], ["sender", config.sender]] as const) {
+    if (bucket.capacity < 1 || bucket.refillPerMinute <= 0) {
+      throw new Error(`message flow: ${name} bucket needs capacity >= 1 and refillPerMinute > 0`);
+    }
+  }
+  if (config.cycle.maxCycleLength < 2 || config.cycle.maxCycleRepeats < 1 || config.cycle.windowMs <= 0) {
+    throw new Error("message flow: cycle needs maxCycleLength >= 2, maxCycleRepeats >= 1, windowMs > 0");
+  }
+  if (config.pauseMs <= 0) {
+    throw new Error("message flow: pauseMs must be positive");
+  }
+  return config;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FlowCheckResult {
+  allowed: boolean;
+  /** Which limit rejected the message; null when allowed. */
+  limit: FlowLimit | null;
+  action: FlowLimitAction | null;
+  reason: string | null;
+  /** When the sender may try again; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface FlowActivity {
+  agentId: string;
+  type: string;
+  summary: string;
+  details?: Record<string, unknown>;
+}
+
+export interface MessageFlowDeps {
+  now?: () => number;
+  /** Records an activity when a limit trips (repo.insertActivity). */
+  insertActivity?: (activity: FlowActivity) => Promise<void>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAtMs: number;
+}
+
+interface Edge {
+  from: string;
+  to: string;
+  atMs: number;
+}
+
+const ALLOWED: FlowCheckResult = { allowed: true, limit: null, action: null, reason: null, retryAfterMs: 0 };
+const MAX_EDGES = 5_000;
+const MAX_BUCKETS = 10_000;
+const SWEEP_INTERVAL_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// Guard
+// ---------------------------------------------------------------------------
+
+export class MessageFlowGuard {
+  private readonly config: MessageFlowConfig;
+  private readonly now: () => number;
+  private readonly insertActivity: ((activity: FlowActivity) => Promise<void>) | null;
+  private readonly routeBuckets = new Map<string, Bucket>();
+  private readonly senderBuckets = new Map<string, Bucket>();
+  /** "route:from->to" / "sender:from" → paused until (ms). */
+  private readonly paused = new Map<string, number>();
+  /** Throttle trips already reported, keyed like `paused`, → until (ms). */
+  private readonly reported = new Map<string, number>();
+  /** Messages in the window, oldest first; entries before edgesHead are evicted. */
+  private edges: Edge[] = [];
+  private edgesHead = 0;
+  /** from → to → timestamps (ascending) of the messages in `edges`. */
+  private readonly adjacency = new Map<string, Map<string, number[]>>();
+  /** Canonical cycle key → closure timestamps within the window. */
+  private readonly cycleClosures = new Map<string, number[]>();
+  private nextSweepMs = 0;
+
+  constructor(config: MessageFlowConfigOverrides = {}, deps: MessageFlowDeps = {}) {
+    this.config = resolveMessageFlowConfig(config);
+    this.now = deps.now ?? Date.now;
+    this.insertActivity = deps.insertActivity ?? null;
+  }
+
+  /**
+   * Decides whether `from` may send to `to` right now. An allowed message
+   * consumes a token from both buckets and is recorded for cycle detection.
+   */
+  async check(fromAgentId: string, toAgentId: string): Promise<FlowCheckResult> {
+    const nowMs = this.now();
+    const routeKey = `route:${fromAgentId}->${toAgentId}`;
+    const senderKey = `sender:${fromAgentId}`;
+    if (nowMs >= this.nextSweepMs) this.sweep(nowMs);
+
+    for (const key of [routeKey, senderKey]) {
+      const until = this.paused.get(key);
+      if (until === undefined) continue;
+      if (until > nowMs) {
+        return {
+          allowed: false,
+          limit: key === routeKey ? "route" : "sender",
+          action: "pause-route",
+          reason: `${key.replace(/^\w+:/, "")} is paused`,
+          retryAfterMs: until - nowMs,
+        };
+      }
+      this.paused.delete(key);
+    }
+
+    const cycle = this.detectCycle(fromAgentId, toAgentId, nowMs);
+    if (cycle && cycle.repeats >= this.config.cycle.maxCycleRepeats) {
+      const reason =
+        `conversation loop ${cycle.path.join(" → ")} repeated ${cycle.repeats} times ` +
+        `within ${Math.round(this.config.cycle.windowMs / 60000)}m`;
+      return this.trip("cycle", routeKey, fromAgentId, toAgentId, reason, this.config.pauseMs, nowMs);
+    }
+
+    const routeBucket = this.refill(this.routeBuckets, routeKey, this.config.route, nowMs);
+    if (routeBucket.tokens < 1) {
+      const retryAfterMs = this.msUntilToken(routeBucket, this.config.route);
+      const reason = `route ${fromAgentId} → ${toAgentId} exceeded ${this.config.route.refillPerMinute} msg/min (burst ${this.config.route.capacity})`;
+      return this.trip("route", routeKey, fromAgentId, toAgentId, reason, retryAfterMs, nowMs);
+    }
+    const senderBucket = this.refill(this.senderBuckets, senderKey, this.config.sender, nowMs);
+    if (senderBucket.tokens < 1) {
+      const retryAfterMs = this.msUntilToken(senderBucket, this.config.sender);
+      const reason = `sender ${fromAgentId} exceeded ${this.config.sender.refillPerMinute} msg/min (burst ${this.config.sender.capacity})`;
+      return this.trip("sender", senderKey, fromAgentId, toAgentId, reason, retryAfterMs, nowMs);
+    }
+
+    routeBucket.tokens -= 1;
+    senderBucket.tokens -= 1;
+    if (cycle) this.recordClosure(cycle.key, nowMs);
+    this.addEdge({ from: fromAgentId, to: toAgentId, atMs: nowMs });
+    return ALLOWED;
+  }
+
+  /** Operator action: lift a pause on a route (from → to) or a sender (to omitted). */
+  resume(fromAgentId: string, toAgentId?: string): boolean {
+    const key = toAgentId === undefined ? `sender:${fromAgentId}` : `route:${fromAgentId}->${toAgentId}`;
+    this.reported.delete(key);
+    return this.paused.delete(key);
+  }
+
+  pausedRoutes(): { key: string; untilMs: number }[] {
+    const nowMs = this.now();
+    return [...this.paused.entries()].filter(([, until]) => until > nowMs).map(([key, untilMs]) => ({ key, untilMs }));
+  }
+
+  // -------------------------------------------------------------------------
+  // Limits
+  // -------------------------------------------------------------------------
+
+  private async trip(
+    limit: FlowLimit,
+    scopeKey: string,
+    fromAgentId: string,
+    toAgentId: string,
+    reason: string,
+    retryAfterMs: number,
+    nowMs: number
+  ): Promise<FlowCheckResult> {
+    const action = this.config.actions[limit];
+    // A cycle is broken by pausing the route that would close it
+    const pauseKey = limit === "cycle" ? `route:${fromAgentId}->${toAgentId}` : scopeKey;
+    if (action === "pause-route") {
+      retryAfterMs = this.config.pauseMs;
+      this.paused.set(pauseKey, nowMs + retryAfterMs);
+    }
+
+    const reportedUntil = this.reported.get(pauseKey) ?? 0;
+    if (reportedUntil <= nowMs) {
+      this.reported.set(pauseKey, nowMs + Math.max(retryAfterMs, 60_000));
+      log.warn(`${action === "pause-route" ? "Paused" : "Throttled"} ${fromAgentId} → ${toAgentId}`, { from: fromAgentId, to: toAgentId, reason });
+      if (this.insertActivity) {
+        try {
+          await this.insertActivity({
+            agentId: fromAgentId,
+            type: "message_flow_limited",
+            summary: `${action === "pause-route" ? "Paused" : "Throttled"} messages to ${toAgentId}: ${reason}`,
+            details: { limit, action, fromAgentId, toAgentId, reason, retryAfterMs },
+          });
+        } catch (err) {
+          log.error("Failed to record activity", { error: errorMessage(err) });
+        }
+      }
+    }
+
+    return { allowed: false, limit, action, reason, retryAfterMs };
+  }
+
+  private refill(buckets: Map<string, Bucket>, key: string, config: TokenBucketConfig, nowMs: number): Bucket {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      if (buckets.size >= MAX_BUCKETS) this.sweepBuckets(buckets, config, nowMs);
+      bucket = { tokens: config.capacity, updatedAtMs: nowMs };
+      buckets.set(key, bucket);
+      return bucket;
+    }
+    const elapsed = Math.max(0, nowMs - bucket.updatedAtMs);
+    bucket.tokens = Math.min(config.capacity, bucket.tokens + (elapsed * config.refillPerMinute) / 60_000);
+    bucket.updatedAtMs = nowMs;
+    return bucket;
+  }
+
+  /** Drops buckets that have refilled completely — they carry no state. */
+  private sweepBuckets(buckets: Map<string, Bucket>, config: TokenBucketConfig, nowMs: number): void {
+    const fullAfterMs = (config.capacity * 60_000) / config.refillPerMinute;
+    for (const [key, bucket] of buckets) {
+      if (nowMs - bucket.updatedAtMs >= fullAfterMs) buckets.delete(key);
+    }
+  }
+
+  private msUntilToken(bucket: Bucket, config: TokenBucketConfig): number {
+    return Math.ceil(((1 - bucket.tokens) * 60_000) / config.refillPerMinute);
+  }
+
+  /** Drops expired cycle closures, trip reports and pauses. */
+  private sweep(nowMs: number): void {
+    this.nextSweepMs = nowMs + SWEEP_INTERVAL_MS;
+    const windowStart = nowMs - this.config.cycle.windowMs;
+    for (const [key, closures] of this.cycleClosures) {
+      const live = closures.filter((t) => t > windowStart);
+      if (live.length === 0) this.cycleClosures.delete(key);
+      else if (live.length < closures.length) this.cycleClosures.set(key, live);
+    }
+    for (const expiring of [this.reported, this.paused]) {
+      for (const [key, until] of expiring) {
+        if (until <= nowMs) expiring.delete(key);
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Cycle detection
+  // -------------------------------------------------------------------------
+
+  /**
+   * If from → to closes a cycle — a time-ordered chain to → … → from of
+   * earlier messages in the window — returns it with the number of times it
+   * has closed (including this one).
+   */
+  private detectCycle(from: string, to: string, nowMs: number): { key: string; path: string[]; repeats: number } | null {
+    if (from === to) return null;
+    const windowStart = nowMs - this.config.cycle.windowMs;
+    this.expireEdges(windowStart);
+
+    const maxHops = this.config.cycle.maxCycleLength - 1;
+    const search = (node: string, afterMs: number, path: string[]): string[] | null => {
+      if (node === from) return path;
+      if (path.length > maxHops) return null;
+      // Earliest qualifying edge per neighbour only: it leaves the most room
+      // for the rest of the chain, and keeps the search from fanning out over
+      // every repeated message on the same route. Neighbours are tried in
+      // the order those edges were sent.
+      const hops: { next: string; atMs: number }[] = [];
+      for (const [next, times] of this.adjacency.get(node) ?? []) {
+        if (path.includes(next) && next !== from) continue;
+        const i = firstAtOrAfter(times, afterMs);
+        if (i < times.length) hops.push({ next, atMs: times[i] });
+      }
+      hops.sort((a, b) => a.atMs - b.atMs);
+      for (const hop of hops) {
+        const found = search(hop.next, hop.atMs, [...path, hop.next]);
+        if (found) return found;
+      }
+      return null;
+    };
+    const chain = search(to, windowStart, [to]);
+    if (!chain) return null;
+
+    const agents = [from, ...chain.slice(0, -1)];
+    const key = canonicalCycleKey(agents);
+    const closures = (this.cycleClosures.get(key) ?? []).filter((t) => t > windowStart);
+    this.cycleClosures.set(key, closures);
+    return { key, path: [...agents, from], repeats: closures.length + 1 };
+  }
+
+  private recordClosure(key: string, nowMs: number): void {
+    const closures = this.cycleClosures.get(key) ?? [];
+    closures.push(nowMs);
+    this.cycleClosures.set(key, closures);
+  }
+
+  private addEdge(edge: Edge): void {
+    this.edges.push(edge);
+    let targets = this.adjacency.get(edge.from);
+    if (!targets) this.adjacency.set(edge.from, (targets = new Map()));
+    const times = targets.get(edge.to);
+    if (times) times.push(edge.atMs);
+    else targets.set(edge.to, [edge.atMs]);
+    while (this.edges.length - this.edgesHead > MAX_EDGES) this.evictOldestEdge();
+  }
+
+  /** Evicts messages at or before windowStart. */
+  private expireEdges(windowStart: number): void {
+    while (this.edgesHead < this.edges.length && this.edges[this.edgesHead].atMs <= windowStart) {
+      this.evictOldestEdge();
+    }
+  }
+
+  private evictOldestEdge(): void {
+    const edge = this.edges[this.edgesHead++];
+    const targets = this.adjacency.get(edge.from);
+    const times = targets?.get(edge.to);
+    // The oldest message overall is also the oldest on its route
+    times?.shift();
+    if (times?.length === 0) targets!.delete(edge.to);
+    if (targets?.size === 0) this.adjacency.delete(edge.from);
+    // Compact once the evicted prefix outweighs the live part
+    if (this.edgesHead > 1024 && this.edgesHead * 2 > this.edges.length) {
+      this.edges = this.edges.slice(this.edgesHead);
+      this.edgesHead = 0;
+    }
+  }
+}
+
+/** Index of the first timestamp >= atMs in ascending `times` (binary search). */
+function firstAtOrAfter(times: number[], atMs: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] < atMs) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Rotation-independent key: A→B→C, B→C→A and C→A→B are the same cycle. */
+function canonicalCycleKey(agents: string[]): string {
+  let best = agents;
+  for (let i = 1; i < agents.length; i++) {
+    const rotated = [...agents.slice(i), ...agents.slice(0, i)];
+    if (rotated.join(">") < best.join(">")) best = rotated;
+  }
+  return best.join(">");
+}
+
+// ---------------------------------------------------------------------------
+// Module singleton
+// ---------------------------------------------------------------------------
+
+let _guard: MessageFlowGuard | null = null;
+
+export function registerMessageFlowGuard(guard: MessageFlowGuard): void {
+  _guard = guard;
+}
+
+export function getMessageFlowGuard(): MessageFlowGuard {
+  if (!_guard) _guard = new MessageFlowGuard();
+  return _guard;
+}
@@ -0,0 +1,272 @@
+/**
+ * migrations.test.ts
+ *
+ * runDedupMigrations() on an empty database (SQLite and Postgres) and on a
+ * Postgres database left behind by the old patch.js. Each test gets its own
+ * scratch database from test-databases.ts and is skipped where that backend
+ * cannot run.
+ */
+
+import assert from "node:assert/strict";
+import { TestContext, test } from "node:test";
+import { MemoryLogSink, setLogSink } from "../observability/logger.js";
+import { detectDedupTable } from "./legacy-migration.js";
+import { DEDUP_MIGRATIONS, DedupMigrationError, Migration, MigrationDialect, pendingMigrations, runDedupMigrations } from "./migrations.js";
+import { DbAdapter, DedupStore } from "./store.js";
+import { PostgresDedupStore } from "./stores/postgres-store.js";
+import { SqliteDedupStore } from "./stores/sqlite-store.js";
+import { TestDatabase, openPostgresTestDatabase, openSqliteTestDatabase } from "./test-databases.js";
+
+setLogSink(new MemoryLogSink().sink);
+
+// Whole seconds: Postgres round-trips timestamps through to_timestamp()
+const T0 = 1_700_000_000_000;
+const HOUR = 60 * 60 * 1000;
+const TTL_MS = 72 * HOUR;
+
+const OPENERS: Record<MigrationDialect, () => Promise<TestDatabase | null>> = {
+  sqlite: openSqliteTestDatabase,
+  postgres: openPostgresTestDatabase,
+};
+
+const UNAVAILABLE: Record<MigrationDialect, string> = {
+  sqlite: "node:sqlite unavailable",
+  postgres: "DEDUP_TEST_DATABASE_URL not set or pg not installed",
+};
+
+/** A scratch database for `dialect`, closed after the test; null = skipped. */
+async function scratch(t: TestContext, dialect: MigrationDialect): Promise<DbAdapter | null> {
+  const database = await OPENERS[dialect]();
+  if (!database) {
+    t.skip(UNAVAILABLE[dialect]);
+    return null;
+  }
+  t.after(() => database.close());
+  return database.db;
+}
+
+function storeFor(db: DbAdapter, dialect: MigrationDialect): DedupStore {
+  return dialect === "postgres" ? new PostgresDedupStore(db) : new SqliteDedupStore(db);
+}
+
+async function ledger(db: DbAdapter): Promise<Array<[number, string]>> {
+  const { rows } = await db.query("SELECT version, name FROM dedup_schema_migrations ORDER BY version");
+  return rows.map((r) => [Number(r.version), String(r.name)]);
+}
+
+function versionsFor(dialect: MigrationDialect): number[] {
+  return DEDUP_MIGRATIONS.filter((m) => dialect === "postgres" || m.sqlite !== undefined).map((m) => m.version);
+}
+
+// ---------------------------------------------------------------------------
+// Empty database
+// ---------------------------------------------------------------------------
+
+for (const dialect of ["sqlite", "postgres"] as const) {
+  test(`${dialect}: migrates an empty database and records every version`, async (t) => {
+    const db = await scratch(t, dialect);
+    if (!db) return;
+
+    const result = await runDedupMigrations(db, { dialect, nowMs: T0 });
+    const versions = versionsFor(dialect);
+    assert.deepEqual(result, { legacy: { from: null, migrated: 0, dropped: 0 }, applied: versions, reapplied: [], version: Math.max(...versions) });
+    assert.deepEqual(
+      await ledger(db),
+      DEDUP_MIGRATIONS.filter((m) => versions.includes(m.version)).map((m) => [m.version, m.name])
+    );
+    assert.equal(await detectDedupTable(db, dialect), "unified");
+    assert.deepEqual(await pendingMigrations(db, DEDUP_MIGRATIONS, dialect), []);
+
+    // The schema is what the store expects
+    const store = storeFor(db, dialect);
+    const record = {
+      dedupKey: "k1",
+      fromAgentId: "jin",
+      toAgentId: "mina",
+      contentHash: "h1",
+      taskId: null,
+      seq: null,
+      messageId: "m1",
+      fingerprint: null,
+      seenAtMs: T0,
+      expiresAtMs: T0 + TTL_MS,
+    };
+    assert.equal(await store.insertOrRefreshExpired(record), true);
+    assert.deepEqual(await store.get("k1"), record);
+  });
+
+  test(`${dialect}: a second run applies nothing and keeps the data`, async (t) => {
+    const db = await scratch(t, dialect);
+    if (!db) return;
+
+    await runDedupMigrations(db, { dialect, nowMs: T0 });
+    await storeFor(db, dialect).insertOrRefreshExpired({
+      dedupKey: "k1",
+      fromAgentId: "jin",
+      toAgentId: "mina",
+      contentHash: "h1",
+      taskId: null,
+      seq: null,
+      messageId: null,
+      fingerprint: null,
+      seenAtMs: T0,
+      expiresAtMs: T0 + TTL_MS,
+    });
+
+    const again = await runDedupMigrations(db, { dialect, nowMs: T0 + HOUR });
+    assert.deepEqual(again.applied, []);
+    assert.equal(again.version, Math.max(...versionsFor(dialect)));
+    assert.notEqual(await storeFor(db, dialect).get("k1"), null);
+  });
+
+  test(`${dialect}: applies only the migrations added since the last run`, async (t) => {
+    const db = await scratch(t, dialect);
+    if (!db) return;
+
+    const first = DEDUP_MIGRATIONS.slice(0, 1);
+    assert.deepEqual((await runDedupMigrations(db, { dialect, migrations: first })).applied, [1]);
+    assert.deepEqual(
+      (await pendingMigrations(db, DEDUP_MIGRATIONS, dialect)).map((m) => m.version),
+      versionsFor(dialect).slice(1)
+    );
+    assert.deepEqual((await runDedupMigrations(db, { dialect })).applied, versionsFor(dialect).slice(1));
+  });
+
+  test(`${dialect}: a failing migration leaves no ledger row and no partial schema`, async (t) => {
+    const db = await scratch(t, dialect);
+    if (!db) return;
+
+    const broken: Migration = {
+      version: 90,
+      name: "broken",
+      statements: ["CREATE TABLE half_done (id TEXT)", "SELECT * FROM no_such_table"],
+      sqlite: ["CREATE TABLE half_done (id TEXT)", "SELECT * FROM no_such_table"],
+    };
+    await assert.rejects(
+      runDedupMigrations(db, { dialect, migrations: [...DEDUP_MIGRATIONS, broken] }),
+      (err: unknown) => err instanceof DedupMigrationError && /migration 90 \(broken\) failed/.test(err.message)
+    );
+    assert.deepEqual((await ledger(db)).map(([version]) => version), versionsFor(dialect));
+    await assert.rejects(db.query("SELECT * FROM half_done"));
+  });
+
+  test(`${dialect}: refuses a migration edited after it was applied`, async (t) => {
+    const db = await scratch(t, dialect);
+    if (!db) return;
+
+    await runDedupMigrations(db, { dialect });
+    const edited = DEDUP_MIGRATIONS.map((m) =>
+      m.version === 1 ? { ...m, statements: [...m.statements, "SELECT 1"], sqlite: [...(m.sqlite ?? []), "SELECT 1"] } : m
+    );
+    await assert.rejects(runDedupMigrations(db, { dialect, migrations: edited }), /migration 1 \(message_dedup\) was edited/);
+  });
+
+  test(`${dialect}: refuses a message_dedup table of unknown shape`, async (t) => {
+    const db = await scratch(t, dialect);
+    if (!db) return;
+
+    await db.query("CREATE TABLE message_dedup (dedup_key TEXT PRIMARY KEY, payload TEXT)");
+    await assert.rejects(runDedupMigrations(db, { dialect }), /matches neither the unified schema nor a known legacy shape/);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Legacy patch.js database (Postgres only — patch.js never ran on SQLite)
+// ---------------------------------------------------------------------------
+
+/** The table and index the old patch.js created in initSchema. */
+async function createPatchJsTable(db: DbAdapter, rows: Array<[string, number]>): Promise<void> {
+  await db.query("CREATE TABLE message_dedup (dedup_key TEXT PRIMARY KEY, seen_at_ms BIGINT NOT NULL)");
+  await db.query("CREATE INDEX idx_message_dedup_seen ON message_dedup(seen_at_ms)");
+  for (const [key, seenAtMs] of rows) {
+    await db.query("INSERT INTO message_dedup (dedup_key, seen_at_ms) VALUES ($1, $2)", [key, seenAtMs]);
+  }
+}
+
+const LIVE_KEY = "jin->mina|task:t-7|hash:abc123|seq:none";
+const LEGACY_ROWS: Array<[string, number]> = [
+  [LIVE_KEY, T0 - HOUR],
+  ["jin->mina|task:none|hash:def456|seq:2", T0 - TTL_MS - HOUR], // expired
+  ["not a patch.js key", T0 - HOUR], // unparseable
+];
+
+test("postgres: upgrades a patch.js database, keeping its unexpired rows", async (t) => {
+  const db = await scratch(t, "postgres");
+  if (!db) return;
+
+  await createPatchJsTable(db, LEGACY_ROWS);
+  assert.equal(await detectDedupTable(db), "patch-js");
+
+  const result = await runDedupMigrations(db, { nowMs: T0, ttlMs: TTL_MS });
+  assert.deepEqual(result.legacy, { from: "patch-js", migrated: 1, dropped: 2 });
+  assert.deepEqual(result.applied, versionsFor("postgres"));
+  assert.deepEqual(result.reapplied, []);
+  assert.equal(await detectDedupTable(db), "unified");
+
+  assert.deepEqual(await new PostgresDedupStore(db).get(LIVE_KEY), {
+    dedupKey: LIVE_KEY,
+    fromAgentId: "jin",
+    toAgentId: "mina",
+    contentHash: "abc123",
+    taskId: "t-7",
+    seq: null,
+    messageId: null,
+    fingerprint: null,
+    seenAtMs: T0 - HOUR,
+    expiresAtMs: T0 - HOUR + TTL_MS,
+  });
+  const { rows } = await db.query("SELECT COUNT(*) AS n FROM message_dedup");
+  assert.equal(Number(rows[0].n), 1);
+  const leftover = await db.query("SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = 'message_dedup_legacy'");
+  assert.equal(leftover.rows.length, 0);
+
+  const again = await runDedupMigrations(db, { nowMs: T0 + HOUR, ttlMs: TTL_MS });
+  assert.deepEqual(again.legacy, { from: null, migrated: 0, dropped: 0 });
+  assert.deepEqual(again.applied, []);
+});
+
+test("postgres: re-runs recorded migrations when the old patch.js recreates its table", async (t) => {
+  const db = await scratch(t, "postgres");
+  if (!db) return;
+
+  await runDedupMigrations(db, { nowMs: T0 });
+  // An old bundle started against the migrated database: its initSchema
+  // found no message_dedup (say, after a manual drop) and created its own
+  await db.query("DROP TABLE message_dedup");
+  await createPatchJsTable(db, [[LIVE_KEY, T0 - HOUR]]);
+
+  const result = await runDedupMigrations(db, { nowMs: T0, ttlMs: TTL_MS });
+  assert.deepEqual(result.legacy, { from: "patch-js", migrated: 1, dropped: 0 });
+  assert.deepEqual(result.reapplied, versionsFor("postgres"));
+  assert.deepEqual(result.applied, []);
+  assert.equal(await detectDedupTable(db), "unified");
+  assert.notEqual(await new PostgresDedupStore(db).get(LIVE_KEY), null);
+});
+
+test("postgres: resumes a legacy upgrade interrupted after the rename", async (t) => {
+  const db = await scratch(t, "postgres");
+  if (!db) return;
+
+  // A crash after the rename, from a build that did not run the steps in a transaction
+  await createPatchJsTable(db, [[LIVE_KEY, T0 - HOUR]]);
+  await db.query("ALTER TABLE message_dedup RENAME TO message_dedup_legacy");
+
+  const result = await runDedupMigrations(db, { nowMs: T0, ttlMs: TTL_MS });
+  assert.deepEqual(result.legacy, { from: "patch-js", migrated: 1, dropped: 0 });
+  assert.notEqual(await new PostgresDedupStore(db).get(LIVE_KEY), null);
+});
+
+test("postgres: drops a persistent-v1 table, whose keys cannot be rebuilt", async (t) => {
+  const db = await scratch(t, "postgres");
+  if (!db) return;
+
+  await db.query("CREATE TABLE message_dedup (id TEXT PRIMARY KEY, created_at TIMESTAMPTZ NOT NULL DEFAULT NOW())");
+  await db.query("INSERT INTO message_dedup (id) VALUES ('0123456789abcdef0123456789abcdef'), ('fedcba9876543210fedcba9876543210')");
+  assert.equal(await detectDedupTable(db), "persistent-v1");
+
+  const result = await runDedupMigrations(db, { nowMs: T0 });
+  assert.deepEqual(result.legacy, { from: "persistent-v1", migrated: 0, dropped: 2 });
+  assert.equal(await detectDedupTable(db), "unified");
+  const { rows } = await db.query("SELECT COUNT(*) AS n FROM message_dedup");
+  assert.equal(Number(rows[0].n), 0);
+});
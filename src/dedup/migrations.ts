@@ -0,0 +1,297 @@
+/**
+ * migrations.ts
+ *
+ * Versioned schema migrations for the dedup fix's tables — dedup and audit
+ * log, agent mailbox and delivery records (agents/schema.sql), boot ledger and
+ * task resumes (scheduler/schema.sql) — recorded in a
+ * `dedup_schema_migrations` ledger. schema.sql used to be applied as one
+ * CREATE TABLE IF NOT EXISTS, while the original patch.js created a different
+ * message_dedup shape (dedup_key, seen_at_ms) under the same name — whichever
+ * ran first won, and checkAndRecordDedup failed at runtime against the other.
+ *
+ * runDedupMigrations() on every startup:
+ *
+ *  1. upgrades a legacy message_dedup (patch-js or persistent-v1 shape, or an
+ *     interrupted upgrade) via migrateLegacyDedupTable() — before the ledger is
+ *     consulted, because an old bundle can recreate the legacy table after the
+ *     migrations ran; in that case the applied migrations are re-run
+ *  2. refuses to continue if message_dedup has a shape nothing can upgrade
+ *  3. checks that applied migrations were not edited (checksum)
+ *  4. applies pending migrations in version order and records each one
+ *
+ * Each migration's statements and its ledger row commit in one transaction.
+ * Statements must still be idempotent (IF NOT EXISTS): they are re-run when a
+ * legacy table reappears.
+ *
+ * Postgres runs `statements`; SQLite (dev/CI, dialect "sqlite") runs the
+ * migration's `sqlite` statements and skips migrations that have none — the
+ * mailbox, delivery and boot-ledger stores are Postgres-only. schema.sql and
+ * schema.sqlite.sql are the resulting dedup schemas, kept for reference.
+ */
+
+import crypto from "crypto";
+import { errorMessage, getLogger } from "../observability/logger.js";
+import { DEFAULT_ROUTING_DEDUP_CONFIG } from "./config.js";
+import { LegacyMigrationResult, UNIFIED_DEDUP_TABLE_SQL, detectDedupTable, migrateLegacyDedupTable } from "./legacy-migration.js";
+import { DbAdapter, withTransaction } from "./store.js";
+
+const log = getLogger("dedup");
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MigrationDialect = "postgres" | "sqlite";
+
+export interface Migration {
+  /** Positive integer, strictly ascending across the list. */
+  version: number;
+  name: string;
+  /** Idempotent Postgres SQL, run in order. */
+  statements: string[];
+  /** SQLite equivalent; omitted when the migration does not apply to SQLite. */
+  sqlite?: string[];
+}
+
+export interface MigrationRunResult {
+  legacy: LegacyMigrationResult;
+  /** Versions applied by this run. */
+  applied: number[];
+  /** Already-recorded versions re-run after a legacy table reappeared. */
+  reapplied: number[];
+  /** Highest recorded version after the run (0 = none). */
+  version: number;
+}
+
+export class DedupMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DedupMigrationError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+export const DEDUP_MIGRATIONS: readonly Migration[] = Object.freeze([
+  {
+    version: 1,
+    name: "message_dedup",
+    statements: [
+      UNIFIED_DEDUP_TABLE_SQL,
+      "CREATE INDEX IF NOT EXISTS idx_message_dedup_route ON message_dedup(from_agent_id, to_agent_id)",
+      "CREATE INDEX IF NOT EXISTS idx_message_dedup_expires ON message_dedup(expires_at)",
+    ],
+    sqlite: [
+      `CREATE TABLE IF NOT EXISTS message_dedup (
+  dedup_key TEXT PRIMARY KEY, from_agent_id TEXT NOT NULL, to_agent_id TEXT NOT NULL,
+  content_hash TEXT NOT NULL, task_id TEXT, seq TEXT, message_id TEXT, fingerprint TEXT,
+  seen_at_ms INTEGER NOT NULL, expires_at_ms INTEGER NOT NULL)`,
+      "CREATE INDEX IF NOT EXISTS idx_message_dedup_route ON message_dedup(from_agent_id, to_agent_id)",
+      "CREATE INDEX IF NOT EXISTS idx_message_dedup_expires ON message_dedup(expires_at_ms)",
+    ],
+  },
+  {
+    // Unified tables created before message_id / fingerprint existed
+    version: 2,
+    name: "message_dedup_message_id_fingerprint",
+    statements: [
+      "ALTER TABLE message_dedup ADD COLUMN IF NOT EXISTS message_id TEXT",
+      "ALTER TABLE message_dedup ADD COLUMN IF NOT EXISTS fingerprint TEXT",
+    ],
+    // The SQLite table has both columns from version 1
+    sqlite: [],
+  },
+  {
+    version: 3,
+    name: "dedup_audit_log",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS dedup_audit_log (
+  id TEXT PRIMARY KEY, decided_at TIMESTAMPTZ NOT NULL, decision TEXT NOT NULL,
+  from_agent_id TEXT NOT NULL, to_agent_id TEXT NOT NULL, task_id TEXT, dedup_key TEXT NOT NULL,
+  message_id TEXT, matched_dedup_key TEXT, matched_message_id TEXT, similarity DOUBLE PRECISION, reason TEXT)`,
+      "CREATE INDEX IF NOT EXISTS idx_dedup_audit_from ON dedup_audit_log(from_agent_id, decided_at)",
+      "CREATE INDEX IF NOT EXISTS idx_dedup_audit_to ON dedup_audit_log(to_agent_id, decided_at)",
+      "CREATE INDEX IF NOT EXISTS idx_dedup_audit_task ON dedup_audit_log(task_id)",
+    ],
+    sqlite: [
+      `CREATE TABLE IF NOT EXISTS dedup_audit_log (
+  id TEXT PRIMARY KEY, decided_at_ms INTEGER NOT NULL, decision TEXT NOT NULL,
+  from_agent_id TEXT NOT NULL, to_agent_id TEXT NOT NULL, task_id TEXT, dedup_key TEXT NOT NULL,
+  message_id TEXT, matched_dedup_key TEXT, matched_message_id TEXT, similarity REAL, reason TEXT)`,
+      "CREATE INDEX IF NOT EXISTS idx_dedup_audit_from ON dedup_audit_log(from_agent_id, decided_at_ms)",
+      "CREATE INDEX IF NOT EXISTS idx_dedup_audit_to ON dedup_audit_log(to_agent_id, decided_at_ms)",
+      "CREATE INDEX IF NOT EXISTS idx_dedup_audit_task ON dedup_audit_log(task_id)",
+    ],
+  },
+  {
+    // agents/schema.sql
+    version: 4,
+    name: "agent_mailbox_message_deliveries",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS agent_mailbox (
+  id TEXT PRIMARY KEY, to_agent_id TEXT NOT NULL, from_agent_id TEXT NOT NULL, content TEXT NOT NULL,
+  task_id TEXT, held_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), status TEXT NOT NULL DEFAULT 'held',
+  resolved_at TIMESTAMPTZ)`,
+      "CREATE INDEX IF NOT EXISTS idx_agent_mailbox_held ON agent_mailbox(to_agent_id, held_at) WHERE status = 'held'",
+      `CREATE TABLE IF NOT EXISTS message_deliveries (
+  delivery_id TEXT PRIMARY KEY, from_agent_id TEXT NOT NULL, to_agent_id TEXT NOT NULL,
+  delivered_to_agent_id TEXT, status TEXT NOT NULL, detail TEXT, matched_delivery_id TEXT,
+  preview TEXT NOT NULL, created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), delivered_at TIMESTAMPTZ, read_at TIMESTAMPTZ)`,
+      "CREATE INDEX IF NOT EXISTS idx_message_deliveries_from ON message_deliveries(from_agent_id, created_at DESC)",
+      `CREATE INDEX IF NOT EXISTS idx_message_deliveries_unread ON message_deliveries(delivered_to_agent_id, delivered_at)
+  WHERE status = 'delivered'`,
+    ],
+  },
+  {
+    // scheduler/schema.sql
+    version: 5,
+    name: "backend_boots_task_resume_log",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS backend_boots (
+  boot_id TEXT PRIMARY KEY, resume_epoch INTEGER NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), healthy_at TIMESTAMPTZ)`,
+      "CREATE INDEX IF NOT EXISTS idx_backend_boots_started ON backend_boots(started_at DESC)",
+      `CREATE TABLE IF NOT EXISTS task_resume_log (
+  resume_key TEXT PRIMARY KEY, task_id TEXT NOT NULL, assignee_id TEXT NOT NULL,
+  resume_epoch INTEGER NOT NULL, boot_id TEXT NOT NULL, sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW())`,
+      "CREATE INDEX IF NOT EXISTS idx_task_resume_log_task ON task_resume_log(task_id)",
+    ],
+  },
+]);
+
+// ---------------------------------------------------------------------------
+// Ledger
+// ---------------------------------------------------------------------------
+
+const LEDGER_SQL: Record<MigrationDialect, { table: string; insert: string }> = {
+  postgres: {
+    table: `CREATE TABLE IF NOT EXISTS dedup_schema_migrations (
+  version INTEGER PRIMARY KEY, name TEXT NOT NULL, checksum TEXT NOT NULL, applied_at TIMESTAMPTZ NOT NULL)`,
+    insert: `INSERT INTO dedup_schema_migrations (version, name, checksum, applied_at)
+       VALUES ($1, $2, $3, to_timestamp($4 / 1000.0))
+       ON CONFLICT (version) DO NOTHING`,
+  },
+  sqlite: {
+    table: `CREATE TABLE IF NOT EXISTS dedup_schema_migrations (
+  version INTEGER PRIMARY KEY, name TEXT NOT NULL, checksum TEXT NOT NULL, applied_at_ms INTEGER NOT NULL)`,
+    insert: `INSERT INTO dedup_schema_migrations (version, name, checksum, applied_at_ms)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (version) DO NOTHING`,
+  },
+};
+
+interface LedgerRow {
+  version: number;
+  name: string;
+  checksum: string;
+}
+
+/** The statements `dialect` runs for `migration`, or null if it does not apply there. */
+function statementsFor(migration: Migration, dialect: MigrationDialect): string[] | null {
+  return dialect === "postgres" ? migration.statements : migration.sqlite ?? null;
+}
+
+function checksumOf(statements: string[]): string {
+  return crypto.createHash("sha256").update(statements.join(";\n")).digest("hex");
+}
+
+function assertOrdered(migrations: readonly Migration[]): void {
+  for (let i = 0; i < migrations.length; i++) {
+    const { version } = migrations[i];
+    if (!Number.isInteger(version) || version < 1) throw new DedupMigrationError(`migration version ${version} must be a positive integer`);
+    if (i > 0 && version <= migrations[i - 1].version) {
+      throw new DedupMigrationError(`migration ${version} is out of order (after ${migrations[i - 1].version})`);
+    }
+  }
+}
+
+async function readLedger(db: DbAdapter, dialect: MigrationDialect): Promise<LedgerRow[]> {
+  await db.query(LEDGER_SQL[dialect].table);
+  const { rows } = await db.query("SELECT version, name, checksum FROM dedup_schema_migrations ORDER BY version");
+  return rows.map((r) => ({ version: Number(r.version), name: String(r.name), checksum: String(r.checksum) }));
+}
+
+async function runStatements(db: DbAdapter, migration: Migration, statements: string[]): Promise<void> {
+  for (const sql of statements) {
+    try {
+      await db.query(sql);
+    } catch (err) {
+      throw new DedupMigrationError(`migration ${migration.version} (${migration.name}) failed: ${errorMessage(err)}`);
+    }
+  }
+}
+
+/** Migrations for `dialect` not yet recorded in the ledger, in version order. */
+export async function pendingMigrations(
+  db: DbAdapter,
+  migrations: readonly Migration[] = DEDUP_MIGRATIONS,
+  dialect: MigrationDialect = "postgres"
+): Promise<Migration[]> {
+  const recorded = new Set((await readLedger(db, dialect)).map((r) => r.version));
+  return migrations.filter((m) => statementsFor(m, dialect) !== null && !recorded.has(m.version));
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/** Brings the dedup schema up to date. Safe to call on every startup. */
+export async function runDedupMigrations(
+  db: DbAdapter,
+  opts: { migrations?: readonly Migration[]; ttlMs?: number; nowMs?: number; dialect?: MigrationDialect } = {}
+): Promise<MigrationRunResult> {
+  const dialect = opts.dialect ?? "postgres";
+  const migrations = (opts.migrations ?? DEDUP_MIGRATIONS).filter((m) => statementsFor(m, dialect) !== null);
+  const nowMs = opts.nowMs ?? Date.now();
+  assertOrdered(migrations);
+
+  // Both legacy shapes only ever existed on Postgres
+  const legacy =
+    dialect === "postgres"
+      ? await migrateLegacyDedupTable(db, opts.ttlMs ?? DEFAULT_ROUTING_DEDUP_CONFIG.ttlMs, nowMs)
+      : { from: null, migrated: 0, dropped: 0 };
+  const state = await detectDedupTable(db, dialect);
+  if (state === "unknown") {
+    throw new DedupMigrationError(
+      "message_dedup exists but matches neither the unified schema nor a known legacy shape — inspect it and rename or drop it"
+    );
+  }
+
+  const ledger = await readLedger(db, dialect);
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const statements = (migration: Migration): string[] => statementsFor(migration, dialect) ?? [];
+  for (const row of ledger) {
+    const migration = byVersion.get(row.version);
+    if (!migration) {
+      log.warn("Schema is at a migration this build does not know", { version: row.version, name: row.name });
+    } else if (checksumOf(statements(migration)) !== row.checksum) {
+      throw new DedupMigrationError(`migration ${row.version} (${row.name}) was edited after it was applied — add a new migration instead`);
+    }
+  }
+
+  const recorded = new Set(ledger.map((r) => r.version));
+  const reapplied: number[] = [];
+  if (legacy.from !== null) {
+    for (const migration of migrations.filter((m) => recorded.has(m.version))) {
+      await runStatements(db, migration, statements(migration));
+      reapplied.push(migration.version);
+    }
+    if (reapplied.length > 0) log.warn("Legacy message_dedup reappeared — re-ran applied migrations", { versions: reapplied });
+  }
+
+  const applied: number[] = [];
+  for (const migration of migrations.filter((m) => !recorded.has(m.version))) {
+    await withTransaction(db, async (tx) => {
+      await runStatements(tx, migration, statements(migration));
+      await tx.query(LEDGER_SQL[dialect].insert, [migration.version, migration.name, checksumOf(statements(migration)), nowMs]);
+    });
+    applied.push(migration.version);
+    log.info("Applied migration", { version: migration.version, name: migration.name });
+  }
+
+  const version = Math.max(0, ...ledger.map((r) => r.version), ...applied);
+  return { legacy, applied, reapplied, version };
+}
@@ -0,0 +1,159 @@
+/**
+ * near-duplicate.ts
+ *
+ * Optional near-duplicate detection for routed messages. Exact dedup only
+ * catches byte-identical content (after whitespace normalization), so a replay
+ * that adds a timestamp, swaps "Hi Jin" for "Hey Jin" or reorders bullets gets
+ * through. This module fingerprints content with MinHash over normalized
+ * tokens and compares fingerprints by estimated Jaccard similarity.
+ *
+ * Runs entirely in-process — no external model. Fingerprints are persisted
+ * alongside the dedup row (message_dedup.fingerprint) so near-duplicate
+ * checks survive restarts like exact dedup does.
+ */
+
+import crypto from "crypto";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export interface NearDuplicateRouteRule {
+  /** Sender agent ID; omitted or "*" matches any sender. */
+  from?: string;
+  /** Recipient agent ID; omitted or "*" matches any recipient. */
+  to?: string;
+  enabled?: boolean;
+  threshold?: number;
+}
+
+export interface NearDuplicateConfig {
+  enabled: boolean;
+  /** Similarity (0..1) at or above which a message is dropped as a near-duplicate. */
+  threshold: number;
+  /**
+   * Similarity at or above which a non-dropped message is still reported as a
+   * near miss, for threshold tuning.
+   */
+  reportFloor: number;
+  /** Messages with fewer tokens are exact-dedup only — similarity is noisy on tiny inputs. */
+  minTokens: number;
+  /** Max prior messages per route compared against. */
+  maxCandidates: number;
+  /** Per-route overrides; first matching rule wins. */
+  routes: NearDuplicateRouteRule[];
+}
+
+export const DEFAULT_NEAR_DUPLICATE_CONFIG: Readonly<NearDuplicateConfig> = Object.freeze({
+  enabled: false,
+  threshold: 0.75,
+  reportFloor: 0.5,
+  minTokens: 8,
+  maxCandidates: 200,
+  routes: [],
+});
+
+/** Resolves the effective { enabled, threshold } for a from→to route. */
+export function nearDuplicatePolicyFor(
+  config: NearDuplicateConfig,
+  fromAgentId: string,
+  toAgentId: string
+): { enabled: boolean; threshold: number } {
+  const rule = config.routes.find(
+    (r) =>
+      (r.from === undefined || r.from === "*" || r.from === fromAgentId) &&
+      (r.to === undefined || r.to === "*" || r.to === toAgentId)
+  );
+  return {
+    enabled: rule?.enabled ?? config.enabled,
+    threshold: rule?.threshold ?? config.threshold,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tokenization + MinHash
+// ---------------------------------------------------------------------------
+
+/** Number of hash permutations — std error of the Jaccard estimate ≈ 0.5 / sqrt(128). */
+const MINHASH_PERMUTATIONS = 128;
+
+/**
+ * Lowercases, collapses digit runs (timestamps, counters) to "0", strips
+ * punctuation and bullet markers, and splits on whitespace.
+ */
+export function tokenize(content: string): string[] {
+  return content
+    .toLowerCase()
+    .replace(/\d+/g, "0")
+    .replace(/[^\p{L}\p{N}\s]+/gu, " ")
+    .split(/\s+/)
+    .filter((t) => t.length > 0);
+}
+
+/**
+ * MinHash signature over the token set, returned as hex (8 chars per slot).
+ * Working on the set makes it insensitive to reordered bullets; permutations
+ * are derived by double hashing one md5 per token.
+ */
+export function computeFingerprint(tokens: string[]): string {
+  const mins = new Array<number>(MINHASH_PERMUTATIONS).fill(0xffffffff);
+  for (const token of new Set(tokens)) {
+    const digest = crypto.createHash("md5").update(token).digest();
+    const h1 = digest.readUInt32BE(0);
+    const h2 = digest.readUInt32BE(4) | 1;
+    for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+      const h = (h1 + Math.imul(i, h2)) >>> 0;
+      if (h < mins[i]) mins[i] = h;
+    }
+  }
+  return mins.map((m) => m.toString(16).padStart(8, "0")).join("");
+}
+
+/** Estimated Jaccard similarity (0..1): fraction of matching MinHash slots. */
+export function fingerprintSimilarity(a: string, b: string): number {
+  if (a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    if (a.slice(i, i + 8) === b.slice(i, i + 8)) equal++;
+  }
+  return equal / (a.length / 8);
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+export interface NearDuplicateCandidate {
+  dedupKey: string;
+  messageId: string | null;
+  fingerprint: string | null;
+}
+
+export interface NearDuplicateMatch {
+  matchedDedupKey: string;
+  matchedMessageId: string | null;
+  similarity: number;
+  threshold: number;
+}
+
+/** Returns the most similar candidate, or null if none has a fingerprint. */
+export function findClosest(
+  fingerprint: string,
+  candidates: NearDuplicateCandidate[],
+  threshold: number
+): NearDuplicateMatch | null {
+  let best: NearDuplicateMatch | null = null;
+  for (const candidate of candidates) {
+    if (!candidate.fingerprint) continue;
+    const similarity = fingerprintSimilarity(fingerprint, candidate.fingerprint);
+    if (!best || similarity > best.similarity) {
+      best = {
+        matchedDedupKey: candidate.dedupKey,
+        matchedMessageId: candidate.messageId,
+        similarity,
+        threshold,
+      };
+    }
+  }
+  return best;
+}
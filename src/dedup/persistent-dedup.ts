@@ -2,21 +2,57 @@
  * persistent-dedup.ts
  *
  * Fixes BLOCKER 4: In-memory dedup cache is wiped on every restart/crash,
- * which is exactly when session-replay fires. This module provides:
+ * which is exactly when session-replay fires. This module is the functional
+ * integration surface over the process-wide RoutingDedupService:
  *
- *  1. checkAndRecordDedup() — atomic DB-backed dedup check (INSERT ON CONFLICT)
- *  2. loadStartupDedupGuard() — pre-warms in-memory cache from DB message history
+ *  1. checkAndRecordDedup() — atomic DB-backed dedup check
+ *  2. loadStartupDedupGuard() — pre-warms in-memory cache from the dedup table
  *     on startup so session-replay is caught even after cold restart
- *  3. pruneExpiredDedup() — TTL cleanup for the message_dedup table
+ *  3. pruneExpiredDedup() — one-shot TTL cleanup for the message_dedup table
+ *     (scheduled, batched cleanup: scheduler/dedup-maintenance.ts)
+ *  4. queryDedupDecisions() — audit trail of allowed/dropped decisions
  *
- * Integration target in packages/backend/dist/index.js:
- *   Line 183467: var ROUTING_DEDUP_TTL_MS = 30 * 60000;
- *   Line 183478: var routedEventCache = new Map;
- *   Line 183654-183662: dedupKey check block
- *   Line 187942: startAgent (call loadStartupDedupGuard here)
+ * Storage is pluggable via DedupStore (store.ts): registerDbAdapter() keeps the
+ * Postgres default, registerDedupStore() swaps in SQLite or the in-memory store.
+ * Key scheme, schema and TTL are owned by RoutingDedupService — see
+ * routing-dedup-service.ts.
+ *
+ * Integration: install() (integration/install.ts) registers the service and
+ * runs the check in hooks.beforeRoute, replacing ROUTING_DEDUP_TTL_MS /
+ * routedEventCache and the dedupKey check block in the backend.
  */
 
-import crypto from "crypto";
+import { RoutingDedupConfigOverrides } from "./config.js";
+import { computeContentHash } from "./dedup-key.js";
+import { DedupAuditEntry, DedupAuditQuery } from "./audit-log.js";
+import {
+  DedupCheckResult,
+  RoutingDedupDeps,
+  RoutingDedupService,
+  getRoutingDedupService,
+  registerRoutingDedupService,
+} from "./routing-dedup-service.js";
+import { DbAdapter, DedupStore } from "./store.js";
+import { PostgresDedupAuditLog } from "./stores/postgres-audit-log.js";
+import { PostgresDedupStore } from "./stores/postgres-store.js";
+
+export type { DedupAuditEntry, DedupAuditLog, DedupAuditQuery, DedupDecision } from "./audit-log.js";
+export type { DbAdapter, DedupRecord, DedupStore } from "./store.js";
+export type { DedupCheckResult, DedupPeekResult, RoutingDedupDeps } from "./routing-dedup-service.js";
+export type { DedupHealthEvent } from "./circuit-breaker.js";
+export type { DedupBroadcastChannel, PgNotificationClient } from "./coherence.js";
+export type { DedupFailureMode } from "./failure-policy.js";
+export type { FlowCheckResult, MessageFlowConfigOverrides } from "./message-flow-guard.js";
+export { MessageFlowGuard, getMessageFlowGuard, registerMessageFlowGuard } from "./message-flow-guard.js";
+export { PostgresDedupStore } from "./stores/postgres-store.js";
+export { SqliteDedupStore } from "./stores/sqlite-store.js";
+export { MemoryDedupStore } from "./stores/memory-store.js";
+export { PostgresDedupAuditLog } from "./stores/postgres-audit-log.js";
+export { SqliteDedupAuditLog } from "./stores/sqlite-audit-log.js";
+export { MemoryDedupAuditLog } from "./stores/memory-audit-log.js";
+export { migrateLegacyDedupTable } from "./legacy-migration.js";
+export { DEDUP_MIGRATIONS, DedupMigrationError, runDedupMigrations } from "./migrations.js";
+export { LocalDedupBus, PostgresNotifyDedupChannel } from "./coherence.js";
 
 // ---------------------------------------------------------------------------
 // Types (mirrors the compiled bundle's internal shape)
@@ -28,66 +64,38 @@ export interface DedupMeta {
   seq?: string | null;
 }
 
-export interface DedupCheckResult {
-  isDuplicate: boolean;
-  reason?: string;
-}
-
-// ---------------------------------------------------------------------------
-// DB adapter interface — injected at integration time to avoid circular deps
-// ---------------------------------------------------------------------------
-
-export interface DbAdapter {
-  query(sql: string, params?: unknown[]): Promise<{ rows: Record<string, unknown>[] }>;
-}
-
-let _db: DbAdapter | null = null;
-
-export function registerDbAdapter(db: DbAdapter): void {
-  _db = db;
-}
-
-function getDb(): DbAdapter {
-  if (!_db) throw new Error("DB adapter not registered — call registerDbAdapter first");
-  return _db;
-}
-
 // ---------------------------------------------------------------------------
-// In-memory L1 cache (fast path, survives within process lifetime)
+// Store registration — injected at integration time to avoid circular deps
 // ---------------------------------------------------------------------------
 
-const ROUTING_DEDUP_TTL_MS = 72 * 60 * 60 * 1000; // 72h — covers session-replay window
-const ROUTING_DEDUP_MAX_KEYS = 10_000;
-
-const inMemoryCache = new Map<string, number>(); // key → seenAt ms
-
-function evictExpired(nowMs: number): void {
-  for (const [key, seenAt] of inMemoryCache) {
-    if (nowMs - seenAt > ROUTING_DEDUP_TTL_MS) {
-      inMemoryCache.delete(key);
-    }
-  }
-  // LRU eviction if still over limit
-  while (inMemoryCache.size > ROUTING_DEDUP_MAX_KEYS) {
-    const oldest = inMemoryCache.keys().next().value;
-    if (oldest) inMemoryCache.delete(oldest);
-  }
+/**
+ * Registers the production Postgres adapter: PostgresDedupStore plus the
+ * PostgresDedupAuditLog decision trail.
+ */
+export function registerDbAdapter(
+  db: DbAdapter,
+  config: RoutingDedupConfigOverrides = {},
+  deps: RoutingDedupDeps = {}
+): void {
+  registerDedupStore(new PostgresDedupStore(db), config, { auditLog: new PostgresDedupAuditLog(db), ...deps });
 }
 
-function buildDedupKey(
-  fromAgentId: string,
-  toAgentId: string,
-  meta: DedupMeta
-): string {
-  return `${fromAgentId}->${toAgentId}|task:${meta.taskId ?? "none"}|hash:${meta.eventHash}|seq:${meta.seq ?? "none"}`;
+/** Registers any DedupStore implementation (SQLite for dev/CI, memory for tests). */
+export function registerDedupStore(
+  store: DedupStore,
+  config: RoutingDedupConfigOverrides = {},
+  deps: RoutingDedupDeps = {}
+): void {
+  registerRoutingDedupService(new RoutingDedupService(store, config, deps));
 }
 
 // ---------------------------------------------------------------------------
 // Content hash helper
 // ---------------------------------------------------------------------------
 
+/** @deprecated Use computeContentHash from dedup-key.ts. */
 export function hashContent(content: string): string {
-  return crypto.createHash("sha256").update(content).digest("hex").slice(0, 32);
+  return computeContentHash(content);
 }
 
 // ---------------------------------------------------------------------------
@@ -95,81 +103,30 @@ export function hashContent(content: string): string {
 // ---------------------------------------------------------------------------
 
 /**
- * Returns { isDuplicate: true } if this (from→to, contentHash) was already
- * seen within the TTL window. Otherwise records it and returns { isDuplicate: false }.
- *
- * Uses INSERT ON CONFLICT DO NOTHING so concurrent processes are safe.
+ * Returns { isDuplicate: true } if this (from→to, task, hash, seq) key was
+ * already seen within the TTL window. Otherwise records it and returns
+ * { isDuplicate: false }. See RoutingDedupService.check.
  */
 export async function checkAndRecordDedup(
   fromAgentId: string,
   toAgentId: string,
-  meta: DedupMeta,
-  ttlMs: number = ROUTING_DEDUP_TTL_MS
+  meta: DedupMeta
 ): Promise<DedupCheckResult> {
-  const nowMs = Date.now();
-  const key = buildDedupKey(fromAgentId, toAgentId, meta);
-
-  // L1: in-memory fast path
-  evictExpired(nowMs);
-  const seenAt = inMemoryCache.get(key);
-  if (seenAt !== undefined && nowMs - seenAt <= ttlMs) {
-    return {
-      isDuplicate: true,
-      reason: `L1 cache hit (seen ${Math.round((nowMs - seenAt) / 1000)}s ago)`,
-    };
-  }
-
-  // L2: DB check (handles restart scenario)
-  const db = getDb();
-  const id = `dedup_${crypto.randomBytes(8).toString("hex")}`;
-  const expiresAt = new Date(nowMs + ttlMs).toISOString();
-
-  try {
-    const result = await db.query(
-      `INSERT INTO message_dedup
-         (id, from_agent_id, to_agent_id, content_hash, task_id, seq, seen_at, expires_at)
-       VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)
-       ON CONFLICT (from_agent_id, to_agent_id, content_hash) DO NOTHING
-       RETURNING id`,
-      [
-        id,
-        fromAgentId,
-        toAgentId,
-        meta.eventHash,
-        meta.taskId ?? null,
-        meta.seq ?? null,
-        expiresAt,
-      ]
-    );
-
-    if (result.rows.length === 0) {
-      // Conflict: row already existed → duplicate
-      inMemoryCache.set(key, nowMs); // warm L1
-      return {
-        isDuplicate: true,
-        reason: "DB conflict — already seen in persistent store",
-      };
-    }
-
-    // Successfully inserted → not a duplicate, warm L1
-    inMemoryCache.set(key, nowMs);
-    return { isDuplicate: false };
-  } catch (err) {
-    // DB error: fall back to in-memory only (degrade gracefully)
-    console.error("[dedup] DB check failed, falling back to in-memory:", (err as Error).message);
-    inMemoryCache.set(key, nowMs);
-    return { isDuplicate: false };
-  }
+  return getRoutingDedupService().check({
+    fromAgentId,
+    toAgentId,
+    contentHash: meta.eventHash,
+    taskId: meta.taskId,
+    seq: meta.seq,
+  });
 }
 
 // ---------------------------------------------------------------------------
-// Startup replay guard: pre-warms cache from DB message history
+// Startup replay guard: pre-warms cache from the dedup table
 // ---------------------------------------------------------------------------
 
 /**
  * Called once at startup (after DB init, before any agent is started).
- * Reads the last 72h of outbound messages from the `messages` table and
- * pre-populates the in-memory cache.
  *
  * This is the critical fix for session-replay: the dedup cache is no longer
  * empty at the moment agents re-initialize after a restart.
@@ -177,43 +134,11 @@ export async function checkAndRecordDedup(
  * Integration point: call inside reconcileAgentStatesOnStartup() or
  * immediately after it in the startup sequence.
  */
-export async function loadStartupDedupGuard(windowMs: number = ROUTING_DEDUP_TTL_MS): Promise<void> {
-  const db = getDb();
-  const windowStart = new Date(Date.now() - windowMs).toISOString();
-
-  try {
-    // Load existing dedup records from persistent store
-    const { rows } = await db.query(
-      `SELECT from_agent_id, to_agent_id, content_hash, task_id, seq,
-              EXTRACT(EPOCH FROM seen_at) * 1000 AS seen_at_ms
-       FROM message_dedup
-       WHERE expires_at > NOW()
-         AND seen_at > $1
-       ORDER BY seen_at DESC
-       LIMIT 20000`,
-      [windowStart]
-    );
-
-    let loaded = 0;
-    for (const row of rows) {
-      const key = buildDedupKey(
-        String(row.from_agent_id),
-        String(row.to_agent_id),
-        {
-          eventHash: String(row.content_hash),
-          taskId: row.task_id ? String(row.task_id) : null,
-          seq: row.seq ? String(row.seq) : null,
-        }
-      );
-      inMemoryCache.set(key, Number(row.seen_at_ms));
-      loaded++;
-    }
-
-    console.log(`[dedup] Startup guard loaded ${loaded} dedup records from DB (window: ${windowMs / 3600000}h)`);
-  } catch (err) {
-    console.error("[dedup] Failed to load startup dedup guard:", (err as Error).message);
-    // Non-fatal: system continues with empty cache (same as before this fix)
-  }
+export async function loadStartupDedupGuard(): Promise<void> {
+  const service = getRoutingDedupService();
+  await service.warmFromStore();
+  // Keep L1 warm afterwards with keys other replicas record (if configured)
+  await service.startBroadcast();
 }
 
 // ---------------------------------------------------------------------------
@@ -221,12 +146,17 @@ export async function loadStartupDedupGuard(windowMs: number = ROUTING_DEDUP_TTL
 // ---------------------------------------------------------------------------
 
 export async function pruneExpiredDedup(): Promise<number> {
-  const db = getDb();
-  try {
-    const result = await db.query("DELETE FROM message_dedup WHERE expires_at < NOW() RETURNING id");
-    return result.rows.length;
-  } catch (err) {
-    console.error("[dedup] Prune failed:", (err as Error).message);
-    return 0;
-  }
+  return getRoutingDedupService().prune();
+}
+
+// ---------------------------------------------------------------------------
+// Decision audit
+// ---------------------------------------------------------------------------
+
+/**
+ * Answers "why didn't Dev get my message?" — e.g.
+ *   queryDedupDecisions({ toAgentId: devId, sinceMs: Date.now() - 3600000 })
+ */
+export async function queryDedupDecisions(query: DedupAuditQuery): Promise<DedupAuditEntry[]> {
+  return getRoutingDedupService().queryDecisions(query);
 }
@@ -0,0 +1,81 @@
+/**
+ * routing-dedup-service.test.ts
+ *
+ * The sliding TTL window, on a fake clock: a repeat inside the window is
+ * dropped, a repeat once it has passed is delivered — whether or not
+ * pruneExpired() ever ran.
+ */
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemoryLogSink, setLogSink } from "../observability/logger.js";
+import { RoutingDedupService } from "./routing-dedup-service.js";
+import { MemoryDedupStore } from "./stores/memory-store.js";
+
+setLogSink(new MemoryLogSink().sink);
+
+const T0 = 1_700_000_000_000;
+const TTL_MS = 60_000;
+const MESSAGE = { fromAgentId: "jin", toAgentId: "mina", content: "Build is green, please review PR 12" };
+
+/** A store that fails the test if anything prunes it. */
+class NoPruneStore extends MemoryDedupStore {
+  override async pruneExpired(): Promise<number> {
+    throw new Error("pruneExpired must not run in this test");
+  }
+}
+
+function serviceOn(store: MemoryDedupStore, clock: { nowMs: number }): RoutingDedupService {
+  return new RoutingDedupService(store, { ttlMs: TTL_MS }, { now: () => clock.nowMs });
+}
+
+test("drops a repeat inside the TTL window", async () => {
+  const clock = { nowMs: T0 };
+  const service = serviceOn(new NoPruneStore(), clock);
+
+  assert.equal((await service.check({ ...MESSAGE, messageId: "m1" })).isDuplicate, false);
+  clock.nowMs = T0 + TTL_MS - 1;
+  const repeat = await service.check({ ...MESSAGE, messageId: "m2" });
+  assert.equal(repeat.isDuplicate, true);
+  assert.equal(repeat.matchedMessageId, "m1");
+});
+
+test("delivers a repeat right after expiry with no prune in between", async () => {
+  const clock = { nowMs: T0 };
+  const store = new NoPruneStore();
+  const service = serviceOn(store, clock);
+
+  const first = await service.check({ ...MESSAGE, messageId: "m1" });
+  assert.equal(first.isDuplicate, false);
+
+  clock.nowMs = T0 + TTL_MS;
+  const repeat = await service.check({ ...MESSAGE, messageId: "m2" });
+  assert.equal(repeat.isDuplicate, false);
+  assert.equal(repeat.source, "recorded");
+
+  // The expired row was refreshed in place: the window now starts at the repeat
+  const row = await store.get(first.dedupKey);
+  assert.equal(row?.messageId, "m2");
+  assert.equal(row?.seenAtMs, T0 + TTL_MS);
+  assert.equal(row?.expiresAtMs, T0 + 2 * TTL_MS);
+  assert.equal((await service.check({ ...MESSAGE, messageId: "m3" })).isDuplicate, true);
+});
+
+test("delivers a repeat after expiry from a cold L1, via the store's refresh", async () => {
+  const clock = { nowMs: T0 };
+  const store = new NoPruneStore();
+  await serviceOn(store, clock).check({ ...MESSAGE, messageId: "m1" });
+
+  // A restarted process: same table, empty L1
+  const restarted = serviceOn(store, clock);
+  clock.nowMs = T0 + TTL_MS - 1;
+  const early = await restarted.check({ ...MESSAGE, messageId: "m2" });
+  assert.equal(early.isDuplicate, true);
+  assert.equal(early.source, "db");
+
+  const fresh = serviceOn(store, clock);
+  clock.nowMs = T0 + TTL_MS;
+  const repeat = await fresh.check({ ...MESSAGE, messageId: "m3" });
+  assert.equal(repeat.isDuplicate, false);
+  assert.equal(repeat.source, "recorded");
+});
@@ -0,0 +1,557 @@
+/**
+ * routing-dedup-service.ts
+ *
+ * The single routing dedup path. Replaces three incompatible variants:
+ *
+ *  - message-dedup.ts isDuplicateMessage() — rehashed the last 200 `messages` rows
+ *  - persistent-dedup.ts checkAndRecordDedup() — own key + 32-char hash
+ *  - patch.js / manager.patch.ts — `dedup_key`/`seen_at_ms` table in the bundle
+ *
+ * One key scheme (dedup-key.ts), one table (schema.sql, via DedupStore) and one
+ * TTL (config.ts). L1 is an in-process fast path (bounded TTL+LRU cache,
+ * ttl-lru-cache.ts); the store is the authoritative cross-restart record.
+ *
+ * With near-duplicate mode on (config.nearDuplicate), messages that pass the
+ * exact check are compared by MinHash against the route's recent history.
+ *
+ * Every decision is written to the optional DedupAuditLog (audit-log.ts).
+ *
+ * Store failures go through a CircuitBreaker (circuit-breaker.ts); what
+ * happens to the message then is the route's DedupFailureMode
+ * (failure-policy.ts) — fail-open, fail-closed or queue-until-healthy. While
+ * the breaker is half-open a single store call probes the DB; other callers
+ * treat the store as unavailable until that probe settles.
+ *
+ * With a DedupBroadcastChannel (coherence.ts), newly recorded keys are
+ * announced to other replicas so their L1 caches stay warm.
+ */
+
+import crypto from "crypto";
+import { errorMessage, getLogger } from "../observability/logger.js";
+import { recordDedupDecision, routingMetrics } from "../observability/routing-metrics.js";
+import { DedupAuditEntry, DedupAuditLog, DedupAuditQuery, dedupDecisionFor, toAuditEntry } from "./audit-log.js";
+import { CircuitBreaker, DedupHealthListener } from "./circuit-breaker.js";
+import { DedupBroadcastChannel, DedupKeyAnnouncement } from "./coherence.js";
+import { RoutingDedupConfig, RoutingDedupConfigOverrides, resolveRoutingDedupConfig } from "./config.js";
+import { DedupKeyParts, buildDedupKey, computeContentHash } from "./dedup-key.js";
+import { DedupFailureMode, failureModeFor } from "./failure-policy.js";
+import {
+  NearDuplicateMatch,
+  computeFingerprint,
+  findClosest,
+  nearDuplicatePolicyFor,
+  tokenize,
+} from "./near-duplicate.js";
+import { DedupRecord, DedupStore, DedupTableStats } from "./store.js";
+import { TtlLruCache, TtlLruCacheStats } from "./ttl-lru-cache.js";
+
+const log = getLogger("dedup");
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RoutingDedupInput {
+  fromAgentId: string;
+  toAgentId: string;
+  /** Raw message content — hashed with computeContentHash. */
+  content?: string;
+  /** Precomputed content hash (e.g. the bundle's meta.eventHash). Wins over `content`. */
+  contentHash?: string;
+  taskId?: string | null;
+  seq?: string | null;
+  /** Caller's message ID — reported as matchedMessageId on later near-duplicates. */
+  messageId?: string | null;
+  /** Recipient role — selects role-scoped failure policy rules. */
+  toRole?: string | null;
+}
+
+export type DedupVerdictSource =
+  | "l1"
+  | "db"
+  | "near-duplicate"
+  | "recorded"
+  | "fail-open"
+  | "fail-closed";
+
+export interface DedupCheckResult {
+  isDuplicate: boolean;
+  dedupKey: string;
+  source: DedupVerdictSource;
+  reason?: string;
+  /** Message ID of the earlier delivery an exact duplicate matched, when known. */
+  matchedMessageId?: string | null;
+  /**
+   * Closest prior message on the route when near-duplicate mode is on and the
+   * similarity reached reportFloor. Present on drops (source "near-duplicate")
+   * and on near misses that were still delivered.
+   */
+  nearMatch?: NearDuplicateMatch;
+  /** Time spent held by a queue-until-healthy policy before this verdict. */
+  queuedMs?: number;
+}
+
+/** Result of the check-only peek(). */
+export interface DedupPeekResult {
+  isDuplicate: boolean;
+  dedupKey: string;
+  matchedMessageId: string | null;
+}
+
+export interface RoutingDedupDeps {
+  now?: () => number;
+  /** Injected for fake-clock tests of queue-until-healthy. */
+  sleep?: (ms: number) => Promise<void>;
+  auditLog?: DedupAuditLog;
+  /** Receives circuit breaker state changes. */
+  onHealthEvent?: DedupHealthListener;
+  /** Cross-replica L1 coherence; call startBroadcast() after construction. */
+  broadcast?: DedupBroadcastChannel;
+  /** Identifies this replica on the broadcast channel. Random by default. */
+  instanceId?: string;
+}
+
+interface L1Entry {
+  seenAtMs: number;
+  messageId: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+export class RoutingDedupService {
+  readonly config: RoutingDedupConfig;
+
+  private readonly l1: TtlLruCache<L1Entry>;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly auditLog: DedupAuditLog | null;
+  private readonly broadcast: DedupBroadcastChannel | null;
+  private unsubscribe: (() => Promise<void>) | null = null;
+  /** Settles when the in-flight half-open probe does; null when none is. */
+  private probe: Promise<void> | null = null;
+  readonly instanceId: string;
+  readonly breaker: CircuitBreaker;
+
+  constructor(
+    private readonly store: DedupStore,
+    config: RoutingDedupConfigOverrides = {},
+    deps: RoutingDedupDeps = {}
+  ) {
+    this.config = resolveRoutingDedupConfig(config);
+    this.l1 = new TtlLruCache({ maxEntries: this.config.maxL1Keys });
+    this.now = deps.now ?? Date.now;
+    this.sleep = deps.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.auditLog = deps.auditLog ?? null;
+    this.broadcast = deps.broadcast ?? null;
+    this.instanceId = deps.instanceId ?? `dedup_${crypto.randomBytes(6).toString("hex")}`;
+    this.breaker = new CircuitBreaker(this.config.circuitBreaker, this.now, deps.onHealthEvent);
+  }
+
+  /**
+   * Returns isDuplicate: true if this key was already seen within the TTL.
+   * Otherwise records it (L1 + store) and returns isDuplicate: false.
+   * The decision is written to the audit log either way.
+   */
+  async check(input: RoutingDedupInput): Promise<DedupCheckResult> {
+    const nowMs = this.now();
+    const result = await this.decide(input, nowMs);
+    recordDedupDecision(dedupDecisionFor(result.source));
+    await this.audit(input, result, nowMs);
+    return result;
+  }
+
+  /**
+   * Check-only: is this key recorded and unexpired? Records nothing, writes no
+   * audit entry and skips near-duplicate matching. A store error reports
+   * "not a duplicate" — for callers that only need to know, not to route.
+   */
+  async peek(input: RoutingDedupInput): Promise<DedupPeekResult> {
+    const nowMs = this.now();
+    const { dedupKey } = this.keyFor(input);
+    const cached = this.l1.get(dedupKey, nowMs);
+    if (cached !== undefined) return { isDuplicate: true, dedupKey, matchedMessageId: cached.messageId };
+    try {
+      const record = await this.store.get(dedupKey);
+      if (record && record.expiresAtMs > nowMs) return { isDuplicate: true, dedupKey, matchedMessageId: record.messageId };
+    } catch (err) {
+      log.error("DB peek failed", { dedupKey, error: errorMessage(err) });
+    }
+    return { isDuplicate: false, dedupKey, matchedMessageId: null };
+  }
+
+  private keyFor(input: RoutingDedupInput): { parts: DedupKeyParts; dedupKey: string } {
+    const contentHash = input.contentHash ?? computeContentHash(input.content ?? "");
+    const parts: DedupKeyParts = {
+      fromAgentId: input.fromAgentId,
+      toAgentId: input.toAgentId,
+      contentHash,
+      taskId: input.taskId ?? null,
+      seq: input.seq ?? null,
+    };
+    return { parts, dedupKey: buildDedupKey(parts) };
+  }
+
+  private async decide(input: RoutingDedupInput, nowMs: number): Promise<DedupCheckResult> {
+    const { parts, dedupKey } = this.keyFor(input);
+
+    // L1: in-memory fast path
+    const cached = this.l1.get(dedupKey, nowMs);
+    routingMetrics().l1Lookups.inc({ result: cached === undefined ? "miss" : "hit" });
+    if (cached !== undefined) {
+      return {
+        isDuplicate: true,
+        dedupKey,
+        source: "l1",
+        reason: `L1 cache hit (seen ${Math.round((nowMs - cached.seenAtMs) / 1000)}s ago)`,
+        matchedMessageId: cached.messageId,
+      };
+    }
+
+    const mode = failureModeFor(this.config.failurePolicy, input);
+    const blocked = this.storeBlocked();
+    if (blocked) {
+      return this.onStoreUnavailable(input, parts, dedupKey, mode, blocked, nowMs);
+    }
+
+    try {
+      return await this.callStore(() =>
+        routingMetrics().dbSeconds.time({ op: "check" }, () => this.checkStore(input, parts, dedupKey, nowMs), this.now)
+      );
+    } catch (err) {
+      log.error("DB check failed", { policy: mode, dedupKey, error: errorMessage(err) });
+      return this.onStoreUnavailable(input, parts, dedupKey, mode, errorMessage(err), nowMs);
+    }
+  }
+
+  /** Why the store may not be called now, or null if it may. Moves open → half-open once the cooldown has elapsed. */
+  private storeBlocked(): string | null {
+    if (this.probe) return "circuit half-open — probe in flight, DB not attempted";
+    if (!this.breaker.canAttempt()) return "circuit open — DB not attempted";
+    return null;
+  }
+
+  /**
+   * Runs a store call that storeBlocked() allowed and records its outcome on
+   * the breaker. In half-open the call is the probe: storeBlocked() turns
+   * everyone else away until it settles.
+   */
+  private callStore<T>(fn: () => Promise<T>): Promise<T> {
+    const call = (async () => {
+      try {
+        const result = await fn();
+        this.breaker.recordSuccess();
+        return result;
+      } catch (err) {
+        this.breaker.recordFailure(err);
+        throw err;
+      }
+    })();
+    if (this.breaker.state === "half-open") {
+      this.probe = call.then(
+        () => undefined,
+        () => undefined
+      );
+      void this.probe.then(() => {
+        this.probe = null;
+      });
+    }
+    return call;
+  }
+
+  /** L2: near-duplicate pass + atomic store insert. Throws on store errors. */
+  private async checkStore(
+    input: RoutingDedupInput,
+    parts: DedupKeyParts,
+    dedupKey: string,
+    nowMs: number
+  ): Promise<DedupCheckResult> {
+    // Near-duplicate pass (opt-in, needs raw content)
+    const fingerprint = this.fingerprintFor(input);
+    let nearMatch: NearDuplicateMatch | undefined;
+    if (fingerprint) {
+      const { threshold } = nearDuplicatePolicyFor(this.config.nearDuplicate, input.fromAgentId, input.toAgentId);
+      const candidates = await this.store.listRoute(
+        input.fromAgentId,
+        input.toAgentId,
+        nowMs,
+        this.config.nearDuplicate.maxCandidates
+      );
+      const closest = findClosest(fingerprint, candidates.filter((c) => c.dedupKey !== dedupKey), threshold);
+      if (closest && closest.similarity >= threshold) {
+        return {
+          isDuplicate: true,
+          dedupKey,
+          source: "near-duplicate",
+          reason: `Near-duplicate of ${closest.matchedMessageId ?? closest.matchedDedupKey} (similarity ${closest.similarity.toFixed(3)} >= ${threshold})`,
+          nearMatch: closest,
+        };
+      }
+      if (closest && closest.similarity >= this.config.nearDuplicate.reportFloor) {
+        nearMatch = closest;
+      }
+    }
+
+    // Atomic insert-or-refresh-expired (handles restart scenario)
+    const inserted = await this.store.insertOrRefreshExpired({
+      dedupKey,
+      ...parts,
+      messageId: input.messageId ?? null,
+      fingerprint,
+      seenAtMs: nowMs,
+      expiresAtMs: nowMs + this.config.ttlMs,
+    });
+    if (!inserted) {
+      // Look up the earlier delivery for the verdict; best-effort
+      const prior = await this.store.get(dedupKey).catch(() => null);
+      this.rememberL1(dedupKey, prior?.seenAtMs ?? nowMs, prior?.messageId ?? null, nowMs);
+      return {
+        isDuplicate: true,
+        dedupKey,
+        source: "db",
+        reason: "DB conflict — already seen in persistent store within TTL",
+        matchedMessageId: prior?.messageId ?? null,
+      };
+    }
+    this.rememberL1(dedupKey, nowMs, input.messageId ?? null, nowMs);
+    this.announce({ originId: this.instanceId, dedupKey, seenAtMs: nowMs, messageId: input.messageId ?? null });
+    if (nearMatch) {
+      log.info("Near miss", {
+        dedupKey,
+        closest: nearMatch.matchedMessageId ?? nearMatch.matchedDedupKey,
+        similarity: Number(nearMatch.similarity.toFixed(3)),
+        threshold: nearMatch.threshold,
+      });
+    }
+    return { isDuplicate: false, dedupKey, source: "recorded", nearMatch };
+  }
+
+  /** Applies the route's failure mode when the store errored or the circuit is open. */
+  private async onStoreUnavailable(
+    input: RoutingDedupInput,
+    parts: DedupKeyParts,
+    dedupKey: string,
+    mode: DedupFailureMode,
+    cause: string,
+    startedMs: number
+  ): Promise<DedupCheckResult> {
+    switch (mode) {
+      case "fail-open":
+        // Degrade to in-memory only
+        this.rememberL1(dedupKey, startedMs, input.messageId ?? null, startedMs);
+        return { isDuplicate: false, dedupKey, source: "fail-open", reason: cause };
+      case "fail-closed":
+        return { isDuplicate: true, dedupKey, source: "fail-closed", reason: `fail-closed: ${cause}` };
+      case "queue-until-healthy":
+        return this.waitForStore(input, parts, dedupKey, cause, startedMs);
+    }
+  }
+
+  /**
+   * Holds the check until a store call succeeds or the queue timeout elapses.
+   * Retries back off exponentially and never run before the breaker's cooldown
+   * ends; while another caller's half-open probe is in flight the check waits
+   * for it instead of sleeping.
+   */
+  private async waitForStore(
+    input: RoutingDedupInput,
+    parts: DedupKeyParts,
+    dedupKey: string,
+    cause: string,
+    startedMs: number
+  ): Promise<DedupCheckResult> {
+    const { queueTimeoutMs, queueRetryMs, queueRetryMaxMs } = this.config.failurePolicy;
+    const deadline = startedMs + queueTimeoutMs;
+    let delayMs = Math.max(1, queueRetryMs);
+    let lastCause = cause;
+    while (this.now() < deadline) {
+      if (this.probe) {
+        await this.probe;
+      } else {
+        const wakeMs = Math.min(Math.max(this.now() + delayMs, this.breaker.retryAtMs()), deadline);
+        await this.sleep(Math.max(1, wakeMs - this.now()));
+        delayMs = Math.min(delayMs * 2, Math.max(1, queueRetryMaxMs));
+      }
+      if (this.now() >= deadline) break;
+      if (this.storeBlocked()) continue;
+      try {
+        const result = await this.callStore(() => this.checkStore(input, parts, dedupKey, this.now()));
+        return { ...result, queuedMs: this.now() - startedMs };
+      } catch (err) {
+        lastCause = errorMessage(err);
+      }
+    }
+    return {
+      isDuplicate: true,
+      dedupKey,
+      source: "fail-closed",
+      reason: `queue-until-healthy timed out after ${this.config.failurePolicy.queueTimeoutMs}ms: ${lastCause}`,
+      queuedMs: this.now() - startedMs,
+    };
+  }
+
+  /**
+   * Forgets a key recorded by check() for a delivery that then failed, so the
+   * retry is not dropped as a duplicate of a message nobody received. Only the
+   * record written by `messageId` is removed from the store. Returns true if
+   * a store row was removed; never throws.
+   */
+  async release(dedupKey: string, messageId: string | null): Promise<boolean> {
+    this.l1.delete(dedupKey);
+    let removed = false;
+    try {
+      removed = await this.store.release(dedupKey, messageId);
+      log.info("Released dedup key after failed delivery", { dedupKey, messageId, removed });
+    } catch (err) {
+      log.error("Release failed — retry stays blocked until the key expires", { dedupKey, messageId, error: errorMessage(err) });
+    }
+    this.announce({ originId: this.instanceId, dedupKey, seenAtMs: this.now(), messageId, released: true });
+    return removed;
+  }
+
+  /**
+   * Pre-warms L1 from the store. Called once at startup (after DB init, before
+   * any agent is started) so session-replay is caught after a cold restart.
+   * Returns the number of keys loaded; non-fatal on error.
+   */
+  async warmFromStore(): Promise<number> {
+    const nowMs = this.now();
+    try {
+      const records = await routingMetrics().dbSeconds.time({ op: "warm" }, () => this.listWarmCandidates(nowMs), this.now);
+      for (const record of records) {
+        this.rememberL1(record.dedupKey, record.seenAtMs, record.messageId, nowMs);
+      }
+      log.info("Startup guard loaded dedup records from DB", { records: records.length, windowHours: this.config.ttlMs / 3600000 });
+      return records.length;
+    } catch (err) {
+      log.error("Failed to load startup dedup guard", { error: errorMessage(err) });
+      // Non-fatal: system continues with empty cache (same as before this fix)
+      return 0;
+    }
+  }
+
+  /**
+   * The records warmFromStore() would load, without touching L1. Used by the
+   * startup reconcile dry-run (scheduler/reconcile-plan.ts).
+   */
+  async listWarmCandidates(nowMs = this.now()): Promise<DedupRecord[]> {
+    return this.store.listRecent(nowMs - this.config.ttlMs, nowMs, this.config.startupLoadLimit);
+  }
+
+  /** TTL cleanup for the store. Returns rows removed; 0 on error. */
+  async prune(): Promise<number> {
+    try {
+      return await this.store.pruneExpired(this.now());
+    } catch (err) {
+      log.error("Prune failed", { error: errorMessage(err) });
+      return 0;
+    }
+  }
+
+  /**
+   * One bounded prune batch for the maintenance job
+   * (scheduler/dedup-maintenance.ts). Unlike prune(), errors propagate.
+   */
+  async pruneBatch(limit: number): Promise<number> {
+    return this.store.pruneExpired(this.now(), limit);
+  }
+
+  /** Row-budget eviction, soonest expiry first. Errors propagate. */
+  async evictSoonestExpiring(count: number): Promise<number> {
+    return this.store.evictSoonestExpiring(count);
+  }
+
+  async tableStats(): Promise<DedupTableStats> {
+    return this.store.tableStats();
+  }
+
+  /** Drops expired L1 entries the lazy sweep has not reached. Returns entries removed. */
+  compactL1(): number {
+    return this.l1.compact(this.now());
+  }
+
+  /**
+   * Subscribes to the broadcast channel so keys recorded on other replicas
+   * warm this replica's L1. No-op without a channel or when already started.
+   */
+  async startBroadcast(): Promise<void> {
+    if (!this.broadcast || this.unsubscribe) return;
+    this.unsubscribe = await this.broadcast.subscribe((announcement) => {
+      if (announcement.originId === this.instanceId) return;
+      if (announcement.released) {
+        this.l1.delete(announcement.dedupKey);
+        return;
+      }
+      const nowMs = this.now();
+      if (nowMs - announcement.seenAtMs > this.config.ttlMs) return;
+      this.rememberL1(announcement.dedupKey, announcement.seenAtMs, announcement.messageId, nowMs);
+    });
+  }
+
+  async stopBroadcast(): Promise<void> {
+    const unsubscribe = this.unsubscribe;
+    this.unsubscribe = null;
+    if (unsubscribe) await unsubscribe();
+  }
+
+  /** L1 hit/miss/expiry/eviction counters. */
+  l1Stats(): TtlLruCacheStats {
+    return this.l1.stats();
+  }
+
+  /** Audit log query, or [] when no audit log is configured. */
+  async queryDecisions(query: DedupAuditQuery): Promise<DedupAuditEntry[]> {
+    return this.auditLog ? this.auditLog.query(query) : [];
+  }
+
+  /** Persists the decision. Audit failures never block routing. */
+  private async audit(input: RoutingDedupInput, result: DedupCheckResult, nowMs: number): Promise<void> {
+    if (!this.auditLog) return;
+    try {
+      const id = `dedupaudit_${crypto.randomBytes(8).toString("hex")}`;
+      await this.auditLog.record(toAuditEntry(id, nowMs, input, result));
+    } catch (err) {
+      log.error("Audit log write failed", { error: errorMessage(err) });
+    }
+  }
+
+  /** MinHash of the content, or null when near-dup mode does not apply to this message. */
+  private fingerprintFor(input: RoutingDedupInput): string | null {
+    if (input.content === undefined) return null;
+    const { enabled } = nearDuplicatePolicyFor(this.config.nearDuplicate, input.fromAgentId, input.toAgentId);
+    if (!enabled) return null;
+    const tokens = tokenize(input.content);
+    if (tokens.length < this.config.nearDuplicate.minTokens) return null;
+    return computeFingerprint(tokens);
+  }
+
+  /** Fire-and-forget: a lost announcement only costs other replicas a DB round-trip. */
+  private announce(announcement: DedupKeyAnnouncement): void {
+    if (!this.broadcast) return;
+    this.broadcast.publish(announcement).catch((err) => {
+      log.error("Coherence publish failed", { error: errorMessage(err) });
+    });
+  }
+
+  private rememberL1(dedupKey: string, seenAtMs: number, messageId: string | null, nowMs: number): void {
+    this.l1.set(dedupKey, { seenAtMs, messageId }, seenAtMs + this.config.ttlMs, nowMs);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Process-wide instance — registered at integration time
+// ---------------------------------------------------------------------------
+
+let _service: RoutingDedupService | null = null;
+
+export function registerRoutingDedupService(service: RoutingDedupService): void {
+  _service = service;
+}
+
+export function getRoutingDedupService(): RoutingDedupService {
+  if (!_service) {
+    throw new Error("Routing dedup service not registered — call registerRoutingDedupService first");
+  }
+  return _service;
+}
@@ -1,25 +1,64 @@
 -- Migration: persistent message dedup table
 -- Fixes: BLOCKER 4 — in-memory dedup wiped on restart
 -- Task: TKSdpWn0cyh-GB1QT_RC5
+--
+-- Unified schema shared by RoutingDedupService and the patch.js bundle
+-- injection. Applied as versioned migrations by migrations.ts
+-- (runDedupMigrations), which records them in dedup_schema_migrations and
+-- first upgrades older shapes (patch.js dedup_key/seen_at_ms, or the id-keyed
+-- v1 table) via legacy-migration.ts. This file is the resulting schema.
 
 CREATE TABLE IF NOT EXISTS message_dedup (
-  id             TEXT PRIMARY KEY,
+  dedup_key      TEXT PRIMARY KEY,  -- buildDedupKey(): from->to|task:|hash:|seq:
   from_agent_id  TEXT NOT NULL,
   to_agent_id    TEXT NOT NULL,
   content_hash   TEXT NOT NULL,
   task_id        TEXT,
   seq            TEXT,
+  message_id     TEXT,              -- caller's message ID, reported on near-duplicate match
+  fingerprint    TEXT,              -- MinHash signature hex; NULL unless near-dup mode is on
   seen_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   expires_at     TIMESTAMPTZ NOT NULL
 );
 
--- Unique constraint: same sender→receiver+content within TTL window is a duplicate
-CREATE UNIQUE INDEX IF NOT EXISTS idx_message_dedup_route_hash
-  ON message_dedup(from_agent_id, to_agent_id, content_hash);
+-- Same key within TTL window is a duplicate.
+-- Rows past expires_at are refreshed on conflict (sliding window), not rejected.
+
+-- Route lookups (audit / debugging)
+CREATE INDEX IF NOT EXISTS idx_message_dedup_route
+  ON message_dedup(from_agent_id, to_agent_id);
+
+-- Columns added after the unified schema first shipped
+ALTER TABLE message_dedup ADD COLUMN IF NOT EXISTS message_id TEXT;
+ALTER TABLE message_dedup ADD COLUMN IF NOT EXISTS fingerprint TEXT;
 
 -- Index for TTL cleanup
 CREATE INDEX IF NOT EXISTS idx_message_dedup_expires
   ON message_dedup(expires_at);
 
--- Cleanup function: called at startup and periodically by scheduler
--- DELETE FROM message_dedup WHERE expires_at < NOW();
+-- Cleanup: scheduler/dedup-maintenance.ts prunes expired rows in batches
+-- every 10 minutes and enforces a row budget.
+-- DELETE FROM message_dedup WHERE expires_at <= NOW();
+
+-- ---------------------------------------------------------------------------
+-- Dedup decision audit log (audit-log.ts): one row per RoutingDedupService.check
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dedup_audit_log (
+  id                  TEXT PRIMARY KEY,
+  decided_at          TIMESTAMPTZ NOT NULL,
+  decision            TEXT NOT NULL,     -- allowed | dropped-* | fail-open (DedupDecision)
+  from_agent_id       TEXT NOT NULL,
+  to_agent_id         TEXT NOT NULL,
+  task_id             TEXT,
+  dedup_key           TEXT NOT NULL,
+  message_id          TEXT,
+  matched_dedup_key   TEXT,
+  matched_message_id  TEXT,
+  similarity          DOUBLE PRECISION,
+  reason              TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_dedup_audit_from ON dedup_audit_log(from_agent_id, decided_at);
+CREATE INDEX IF NOT EXISTS idx_dedup_audit_to ON dedup_audit_log(to_agent_id, decided_at);
+CREATE INDEX IF NOT EXISTS idx_dedup_audit_task ON dedup_audit_log(task_id);
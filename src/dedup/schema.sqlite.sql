@@ -0,0 +1,47 @@
+-- Migration: persistent message dedup table (SQLite — local dev / CI)
+-- Mirrors schema.sql; timestamps are INTEGER epoch milliseconds. Applied by
+-- runDedupMigrations(db, { dialect: "sqlite" }); this file is the result.
+
+CREATE TABLE IF NOT EXISTS message_dedup (
+  dedup_key      TEXT PRIMARY KEY,
+  from_agent_id  TEXT NOT NULL,
+  to_agent_id    TEXT NOT NULL,
+  content_hash   TEXT NOT NULL,
+  task_id        TEXT,
+  seq            TEXT,
+  message_id     TEXT,              -- caller's message ID, reported on near-duplicate match
+  fingerprint    TEXT,              -- MinHash signature hex; NULL unless near-dup mode is on
+  seen_at_ms     INTEGER NOT NULL,
+  expires_at_ms  INTEGER NOT NULL
+);
+
+-- Same key within TTL window is a duplicate.
+-- Rows past expires_at_ms are refreshed on conflict (sliding window), not rejected.
+
+-- Route lookups (audit / debugging)
+CREATE INDEX IF NOT EXISTS idx_message_dedup_route
+  ON message_dedup(from_agent_id, to_agent_id);
+
+-- Index for TTL cleanup
+CREATE INDEX IF NOT EXISTS idx_message_dedup_expires
+  ON message_dedup(expires_at_ms);
+
+-- Dedup decision audit log (audit-log.ts)
+CREATE TABLE IF NOT EXISTS dedup_audit_log (
+  id                  TEXT PRIMARY KEY,
+  decided_at_ms       INTEGER NOT NULL,
+  decision            TEXT NOT NULL,
+  from_agent_id       TEXT NOT NULL,
+  to_agent_id         TEXT NOT NULL,
+  task_id             TEXT,
+  dedup_key           TEXT NOT NULL,
+  message_id          TEXT,
+  matched_dedup_key   TEXT,
+  matched_message_id  TEXT,
+  similarity          REAL,
+  reason              TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_dedup_audit_from ON dedup_audit_log(from_agent_id, decided_at_ms);
+CREATE INDEX IF NOT EXISTS idx_dedup_audit_to ON dedup_audit_log(to_agent_id, decided_at_ms);
+CREATE INDEX IF NOT EXISTS idx_dedup_audit_task ON dedup_audit_log(task_id);
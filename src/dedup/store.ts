@@ -0,0 +1,141 @@
+/**
+ * store.ts
+ *
+ * Storage abstraction for the persistent dedup table.
+ *
+ * checkAndRecordDedup / loadStartupDedupGuard / pruneExpiredDedup talk to a
+ * DedupStore instead of issuing SQL directly, so the same dedup logic runs on:
+ *
+ *  - PostgresDedupStore — production (guzus/office backend DB)
+ *  - SqliteDedupStore   — local dev and CI
+ *  - MemoryDedupStore   — unit tests, no DB at all
+ *
+ * All timestamps cross this boundary as epoch milliseconds; each store maps
+ * them onto its own column types.
+ */
+
+// ---------------------------------------------------------------------------
+// DB adapter interface — injected at integration time to avoid circular deps
+// ---------------------------------------------------------------------------
+
+export interface DbAdapter {
+  query(sql: string, params?: unknown[]): Promise<{ rows: Record<string, unknown>[] }>;
+  /**
+   * Runs `fn` on one connection inside a transaction. Pooled adapters must
+   * provide it — BEGIN and the next query could otherwise land on different
+   * connections. Without it, withTransaction() issues BEGIN/COMMIT itself.
+   */
+  transaction?<T>(fn: (tx: DbAdapter) => Promise<T>): Promise<T>;
+}
+
+/** Commits if `fn` resolves, rolls back and rethrows if it rejects. */
+export async function withTransaction<T>(db: DbAdapter, fn: (tx: DbAdapter) => Promise<T>): Promise<T> {
+  if (db.transaction) return db.transaction(fn);
+  await db.query("BEGIN");
+  try {
+    const result = await fn(db);
+    await db.query("COMMIT");
+    return result;
+  } catch (err) {
+    await db.query("ROLLBACK").catch(() => undefined);
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Store contract
+// ---------------------------------------------------------------------------
+
+export interface DedupRecord {
+  /** Canonical key from buildDedupKey (dedup-key.ts) — the table's primary key. */
+  dedupKey: string;
+  fromAgentId: string;
+  toAgentId: string;
+  contentHash: string;
+  taskId: string | null;
+  seq: string | null;
+  /** Caller's message ID, reported back when a later message near-matches this one. */
+  messageId: string | null;
+  /** MinHash signature hex (near-duplicate.ts); null when near-dup mode was off. */
+  fingerprint: string | null;
+  seenAtMs: number;
+  expiresAtMs: number;
+}
+
+export interface DedupStore {
+  readonly dialect: "postgres" | "sqlite" | "memory";
+
+  /**
+   * Records `record` unless an unexpired row with the same dedupKey already
+   * exists. A row whose expiry is at or before `record.seenAtMs`
+   * is refreshed in place (sliding window), so a legitimate repeat after the
+   * TTL is delivered even if pruning has not run yet.
+   *
+   * Returns true if the record was inserted or refreshed (not a duplicate).
+   * Must be atomic with respect to concurrent callers.
+   */
+  insertOrRefreshExpired(record: DedupRecord): Promise<boolean>;
+
+  /** Returns the record for `dedupKey`, expired or not, or null. */
+  get(dedupKey: string): Promise<DedupRecord | null>;
+
+  /**
+   * Returns records seen after `sinceMs` that have not expired at `nowMs`,
+   * newest first, capped at `limit`.
+   */
+  listRecent(sinceMs: number, nowMs: number, limit: number): Promise<DedupRecord[]>;
+
+  /**
+   * Returns unexpired records for one from→to route that carry a fingerprint,
+   * newest first, capped at `limit`. Used by near-duplicate detection.
+   */
+  listRoute(fromAgentId: string, toAgentId: string, nowMs: number, limit: number): Promise<DedupRecord[]>;
+
+  /**
+   * Deletes the record for `dedupKey` if it was written by `messageId` — used
+   * when the delivery it admitted failed, so the retry is not dropped as its
+   * own duplicate. A record since refreshed by another message is kept.
+   * Returns true if a row was removed.
+   */
+  release(dedupKey: string, messageId: string | null): Promise<boolean>;
+
+  /**
+   * Deletes records whose expiry is at or before `nowMs`, the same boundary
+   * at which insertOrRefreshExpired() refreshes them — at most `limit` of them
+   * when given, so one call holds locks only briefly. Returns rows removed.
+   */
+  pruneExpired(nowMs: number, limit?: number): Promise<number>;
+
+  /**
+   * Deletes up to `count` records, soonest expiry first. Used only to enforce
+   * a row budget (dedup-maintenance.ts). Returns rows removed.
+   */
+  evictSoonestExpiring(count: number): Promise<number>;
+
+  /** Row count and on-disk size (bytes; null where the backend cannot tell). */
+  tableStats(): Promise<DedupTableStats>;
+}
+
+export interface DedupTableStats {
+  rows: number;
+  bytes: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Shared row mapping (SQL-backed stores)
+// ---------------------------------------------------------------------------
+
+export function rowToDedupRecord(row: Record<string, unknown>): DedupRecord {
+  return {
+    dedupKey: String(row.dedup_key),
+    fromAgentId: String(row.from_agent_id),
+    toAgentId: String(row.to_agent_id),
+    contentHash: String(row.content_hash),
+    taskId: row.task_id ? String(row.task_id) : null,
+    seq: row.seq ? String(row.seq) : null,
+    messageId: row.message_id ? String(row.message_id) : null,
+    fingerprint: row.fingerprint ? String(row.fingerprint) : null,
+    seenAtMs: Number(row.seen_at_ms),
+    expiresAtMs: Number(row.expires_at_ms),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * memory-audit-log.ts
+ *
+ * In-memory DedupAuditLog for unit tests. Not persistent.
+ */
+
+import {
+  DEFAULT_AUDIT_QUERY_LIMIT,
+  DedupAuditEntry,
+  DedupAuditLog,
+  DedupAuditQuery,
+} from "../audit-log.js";
+
+export class MemoryDedupAuditLog implements DedupAuditLog {
+  private readonly entries: DedupAuditEntry[] = [];
+
+  async record(entry: DedupAuditEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async query(query: DedupAuditQuery): Promise<DedupAuditEntry[]> {
+    return this.entries
+      .filter(
+        (e) =>
+          (query.agentId === undefined || e.fromAgentId === query.agentId || e.toAgentId === query.agentId) &&
+          (query.fromAgentId === undefined || e.fromAgentId === query.fromAgentId) &&
+          (query.toAgentId === undefined || e.toAgentId === query.toAgentId) &&
+          (query.taskId === undefined || e.taskId === query.taskId) &&
+          (!query.decisions || query.decisions.length === 0 || query.decisions.includes(e.decision)) &&
+          (query.sinceMs === undefined || e.decidedAtMs >= query.sinceMs) &&
+          (query.untilMs === undefined || e.decidedAtMs < query.untilMs)
+      )
+      .sort((a, b) => b.decidedAtMs - a.decidedAtMs)
+      .slice(0, query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT)
+      .map((e) => ({ ...e }));
+  }
+}
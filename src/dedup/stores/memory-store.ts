@@ -0,0 +1,77 @@
+/**
+ * memory-store.ts
+ *
+ * Pure in-memory DedupStore for unit tests. Same semantics as the SQL stores
+ * (unique on dedupKey, expired rows refreshed) but no persistence across process restarts —
+ * never use it in production.
+ */
+
+import { DedupRecord, DedupStore, DedupTableStats } from "../store.js";
+
+export class MemoryDedupStore implements DedupStore {
+  readonly dialect = "memory" as const;
+
+  private readonly rows = new Map<string, DedupRecord>();
+
+  async insertOrRefreshExpired(record: DedupRecord): Promise<boolean> {
+    const existing = this.rows.get(record.dedupKey);
+    if (existing && existing.expiresAtMs > record.seenAtMs) return false;
+    this.rows.set(record.dedupKey, { ...record });
+    return true;
+  }
+
+  async get(dedupKey: string): Promise<DedupRecord | null> {
+    const record = this.rows.get(dedupKey);
+    return record ? { ...record } : null;
+  }
+
+  async listRecent(sinceMs: number, nowMs: number, limit: number): Promise<DedupRecord[]> {
+    return [...this.rows.values()]
+      .filter((r) => r.expiresAtMs > nowMs && r.seenAtMs > sinceMs)
+      .sort((a, b) => b.seenAtMs - a.seenAtMs)
+      .slice(0, limit)
+      .map((r) => ({ ...r }));
+  }
+
+  async listRoute(fromAgentId: string, toAgentId: string, nowMs: number, limit: number): Promise<DedupRecord[]> {
+    return [...this.rows.values()]
+      .filter(
+        (r) =>
+          r.fromAgentId === fromAgentId &&
+          r.toAgentId === toAgentId &&
+          r.fingerprint !== null &&
+          r.expiresAtMs > nowMs
+      )
+      .sort((a, b) => b.seenAtMs - a.seenAtMs)
+      .slice(0, limit)
+      .map((r) => ({ ...r }));
+  }
+
+  async release(dedupKey: string, messageId: string | null): Promise<boolean> {
+    const record = this.rows.get(dedupKey);
+    if (!record || record.messageId !== messageId) return false;
+    return this.rows.delete(dedupKey);
+  }
+
+  async pruneExpired(nowMs: number, limit = Infinity): Promise<number> {
+    let removed = 0;
+    for (const [key, record] of this.rows) {
+      if (removed >= limit) break;
+      if (record.expiresAtMs <= nowMs) {
+        this.rows.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async evictSoonestExpiring(count: number): Promise<number> {
+    const victims = [...this.rows.values()].sort((a, b) => a.expiresAtMs - b.expiresAtMs).slice(0, count);
+    for (const record of victims) this.rows.delete(record.dedupKey);
+    return victims.length;
+  }
+
+  async tableStats(): Promise<DedupTableStats> {
+    return { rows: this.rows.size, bytes: null };
+  }
+}
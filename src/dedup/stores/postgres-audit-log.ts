@@ -0,0 +1,63 @@
+/**
+ * postgres-audit-log.ts
+ *
+ * DedupAuditLog backed by the `dedup_audit_log` table in PostgreSQL (schema.sql).
+ */
+
+import {
+  DEFAULT_AUDIT_QUERY_LIMIT,
+  DedupAuditEntry,
+  DedupAuditLog,
+  DedupAuditQuery,
+  buildAuditWhere,
+  rowToAuditEntry,
+} from "../audit-log.js";
+import { DbAdapter } from "../store.js";
+
+export class PostgresDedupAuditLog implements DedupAuditLog {
+  constructor(private readonly db: DbAdapter) {}
+
+  async record(entry: DedupAuditEntry): Promise<void> {
+    await this.db.query(
+      `INSERT INTO dedup_audit_log
+         (id, decided_at, decision, from_agent_id, to_agent_id, task_id, dedup_key,
+          message_id, matched_dedup_key, matched_message_id, similarity, reason)
+       VALUES ($1, to_timestamp($2 / 1000.0), $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        entry.id,
+        entry.decidedAtMs,
+        entry.decision,
+        entry.fromAgentId,
+        entry.toAgentId,
+        entry.taskId,
+        entry.dedupKey,
+        entry.messageId,
+        entry.matchedDedupKey,
+        entry.matchedMessageId,
+        entry.similarity,
+        entry.reason,
+      ]
+    );
+  }
+
+  async query(query: DedupAuditQuery): Promise<DedupAuditEntry[]> {
+    const { where, params } = buildAuditWhere(
+      query,
+      (n) => `$${n}`,
+      "decided_at",
+      (param) => `to_timestamp(${param} / 1000.0)`
+    );
+    params.push(query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT);
+    const { rows } = await this.db.query(
+      `SELECT id, decision, from_agent_id, to_agent_id, task_id, dedup_key, message_id,
+              matched_dedup_key, matched_message_id, similarity, reason,
+              EXTRACT(EPOCH FROM decided_at) * 1000 AS decided_at_ms
+       FROM dedup_audit_log
+       ${where}
+       ORDER BY decided_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return rows.map(rowToAuditEntry);
+  }
+}
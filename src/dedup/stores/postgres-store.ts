@@ -0,0 +1,136 @@
+/**
+ * postgres-store.ts
+ *
+ * DedupStore backed by the `message_dedup` table in PostgreSQL (see schema.sql).
+ * Production backend — uses ON CONFLICT ... DO UPDATE ... WHERE for the atomic
+ * insert-or-refresh: the conditional update only fires for expired rows, and
+ * RETURNING is empty when the existing row is still live.
+ */
+
+import { DbAdapter, DedupRecord, DedupStore, DedupTableStats, rowToDedupRecord } from "../store.js";
+
+export class PostgresDedupStore implements DedupStore {
+  readonly dialect = "postgres" as const;
+
+  constructor(private readonly db: DbAdapter) {}
+
+  async insertOrRefreshExpired(record: DedupRecord): Promise<boolean> {
+    const result = await this.db.query(
+      `INSERT INTO message_dedup
+         (dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, message_id, fingerprint, seen_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, to_timestamp($9 / 1000.0), to_timestamp($10 / 1000.0))
+       ON CONFLICT (dedup_key) DO UPDATE
+         SET message_id = EXCLUDED.message_id,
+             fingerprint = EXCLUDED.fingerprint,
+             seen_at = EXCLUDED.seen_at,
+             expires_at = EXCLUDED.expires_at
+         WHERE message_dedup.expires_at <= EXCLUDED.seen_at
+       RETURNING dedup_key`,
+      [
+        record.dedupKey,
+        record.fromAgentId,
+        record.toAgentId,
+        record.contentHash,
+        record.taskId,
+        record.seq,
+        record.messageId,
+        record.fingerprint,
+        record.seenAtMs,
+        record.expiresAtMs,
+      ]
+    );
+    return result.rows.length > 0;
+  }
+
+  async get(dedupKey: string): Promise<DedupRecord | null> {
+    const { rows } = await this.db.query(
+      `SELECT dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, message_id, fingerprint,
+              EXTRACT(EPOCH FROM seen_at) * 1000 AS seen_at_ms,
+              EXTRACT(EPOCH FROM expires_at) * 1000 AS expires_at_ms
+       FROM message_dedup
+       WHERE dedup_key = $1`,
+      [dedupKey]
+    );
+    return rows.length > 0 ? rowToDedupRecord(rows[0]) : null;
+  }
+
+  async listRecent(sinceMs: number, nowMs: number, limit: number): Promise<DedupRecord[]> {
+    const { rows } = await this.db.query(
+      `SELECT dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, message_id, fingerprint,
+              EXTRACT(EPOCH FROM seen_at) * 1000 AS seen_at_ms,
+              EXTRACT(EPOCH FROM expires_at) * 1000 AS expires_at_ms
+       FROM message_dedup
+       WHERE expires_at > to_timestamp($2 / 1000.0)
+         AND seen_at > to_timestamp($1 / 1000.0)
+       ORDER BY seen_at DESC
+       LIMIT $3`,
+      [sinceMs, nowMs, limit]
+    );
+    return rows.map(rowToDedupRecord);
+  }
+
+  async listRoute(fromAgentId: string, toAgentId: string, nowMs: number, limit: number): Promise<DedupRecord[]> {
+    const { rows } = await this.db.query(
+      `SELECT dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, message_id, fingerprint,
+              EXTRACT(EPOCH FROM seen_at) * 1000 AS seen_at_ms,
+              EXTRACT(EPOCH FROM expires_at) * 1000 AS expires_at_ms
+       FROM message_dedup
+       WHERE from_agent_id = $1
+         AND to_agent_id = $2
+         AND fingerprint IS NOT NULL
+         AND expires_at > to_timestamp($3 / 1000.0)
+       ORDER BY seen_at DESC
+       LIMIT $4`,
+      [fromAgentId, toAgentId, nowMs, limit]
+    );
+    return rows.map(rowToDedupRecord);
+  }
+
+  async release(dedupKey: string, messageId: string | null): Promise<boolean> {
+    const result = await this.db.query(
+      `DELETE FROM message_dedup
+       WHERE dedup_key = $1 AND message_id IS NOT DISTINCT FROM $2
+       RETURNING dedup_key`,
+      [dedupKey, messageId]
+    );
+    return result.rows.length > 0;
+  }
+
+  async pruneExpired(nowMs: number, limit?: number): Promise<number> {
+    if (limit === undefined) {
+      const result = await this.db.query(
+        "DELETE FROM message_dedup WHERE expires_at <= to_timestamp($1 / 1000.0) RETURNING dedup_key",
+        [nowMs]
+      );
+      return result.rows.length;
+    }
+    const result = await this.db.query(
+      `DELETE FROM message_dedup WHERE dedup_key IN (
+         SELECT dedup_key FROM message_dedup
+         WHERE expires_at <= to_timestamp($1 / 1000.0)
+         LIMIT $2 FOR UPDATE SKIP LOCKED)
+       RETURNING dedup_key`,
+      [nowMs, limit]
+    );
+    return result.rows.length;
+  }
+
+  async evictSoonestExpiring(count: number): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM message_dedup WHERE dedup_key IN (
+         SELECT dedup_key FROM message_dedup
+         ORDER BY expires_at
+         LIMIT $1 FOR UPDATE SKIP LOCKED)
+       RETURNING dedup_key`,
+      [count]
+    );
+    return result.rows.length;
+  }
+
+  async tableStats(): Promise<DedupTableStats> {
+    const { rows } = await this.db.query(
+      "SELECT COUNT(*) AS n, pg_total_relation_size('message_dedup') AS bytes FROM message_dedup"
+    );
+    return { rows: Number(rows[0]?.n ?? 0), bytes: Number(rows[0]?.bytes ?? 0) };
+  }
+}
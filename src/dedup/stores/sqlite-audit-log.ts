@@ -0,0 +1,58 @@
+/**
+ * sqlite-audit-log.ts
+ *
+ * DedupAuditLog backed by a SQLite `dedup_audit_log` table (schema.sqlite.sql).
+ * Same adapter contract as SqliteDedupStore (positional `?` parameters).
+ */
+
+import {
+  DEFAULT_AUDIT_QUERY_LIMIT,
+  DedupAuditEntry,
+  DedupAuditLog,
+  DedupAuditQuery,
+  buildAuditWhere,
+  rowToAuditEntry,
+} from "../audit-log.js";
+import { DbAdapter } from "../store.js";
+
+export class SqliteDedupAuditLog implements DedupAuditLog {
+  constructor(private readonly db: DbAdapter) {}
+
+  async record(entry: DedupAuditEntry): Promise<void> {
+    await this.db.query(
+      `INSERT INTO dedup_audit_log
+         (id, decided_at_ms, decision, from_agent_id, to_agent_id, task_id, dedup_key,
+          message_id, matched_dedup_key, matched_message_id, similarity, reason)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.decidedAtMs,
+        entry.decision,
+        entry.fromAgentId,
+        entry.toAgentId,
+        entry.taskId,
+        entry.dedupKey,
+        entry.messageId,
+        entry.matchedDedupKey,
+        entry.matchedMessageId,
+        entry.similarity,
+        entry.reason,
+      ]
+    );
+  }
+
+  async query(query: DedupAuditQuery): Promise<DedupAuditEntry[]> {
+    const { where, params } = buildAuditWhere(query, () => "?", "decided_at_ms");
+    params.push(query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT);
+    const { rows } = await this.db.query(
+      `SELECT id, decided_at_ms, decision, from_agent_id, to_agent_id, task_id, dedup_key,
+              message_id, matched_dedup_key, matched_message_id, similarity, reason
+       FROM dedup_audit_log
+       ${where}
+       ORDER BY decided_at_ms DESC
+       LIMIT ?`,
+      params
+    );
+    return rows.map(rowToAuditEntry);
+  }
+}
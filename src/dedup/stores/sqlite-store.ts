@@ -0,0 +1,121 @@
+/**
+ * sqlite-store.ts
+ *
+ * DedupStore backed by a SQLite `message_dedup` table (see schema.sqlite.sql).
+ * Used for local dev and CI. Timestamps are stored as INTEGER epoch ms.
+ *
+ * Requires SQLite >= 3.35 (RETURNING). The adapter must accept positional `?`
+ * parameters — wrap bun:sqlite / better-sqlite3 as:
+ *   { query: async (sql, params) => ({ rows: db.prepare(sql).all(...(params ?? [])) }) }
+ */
+
+import { DbAdapter, DedupRecord, DedupStore, DedupTableStats, rowToDedupRecord } from "../store.js";
+
+export class SqliteDedupStore implements DedupStore {
+  readonly dialect = "sqlite" as const;
+
+  constructor(private readonly db: DbAdapter) {}
+
+  async insertOrRefreshExpired(record: DedupRecord): Promise<boolean> {
+    const result = await this.db.query(
+      `INSERT INTO message_dedup
+         (dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, message_id, fingerprint, seen_at_ms, expires_at_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (dedup_key) DO UPDATE
+         SET message_id = excluded.message_id,
+             fingerprint = excluded.fingerprint,
+             seen_at_ms = excluded.seen_at_ms,
+             expires_at_ms = excluded.expires_at_ms
+         WHERE message_dedup.expires_at_ms <= excluded.seen_at_ms
+       RETURNING dedup_key`,
+      [
+        record.dedupKey,
+        record.fromAgentId,
+        record.toAgentId,
+        record.contentHash,
+        record.taskId,
+        record.seq,
+        record.messageId,
+        record.fingerprint,
+        record.seenAtMs,
+        record.expiresAtMs,
+      ]
+    );
+    return result.rows.length > 0;
+  }
+
+  async get(dedupKey: string): Promise<DedupRecord | null> {
+    const { rows } = await this.db.query(
+      `SELECT dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, message_id, fingerprint,
+              seen_at_ms, expires_at_ms
+       FROM message_dedup
+       WHERE dedup_key = ?`,
+      [dedupKey]
+    );
+    return rows.length > 0 ? rowToDedupRecord(rows[0]) : null;
+  }
+
+  async listRecent(sinceMs: number, nowMs: number, limit: number): Promise<DedupRecord[]> {
+    const { rows } = await this.db.query(
+      `SELECT dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, message_id, fingerprint,
+              seen_at_ms, expires_at_ms
+       FROM message_dedup
+       WHERE expires_at_ms > ?
+         AND seen_at_ms > ?
+       ORDER BY seen_at_ms DESC
+       LIMIT ?`,
+      [nowMs, sinceMs, limit]
+    );
+    return rows.map(rowToDedupRecord);
+  }
+
+  async listRoute(fromAgentId: string, toAgentId: string, nowMs: number, limit: number): Promise<DedupRecord[]> {
+    const { rows } = await this.db.query(
+      `SELECT dedup_key, from_agent_id, to_agent_id, content_hash, task_id, seq, message_id, fingerprint,
+              seen_at_ms, expires_at_ms
+       FROM message_dedup
+       WHERE from_agent_id = ?
+         AND to_agent_id = ?
+         AND fingerprint IS NOT NULL
+         AND expires_at_ms > ?
+       ORDER BY seen_at_ms DESC
+       LIMIT ?`,
+      [fromAgentId, toAgentId, nowMs, limit]
+    );
+    return rows.map(rowToDedupRecord);
+  }
+
+  async release(dedupKey: string, messageId: string | null): Promise<boolean> {
+    const result = await this.db.query(
+      "DELETE FROM message_dedup WHERE dedup_key = ? AND message_id IS ? RETURNING dedup_key",
+      [dedupKey, messageId]
+    );
+    return result.rows.length > 0;
+  }
+
+  async pruneExpired(nowMs: number, limit?: number): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM message_dedup WHERE dedup_key IN (
+         SELECT dedup_key FROM message_dedup WHERE expires_at_ms <= ? LIMIT ?)
+       RETURNING dedup_key`,
+      [nowMs, limit ?? -1]
+    );
+    return result.rows.length;
+  }
+
+  async evictSoonestExpiring(count: number): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM message_dedup WHERE dedup_key IN (
+         SELECT dedup_key FROM message_dedup ORDER BY expires_at_ms LIMIT ?)
+       RETURNING dedup_key`,
+      [count]
+    );
+    return result.rows.length;
+  }
+
+  /** Size is not reported: SQLite only knows the whole database file's size. */
+  async tableStats(): Promise<DedupTableStats> {
+    const { rows } = await this.db.query("SELECT COUNT(*) AS n FROM message_dedup");
+    return { rows: Number(rows[0]?.n ?? 0), bytes: null };
+  }
+}
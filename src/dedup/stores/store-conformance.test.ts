@@ -0,0 +1,137 @@
+/**
+ * store-conformance.test.ts
+ *
+ * One suite, every DedupStore: memory always, SQLite where node:sqlite exists,
+ * Postgres when DEDUP_TEST_DATABASE_URL is set (test-databases.ts). The SQL
+ * stores run on the schema runDedupMigrations() creates.
+ */
+
+import assert from "node:assert/strict";
+import { MemoryLogSink, setLogSink } from "../../observability/logger.js";
+import { DedupRecord } from "../store.js";
+import { BackendCase, testEachBackend } from "../test-databases.js";
+
+setLogSink(new MemoryLogSink().sink);
+
+// Whole seconds: Postgres round-trips timestamps through to_timestamp()
+const T0 = 1_700_000_000_000;
+const SEC = 1000;
+
+function record(overrides: Partial<DedupRecord> & { dedupKey: string }): DedupRecord {
+  return {
+    fromAgentId: "a",
+    toAgentId: "b",
+    contentHash: `hash-${overrides.dedupKey}`,
+    taskId: null,
+    seq: null,
+    messageId: null,
+    fingerprint: null,
+    seenAtMs: T0,
+    expiresAtMs: T0 + 60 * SEC,
+    ...overrides,
+  };
+}
+
+const cases: Record<string, BackendCase> = {
+  "inserts a new key and round-trips every field": async (store) => {
+    const r = record({ dedupKey: "k1", taskId: "t1", seq: "3", messageId: "m1", fingerprint: "ff00" });
+    assert.equal(await store.insertOrRefreshExpired(r), true);
+    assert.deepEqual(await store.get("k1"), r);
+    assert.equal(await store.get("missing"), null);
+  },
+
+  "rejects the same key while it is unexpired": async (store) => {
+    await store.insertOrRefreshExpired(record({ dedupKey: "k1", messageId: "m1" }));
+    const again = record({ dedupKey: "k1", messageId: "m2", seenAtMs: T0 + 59 * SEC, expiresAtMs: T0 + 119 * SEC });
+    assert.equal(await store.insertOrRefreshExpired(again), false);
+    assert.equal((await store.get("k1"))?.messageId, "m1");
+  },
+
+  "refreshes an expired key in place without a prune": async (store) => {
+    await store.insertOrRefreshExpired(record({ dedupKey: "k1", messageId: "m1" }));
+    const repeat = record({ dedupKey: "k1", messageId: "m2", seenAtMs: T0 + 60 * SEC, expiresAtMs: T0 + 120 * SEC });
+    assert.equal(await store.insertOrRefreshExpired(repeat), true);
+    const stored = await store.get("k1");
+    assert.equal(stored?.messageId, "m2");
+    assert.equal(stored?.seenAtMs, T0 + 60 * SEC);
+    assert.equal(stored?.expiresAtMs, T0 + 120 * SEC);
+  },
+
+  "releases a key only for the message that recorded it": async (store) => {
+    await store.insertOrRefreshExpired(record({ dedupKey: "k1", messageId: "m1" }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "k2" }));
+    assert.equal(await store.release("k1", "m2"), false);
+    assert.equal(await store.release("k1", "m1"), true);
+    assert.equal(await store.get("k1"), null);
+    assert.equal(await store.release("k2", null), true);
+    assert.equal(await store.release("k2", null), false);
+  },
+
+  "lists recent unexpired records newest first": async (store) => {
+    await store.insertOrRefreshExpired(record({ dedupKey: "old", seenAtMs: T0 - 10 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "mid", seenAtMs: T0 + 1 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "new", seenAtMs: T0 + 2 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "gone", seenAtMs: T0 + 3 * SEC, expiresAtMs: T0 + 4 * SEC }));
+
+    const recent = await store.listRecent(T0 - 5 * SEC, T0 + 5 * SEC, 10);
+    assert.deepEqual(recent.map((r) => r.dedupKey), ["new", "mid"]);
+    assert.deepEqual((await store.listRecent(T0 - 5 * SEC, T0 + 5 * SEC, 1)).map((r) => r.dedupKey), ["new"]);
+  },
+
+  "lists a route's fingerprinted records only": async (store) => {
+    await store.insertOrRefreshExpired(record({ dedupKey: "fp1", fingerprint: "aa", seenAtMs: T0 + 1 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "fp2", fingerprint: "bb", seenAtMs: T0 + 2 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "plain" }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "other", fingerprint: "cc", toAgentId: "c" }));
+
+    const route = await store.listRoute("a", "b", T0, 10);
+    assert.deepEqual(route.map((r) => r.dedupKey), ["fp2", "fp1"]);
+    assert.deepEqual(await store.listRoute("b", "a", T0, 10), []);
+  },
+
+  "prunes expired records, honouring the limit": async (store) => {
+    for (let i = 0; i < 3; i++) {
+      await store.insertOrRefreshExpired(record({ dedupKey: `x${i}`, expiresAtMs: T0 + (i + 1) * SEC }));
+    }
+    await store.insertOrRefreshExpired(record({ dedupKey: "live" }));
+
+    assert.equal(await store.pruneExpired(T0 + 10 * SEC, 2), 2);
+    assert.equal(await store.pruneExpired(T0 + 10 * SEC), 1);
+    assert.equal((await store.tableStats()).rows, 1);
+    assert.notEqual(await store.get("live"), null);
+  },
+
+  "prunes a record exactly at its expiry, the boundary where it stops deduping": async (store) => {
+    await store.insertOrRefreshExpired(record({ dedupKey: "edge1", expiresAtMs: T0 + 60 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "edge2", expiresAtMs: T0 + 60 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "live", expiresAtMs: T0 + 61 * SEC }));
+
+    // Both the batched and the unbatched delete
+    assert.equal(await store.pruneExpired(T0 + 60 * SEC, 1), 1);
+    assert.equal(await store.pruneExpired(T0 + 60 * SEC), 1);
+    assert.equal(await store.get("edge1"), null);
+    assert.equal(await store.get("edge2"), null);
+    assert.notEqual(await store.get("live"), null);
+  },
+
+  "evicts the soonest-expiring records first": async (store) => {
+    await store.insertOrRefreshExpired(record({ dedupKey: "late", expiresAtMs: T0 + 300 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "soon", expiresAtMs: T0 + 100 * SEC }));
+    await store.insertOrRefreshExpired(record({ dedupKey: "mid", expiresAtMs: T0 + 200 * SEC }));
+
+    assert.equal(await store.evictSoonestExpiring(2), 2);
+    assert.equal(await store.get("soon"), null);
+    assert.equal(await store.get("mid"), null);
+    assert.notEqual(await store.get("late"), null);
+    assert.equal((await store.tableStats()).rows, 1);
+  },
+
+  "admits exactly one of several concurrent inserts of a key": async (store) => {
+    const results = await Promise.all(
+      [1, 2, 3, 4].map((i) => store.insertOrRefreshExpired(record({ dedupKey: "race", messageId: `m${i}` })))
+    );
+    assert.equal(results.filter(Boolean).length, 1);
+  },
+};
+
+testEachBackend((name) => `DedupStore conformance: ${name}`, cases);
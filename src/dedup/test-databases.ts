@@ -0,0 +1,174 @@
+/**
+ * test-databases.ts
+ *
+ * Scratch databases for the dedup tests. Each opener returns null when its
+ * backend is not available here, and the tests that need it are skipped:
+ *
+ *  - SQLite:   in-memory node:sqlite database (Node >= 22.5)
+ *  - Postgres: a throwaway schema in DEDUP_TEST_DATABASE_URL, via `pg`;
+ *              dropped again on close()
+ *
+ * DEDUP_STORE_BACKENDS wraps them, plus the memory store, as migrated
+ * DedupStores; testEachBackend() runs a suite against every one of them.
+ *
+ * Both load through a runtime import specifier: neither module is a
+ * dependency of this package, and @types/node 20 has no node:sqlite types.
+ */
+
+import crypto from "crypto";
+import { test } from "node:test";
+import { runDedupMigrations } from "./migrations.js";
+import { DbAdapter, DedupStore } from "./store.js";
+import { MemoryDedupStore } from "./stores/memory-store.js";
+import { PostgresDedupStore } from "./stores/postgres-store.js";
+import { SqliteDedupStore } from "./stores/sqlite-store.js";
+
+export interface TestDatabase {
+  dialect: "postgres" | "sqlite";
+  db: DbAdapter;
+  close(): Promise<void>;
+}
+
+type Rows = { rows: Record<string, unknown>[] };
+
+interface SqliteModule {
+  DatabaseSync: new (path: string) => {
+    prepare(sql: string): { all(...params: unknown[]): unknown[] };
+    close(): void;
+  };
+}
+
+interface PgQueryable {
+  query(sql: string, params?: unknown[]): Promise<Rows>;
+}
+
+interface PgModule {
+  Pool: new (config: { connectionString: string; max?: number; options?: string }) => PgQueryable & {
+    connect(): Promise<PgQueryable & { release(): void }>;
+    end(): Promise<void>;
+  };
+}
+
+async function optionalImport<T>(specifier: string): Promise<T | null> {
+  try {
+    const mod = await import(specifier);
+    return (mod.default ?? mod) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function openSqliteTestDatabase(): Promise<TestDatabase | null> {
+  const sqlite = await optionalImport<SqliteModule>("node:sqlite");
+  if (!sqlite?.DatabaseSync) return null;
+  const handle = new sqlite.DatabaseSync(":memory:");
+  return {
+    dialect: "sqlite",
+    db: {
+      query: async (sql, params) => ({ rows: handle.prepare(sql).all(...(params ?? [])) as Record<string, unknown>[] }),
+    },
+    close: async () => handle.close(),
+  };
+}
+
+export async function openPostgresTestDatabase(): Promise<TestDatabase | null> {
+  const url = process.env.DEDUP_TEST_DATABASE_URL;
+  if (!url) return null;
+  const pg = await optionalImport<PgModule>("pg");
+  if (!pg?.Pool) return null;
+
+  const schema = `dedup_test_${crypto.randomBytes(6).toString("hex")}`;
+  const admin = new pg.Pool({ connectionString: url, max: 1 });
+  await admin.query(`CREATE SCHEMA ${schema}`);
+  const pool = new pg.Pool({ connectionString: url, options: `-c search_path=${schema}` });
+  const adapterFor = (conn: PgQueryable): DbAdapter => ({
+    query: async (sql, params) => ({ rows: (await conn.query(sql, params)).rows }),
+  });
+  return {
+    dialect: "postgres",
+    db: {
+      ...adapterFor(pool),
+      async transaction(fn) {
+        const client = await pool.connect();
+        try {
+          await client.query("BEGIN");
+          const result = await fn(adapterFor(client));
+          await client.query("COMMIT");
+          return result;
+        } catch (err) {
+          await client.query("ROLLBACK").catch(() => undefined);
+          throw err;
+        } finally {
+          client.release();
+        }
+      },
+    },
+    close: async () => {
+      await pool.end();
+      await admin.query(`DROP SCHEMA ${schema} CASCADE`);
+      await admin.end();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Store backends
+// ---------------------------------------------------------------------------
+
+export interface DedupStoreBackend {
+  name: "memory" | "sqlite" | "postgres";
+  /** A fresh, migrated store — or why this backend cannot run here. */
+  open(): Promise<{ store: DedupStore; db: DbAdapter | null; close(): Promise<void> } | string>;
+}
+
+function sqlBackend(
+  name: "sqlite" | "postgres",
+  open: () => Promise<TestDatabase | null>,
+  unavailable: string,
+  storeFor: (db: DbAdapter) => DedupStore
+): DedupStoreBackend {
+  return {
+    name,
+    async open() {
+      const database = await open();
+      if (!database) return unavailable;
+      await runDedupMigrations(database.db, { dialect: database.dialect });
+      return { store: storeFor(database.db), db: database.db, close: () => database.close() };
+    },
+  };
+}
+
+export const DEDUP_STORE_BACKENDS: readonly DedupStoreBackend[] = [
+  { name: "memory", open: async () => ({ store: new MemoryDedupStore(), db: null, close: async () => {} }) },
+  sqlBackend("sqlite", openSqliteTestDatabase, "node:sqlite unavailable", (db) => new SqliteDedupStore(db)),
+  sqlBackend(
+    "postgres",
+    openPostgresTestDatabase,
+    "DEDUP_TEST_DATABASE_URL not set or pg not installed",
+    (db) => new PostgresDedupStore(db)
+  ),
+];
+
+export type BackendCase = (store: DedupStore, db: DbAdapter | null) => Promise<void>;
+
+/** One test per backend, skipped when it cannot run here; each case gets a fresh store. */
+export function testEachBackend(title: (backend: string) => string, cases: Record<string, BackendCase>): void {
+  for (const backend of DEDUP_STORE_BACKENDS) {
+    test(title(backend.name), async (t) => {
+      const probe = await backend.open();
+      if (typeof probe === "string") return t.skip(probe);
+      await probe.close();
+      for (const [name, run] of Object.entries(cases)) {
+        await t.test(name, async () => {
+          const opened = await backend.open();
+          if (typeof opened === "string") throw new Error(opened);
+          try {
+            await run(opened.store, opened.db);
+          } finally {
+            await opened.close();
+          }
+        });
+      }
+    });
+  }
+}
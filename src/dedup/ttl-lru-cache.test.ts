@@ -0,0 +1,95 @@
+/**
+ * ttl-lru-cache.test.ts
+ *
+ * LRU order, expiry and counters, plus a benchmark: the per-operation cost at
+ * 100k keys must stay within a small factor of the cost at 1k keys. The old
+ * evictExpired() full scan grew linearly — 100x over that range.
+ */
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { TtlLruCache } from "./ttl-lru-cache.js";
+
+const T0 = 1_700_000_000_000;
+const TTL_MS = 60_000;
+
+test("a hit refreshes recency, so capacity evicts the least recently used key", () => {
+  const cache = new TtlLruCache<number>({ maxEntries: 2 });
+  cache.set("a", 1, T0 + TTL_MS, T0);
+  cache.set("b", 2, T0 + TTL_MS, T0);
+  assert.equal(cache.get("a", T0), 1);
+  cache.set("c", 3, T0 + TTL_MS, T0);
+
+  assert.equal(cache.get("b", T0), undefined);
+  assert.equal(cache.get("a", T0), 1);
+  assert.equal(cache.get("c", T0), 3);
+  assert.deepEqual(cache.stats(), { size: 2, hits: 3, misses: 1, expirations: 0, evictions: 1 });
+});
+
+test("entries expire at their expiry time, and sweeps release whole past buckets", () => {
+  const cache = new TtlLruCache<string>({ maxEntries: 100, bucketMs: 1_000 });
+  cache.set("short", "s", T0 + 500, T0);
+  cache.set("long", "l", T0 + TTL_MS, T0);
+
+  assert.equal(cache.get("short", T0 + 499), "s");
+  assert.equal(cache.get("short", T0 + 500), undefined);
+  cache.sweep(T0 + 5_000);
+  assert.equal(cache.size, 1);
+  assert.equal(cache.get("long", T0 + 5_000), "l");
+  assert.equal(cache.stats().expirations, 1);
+});
+
+test("compact drops expired entries in the partly-past bucket", () => {
+  const cache = new TtlLruCache<string>({ maxEntries: 100, bucketMs: 60_000 });
+  cache.set("a", "a", T0 + 1_000, T0);
+  cache.set("b", "b", T0 + 2_000, T0);
+  cache.set("c", "c", T0 + TTL_MS * 10, T0);
+  assert.equal(cache.compact(T0 + 1_500), 1);
+  assert.equal(cache.size, 2);
+});
+
+// ---------------------------------------------------------------------------
+// Benchmark
+// ---------------------------------------------------------------------------
+
+/** Outlives a whole run (1 ms per op), so every key stays live and only capacity evicts. */
+const BENCH_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Median ns per get+set pair over `rounds` runs of `ops` pairs, on a cache at
+ * capacity with `keys` keys: each get hits a live key and moves it to the MRU
+ * end, each set evicts the LRU key.
+ */
+function nsPerOp(keys: number, ops = 20_000, rounds = 7): number {
+  const cache = new TtlLruCache<number>({ maxEntries: keys });
+  const names = Array.from({ length: keys + ops * rounds }, (_, i) => `key:${i}`);
+  let nowMs = T0;
+  let next = 0;
+  for (; next < keys; next++) cache.set(names[next], next, nowMs + BENCH_TTL_MS, nowMs);
+
+  const samples: number[] = [];
+  for (let round = 0; round < rounds; round++) {
+    const started = process.hrtime.bigint();
+    for (let i = 0; i < ops; i++) {
+      nowMs += 1;
+      cache.get(names[next - 1 - ((i * 7919) % (keys >> 1))], nowMs);
+      cache.set(names[next], next++, nowMs + BENCH_TTL_MS, nowMs);
+    }
+    samples.push(Number(process.hrtime.bigint() - started) / ops);
+  }
+  const stats = cache.stats();
+  assert.equal(stats.expirations, 0, "benchmark keys expired — it would measure a smaller cache");
+  assert.equal(stats.size, keys);
+  assert.equal(stats.misses, 0);
+  return samples.sort((a, b) => a - b)[Math.floor(rounds / 2)];
+}
+
+test("benchmark: get+set latency stays flat from 1k to 100k keys", (t) => {
+  nsPerOp(1_000, 20_000, 1); // JIT warm-up
+  const small = nsPerOp(1_000);
+  const large = nsPerOp(100_000);
+  const ratio = large / small;
+  t.diagnostic(`ttl-lru-cache: ${small.toFixed(0)} ns/op at 1k keys, ${large.toFixed(0)} ns/op at 100k keys (x${ratio.toFixed(2)})`);
+  // Generous bound for noisy CI and CPU cache effects; an O(n) step would be ~100x
+  assert.ok(ratio < 5, `latency grew x${ratio.toFixed(2)} with 100x the keys`);
+});
@@ -0,0 +1,235 @@
+/**
+ * ttl-lru-cache.ts
+ *
+ * Bounded TTL + LRU cache for the routing dedup L1. Replaces the old
+ * evictExpired() pass, which scanned the whole Map on every check and whose
+ * "LRU" was really insertion order (hits never refreshed recency).
+ *
+ * All operations are amortized O(1):
+ *  - recency: a doubly linked list through the entries, LRU at the head and
+ *    MRU at the tail — a hit relinks the entry at the tail, capacity eviction
+ *    unlinks the head. (Not Map insertion order: V8 leaves a tombstone per
+ *    delete and keys().next() walks every one before the first live key, so
+ *    "drop the oldest key" that way degrades to O(n) under steady churn.)
+ *  - expiry: entries are filed into fixed-width time buckets by expiry time;
+ *    a sweep only touches buckets that are entirely in the past, so each entry
+ *    is visited at most once. Bucket IDs live in a small min-heap whose size is
+ *    bounded by ttl / bucketMs, not by the key count.
+ *
+ * An entry is expired from its expiry time on, the same boundary at which the
+ * store refreshes a row (DedupStore.insertOrRefreshExpired).
+ */
+
+export interface TtlLruCacheOptions {
+  maxEntries: number;
+  /** Expiry bucket width. Smaller = tighter memory release, more buckets. */
+  bucketMs?: number;
+}
+
+export interface TtlLruCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+  /** Entries removed because they passed their expiry. */
+  expirations: number;
+  /** Entries removed to stay within maxEntries. */
+  evictions: number;
+}
+
+interface Entry<V> {
+  key: string;
+  value: V;
+  expiresAtMs: number;
+  bucket: number;
+  /** Neighbour towards the LRU end. */
+  prev: Entry<V> | null;
+  /** Neighbour towards the MRU end. */
+  next: Entry<V> | null;
+}
+
+export class TtlLruCache<V> {
+  private readonly entries = new Map<string, Entry<V>>();
+  private lru: Entry<V> | null = null;
+  private mru: Entry<V> | null = null;
+  private readonly buckets = new Map<number, Set<string>>();
+  private readonly bucketHeap: number[] = [];
+  private readonly maxEntries: number;
+  private readonly bucketMs: number;
+
+  private hits = 0;
+  private misses = 0;
+  private expirations = 0;
+  private evictions = 0;
+
+  constructor(options: TtlLruCacheOptions) {
+    this.maxEntries = options.maxEntries;
+    this.bucketMs = options.bucketMs ?? 60_000;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Returns the live value and marks it most recently used; undefined on miss. */
+  get(key: string, nowMs: number): V | undefined {
+    this.sweep(nowMs);
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAtMs <= nowMs) {
+      if (entry) this.remove(key, entry, "expired");
+      this.misses++;
+      return undefined;
+    }
+    this.unlink(entry);
+    this.link(entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: V, expiresAtMs: number, nowMs: number): void {
+    this.sweep(nowMs);
+    const existing = this.entries.get(key);
+    if (existing) this.remove(key, existing, "replaced");
+    if (expiresAtMs <= nowMs) return;
+
+    const bucket = Math.floor(expiresAtMs / this.bucketMs);
+    const entry: Entry<V> = { key, value, expiresAtMs, bucket, prev: null, next: null };
+    this.entries.set(key, entry);
+    this.link(entry);
+    let keys = this.buckets.get(bucket);
+    if (!keys) {
+      keys = new Set();
+      this.buckets.set(bucket, keys);
+      this.heapPush(bucket);
+    }
+    keys.add(key);
+
+    while (this.entries.size > this.maxEntries && this.lru) {
+      this.remove(this.lru.key, this.lru, "evicted");
+    }
+  }
+
+  delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.remove(key, entry, "replaced");
+    return true;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.lru = this.mru = null;
+    this.buckets.clear();
+    this.bucketHeap.length = 0;
+  }
+
+  stats(): TtlLruCacheStats {
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      expirations: this.expirations,
+      evictions: this.evictions,
+    };
+  }
+
+  /** Drops every bucket whose whole time range is before `nowMs`. */
+  sweep(nowMs: number): void {
+    while (this.bucketHeap.length > 0 && (this.bucketHeap[0] + 1) * this.bucketMs <= nowMs) {
+      const bucket = this.heapPop();
+      const keys = this.buckets.get(bucket);
+      this.buckets.delete(bucket);
+      if (!keys) continue;
+      for (const key of keys) {
+        const entry = this.entries.get(key);
+        if (!entry) continue;
+        this.entries.delete(key);
+        this.unlink(entry);
+        this.expirations++;
+      }
+    }
+  }
+
+  /**
+   * Full pass for the maintenance job: sweeps, then drops expired entries in
+   * the partly-past bucket and empty bucket sets left behind by deletes.
+   * O(entries) — not for the hot path. Returns entries removed.
+   */
+  compact(nowMs: number): number {
+    const before = this.entries.size;
+    this.sweep(nowMs);
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAtMs <= nowMs) this.remove(key, entry, "expired");
+    }
+    for (const [bucket, keys] of this.buckets) {
+      // Heap slot stays; sweep() skips buckets that are no longer mapped
+      if (keys.size === 0) this.buckets.delete(bucket);
+    }
+    return before - this.entries.size;
+  }
+
+  private remove(key: string, entry: Entry<V>, why: "expired" | "evicted" | "replaced"): void {
+    this.entries.delete(key);
+    this.unlink(entry);
+    const keys = this.buckets.get(entry.bucket);
+    if (keys) {
+      keys.delete(key);
+      // Empty bucket sets stay until swept — their heap slot is reclaimed then
+    }
+    if (why === "expired") this.expirations++;
+    if (why === "evicted") this.evictions++;
+  }
+
+  /** Appends `entry` at the MRU end. */
+  private link(entry: Entry<V>): void {
+    entry.prev = this.mru;
+    entry.next = null;
+    if (this.mru) this.mru.next = entry;
+    else this.lru = entry;
+    this.mru = entry;
+  }
+
+  private unlink(entry: Entry<V>): void {
+    if (entry.prev) entry.prev.next = entry.next;
+    else this.lru = entry.next;
+    if (entry.next) entry.next.prev = entry.prev;
+    else this.mru = entry.prev;
+    entry.prev = entry.next = null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Min-heap of bucket IDs
+  // -------------------------------------------------------------------------
+
+  private heapPush(value: number): void {
+    const heap = this.bucketHeap;
+    heap.push(value);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent] <= heap[i]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  }
+
+  private heapPop(): number {
+    const heap = this.bucketHeap;
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left] < heap[smallest]) smallest = left;
+        if (right < heap.length && heap[right] < heap[smallest]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
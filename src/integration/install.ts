@@ -0,0 +1,443 @@
+/**
+ * install.ts
+ *
+ * Source-level integration of the dedup fix. patch.js rewrites
+ * packages/backend/dist/index.js by exact string match, and the module
+ * headers pin dist line numbers (183467, 187942, 190448, 196162) that move on
+ * every upstream rebuild; manager.patch.ts / scheduler.patch.ts are only
+ * commented diffs. This module is the typed alternative: the backend calls
+ * install() once at startup with its dependencies and then calls the
+ * returned hooks at six explicit points in its own source:
+ *
+ *   beforeRoute     registerSendMessageHandler, before delivering
+ *                   (+ afterRoute once the delivery attempt finished)
+ *   beforeStart     ensureAgentStarted and any other startAgent call site
+ *   onReconcile     reconcileAgentStatesOnStartup (+ task resumes)
+ *   beforeDispatch  pickAssignee
+ *   composePrompt   composeSystemPrompt call sites
+ *   onTurnStart     runAgentTurn, as a turn starts (+ onTurnComplete when it ends)
+ *
+ * Beyond the hooks, the returned object exposes the watchdog recovery path,
+ * the operator actions (resume, release quarantine), the Prometheus metrics
+ * body for a GET /metrics route and the underlying services. Every service is
+ * also registered as its module singleton, so code that still uses
+ * getRoutingDedupService() & co. sees the same objects.
+ *
+ * install() migrates its tables itself (dedup/migrations.ts): the dedup tables
+ * and the SQL in agents/schema.sql and scheduler/schema.sql.
+ */
+
+import { DeliveryRecordStore, PostgresDeliveryRecordStore, checkMessageStatus, deliveryUpdateFor, deliveryUpdateForHeld } from "../agents/delivery-records.js";
+import { FailoverRouter, FailoverRouterConfig, registerFailoverRouter } from "../agents/failover-router.js";
+import { LifecycleActor, assertMayStart, inboundMessagePolicy } from "../agents/lifecycle.js";
+import { DrainResult, MailboxDeps, MailboxPolicyConfig, PostgresMailboxStore, acceptForNonRunningAgent, drainMailbox } from "../agents/mailbox.js";
+import {
+  SendMessageResult,
+  deliveredResult,
+  duplicateResult,
+  failedResult,
+  mailboxResult,
+  newDeliveryId,
+  rateLimitedResult,
+  renderSendMessageResult,
+} from "../agents/send-message-result.js";
+import { RoutingDedupConfigOverrides } from "../dedup/config.js";
+import { MessageFlowConfigOverrides, MessageFlowGuard, registerMessageFlowGuard } from "../dedup/message-flow-guard.js";
+import { runDedupMigrations } from "../dedup/migrations.js";
+import { registerDbAdapter } from "../dedup/persistent-dedup.js";
+import { RoutingDedupDeps, RoutingDedupService, getRoutingDedupService } from "../dedup/routing-dedup-service.js";
+import { DbAdapter } from "../dedup/store.js";
+import { errorMessage, getLogger } from "../observability/logger.js";
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE, getMetricsRegistry, registerMetricsRegistry } from "../observability/metrics.js";
+import { collectL1Metrics, recordMaintenanceReport, recordStoppedAgentBlock } from "../observability/routing-metrics.js";
+import { getPromptFragmentRegistry } from "../role-configs/prompt-fragments.js";
+import { bindProtocolToDedupService, checkSendMessageProtocolOnStartup } from "../role-configs/send-message-protocol.js";
+import {
+  PlannedTaskResume,
+  ReconcileApplyResult,
+  ReconcilePlan,
+  ReconcileTask,
+  applyReconcilePlan,
+  buildReconcilePlan,
+  summarizeReconcilePlan,
+} from "../scheduler/reconcile-plan.js";
+import { AgentLight, AgentStatus, InsertActivity, filterDispatchableAgents, guardedStartAgent, resumeAgent } from "../scheduler/stopped-agent-guard.js";
+import { DedupMaintenanceConfig, DedupMaintenanceJob, registerDedupMaintenanceJob } from "../scheduler/dedup-maintenance.js";
+import { PostgresTaskResumeStore, TaskResumeCoordinator, registerTaskResumeCoordinator } from "../scheduler/task-resume.js";
+import {
+  RecoveryOutcome,
+  WatchdogRecoveryConfig,
+  WatchdogRecoveryPolicy,
+  registerWatchdogRecoveryPolicy,
+} from "../scheduler/watchdog-recovery.js";
+
+const log = getLogger("integration");
+
+// ---------------------------------------------------------------------------
+// Backend dependencies
+// ---------------------------------------------------------------------------
+
+export interface BackendAgent extends AgentLight {
+  systemPrompt?: string;
+}
+
+export interface BackendRepo {
+  getAgent(id: string): Promise<BackendAgent | undefined>;
+  /**
+   * The send_message handler's resolveTargetAgent: accepts an agent ID or
+   * name. Defaults to getAgent, then a case-insensitive name match.
+   */
+  resolveTargetAgent?(idOrName: string): Promise<BackendAgent | undefined>;
+  listAgents(): Promise<BackendAgent[]>;
+  updateAgentStatus(id: string, status: AgentStatus): Promise<void>;
+  insertActivity: InsertActivity;
+  /** Tasks in the in-progress state — input of the restart resume pass. */
+  listInProgressTasks(): Promise<ReconcileTask[]>;
+}
+
+export interface IntegrationOptions {
+  dedup?: RoutingDedupConfigOverrides;
+  dedupDeps?: RoutingDedupDeps;
+  messageFlow?: MessageFlowConfigOverrides;
+  failover?: Partial<FailoverRouterConfig>;
+  mailbox?: MailboxPolicyConfig;
+  watchdog?: Partial<WatchdogRecoveryConfig>;
+  /** Scheduled prune / row budget / L1 compaction; `false` disables the job. */
+  maintenance?: Partial<DedupMaintenanceConfig> | false;
+  /**
+   * onReconcile only builds the plan; an operator applies it later. The dedup
+   * guard still warms L1 and starts its broadcast.
+   */
+  reconcileDryRun?: boolean;
+  /** Escalation wait the protocol tells agents about. */
+  escalateAfterMs?: number;
+  /** Other dedup windows the protocol must agree with (e.g. patch.js DEDUP_TTL_MS). */
+  otherDedupWindowsMs?: Record<string, number>;
+  /** Startup protocol/config consistency check. Default true. */
+  checkProtocol?: boolean;
+  /** Uptime after which this boot counts as healthy for task-resume epochs. Default 5 min. */
+  healthyAfterMs?: number;
+  /** Registry behind metrics(); registered process-wide. Default getMetricsRegistry(). */
+  metricsRegistry?: MetricsRegistry;
+}
+
+export interface IntegrationBackend {
+  db: DbAdapter;
+  repo: BackendRepo;
+  /** The backend's own startAgent — called only after beforeStart passed. */
+  startAgent(id: string): Promise<void>;
+  /** Raw delivery into an agent's conversation, no guards (the original sendMessageToAgent body). */
+  deliverToAgent(toAgentId: string, content: string): Promise<void>;
+  /** Text of the resume nudge for an in-progress task after a restart. */
+  resumeMessageFor(resume: PlannedTaskResume): string;
+  options?: IntegrationOptions;
+}
+
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+export type RouteGate =
+  | { proceed: true; deliveryId: string; toAgent: BackendAgent; fromAgentId: string; dedupKey: string }
+  | { proceed: false; result: SendMessageResult; output: string };
+
+export type ReconcileOutcome =
+  | { mode: "dry-run"; plan: ReconcilePlan }
+  | { mode: "applied"; plan: ReconcilePlan; result: ReconcileApplyResult };
+
+export interface IntegrationHooks {
+  /**
+   * Runs the lifecycle/mailbox, message-flow and dedup gates and opens a
+   * delivery record. On `proceed: false` return `output` as the tool result;
+   * otherwise deliver, then call afterRoute.
+   */
+  beforeRoute(fromAgentId: string, toAgentId: string, message: string): Promise<RouteGate>;
+  /**
+   * Closes the delivery record; returns the send_message tool output. On
+   * `error` the dedup key is released so the sender's retry is delivered.
+   */
+  afterRoute(gate: Extract<RouteGate, { proceed: true }>, error?: unknown): Promise<string>;
+  /** Throws if `actor` may not start the agent (lifecycle, including watchdog quarantine). */
+  beforeStart(agentId: string, actor: LifecycleActor): Promise<void>;
+  /** Startup reconcile: agent resets, dedup warm-up, idempotent task resumes. */
+  onReconcile(): Promise<ReconcileOutcome>;
+  /** Picks a live assignee with the task's role, or undefined. */
+  beforeDispatch<A extends BackendAgent>(task: { id: string; role: string }, agents: A[]): A | undefined;
+  /** Applies the registered prompt fragments to a composed system prompt. */
+  composePrompt(agent: { id?: string; role: string }, prompt: string): string;
+  /** Read acknowledgement: call when an agent starts a turn. */
+  onTurnStart(agentId: string, turnStartedAtMs: number): Promise<void>;
+  /** Call when an agent completes a turn — resets its watchdog restart history. */
+  onTurnComplete(agentId: string): void;
+  /** Backs the check_message_status tool. */
+  checkMessageStatus(agentId: string, deliveryId?: string | null): Promise<string>;
+}
+
+export interface InstalledIntegration {
+  hooks: IntegrationHooks;
+  /** Watchdog path: replaces `await startAgent(agent.id)` in the recovery block. */
+  recoverAgent(agentId: string): Promise<RecoveryOutcome>;
+  operator: {
+    resumeAgent(agentId: string, request: { resumedBy: string; reason: string }): Promise<DrainResult>;
+    releaseQuarantine(agentId: string, request: { releasedBy: string; reason: string }): Promise<DrainResult>;
+  };
+  services: {
+    dedup: RoutingDedupService;
+    messageFlow: MessageFlowGuard;
+    failover: FailoverRouter;
+    watchdog: WatchdogRecoveryPolicy;
+    taskResume: TaskResumeCoordinator;
+    deliveries: DeliveryRecordStore;
+    maintenance: DedupMaintenanceJob;
+  };
+  /** Prometheus text exposition — serve as GET /metrics. */
+  metrics(): { contentType: string; body: string };
+  shutdown(): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// install()
+// ---------------------------------------------------------------------------
+
+export async function install(backend: IntegrationBackend): Promise<InstalledIntegration> {
+  const { db, repo } = backend;
+  const options = backend.options ?? {};
+  if (options.metricsRegistry) registerMetricsRegistry(options.metricsRegistry);
+  const metricsRegistry = getMetricsRegistry();
+
+  // Dedup: the one service, then its schema (the service reads lazily)
+  registerDbAdapter(db, options.dedup, options.dedupDeps);
+  const dedup = getRoutingDedupService();
+  await runDedupMigrations(db, { ttlMs: dedup.config.ttlMs });
+  const stopL1Metrics = collectL1Metrics(dedup, metricsRegistry);
+
+  const messageFlow = new MessageFlowGuard(options.messageFlow, { insertActivity: repo.insertActivity });
+  registerMessageFlowGuard(messageFlow);
+  const failover = new FailoverRouter(options.failover);
+  registerFailoverRouter(failover);
+  const watchdog = new WatchdogRecoveryPolicy(
+    {
+      getAgent: repo.getAgent,
+      startAgent: backend.startAgent,
+      updateAgentStatus: repo.updateAgentStatus,
+      insertActivity: repo.insertActivity,
+    },
+    options.watchdog
+  );
+  registerWatchdogRecoveryPolicy(watchdog);
+
+  const taskResume = new TaskResumeCoordinator(new PostgresTaskResumeStore(db));
+  registerTaskResumeCoordinator(taskResume);
+  await taskResume.beginBoot();
+  const healthyTimer = setTimeout(() => {
+    taskResume.markHealthy().catch((err) => log.error("markHealthy failed", { error: errorMessage(err) }));
+  }, options.healthyAfterMs ?? 5 * 60 * 1000);
+  healthyTimer.unref?.();
+
+  const maintenance = new DedupMaintenanceJob(dedup, options.maintenance || {}, { onReport: recordMaintenanceReport });
+  registerDedupMaintenanceJob(maintenance);
+  if (options.maintenance !== false) maintenance.start();
+
+  bindProtocolToDedupService(dedup, options.escalateAfterMs);
+  if (options.checkProtocol !== false) {
+    const agents = await repo.listAgents();
+    checkSendMessageProtocolOnStartup(dedup, {
+      otherWindowsMs: options.otherDedupWindowsMs,
+      prompts: agents
+        .filter((a) => a.systemPrompt)
+        .map((a) => ({ source: `agent ${a.name}(${a.id})`, text: a.systemPrompt as string })),
+    });
+  }
+
+  const deliveries = new PostgresDeliveryRecordStore(db);
+
+  const displayName = async (agentId: string | null): Promise<string> =>
+    agentId ? (await repo.getAgent(agentId))?.name ?? agentId : "Platform";
+
+  const mailboxDeps: MailboxDeps = {
+    store: new PostgresMailboxStore(db),
+    config: options.mailbox,
+    router: failover,
+    dedup,
+    messageFlow,
+    listAgents: repo.listAgents,
+    deliver: async (toAgentId, content, fromAgentId) =>
+      backend.deliverToAgent(toAgentId, `[Message from ${await displayName(fromAgentId)}]: ${content}`),
+    onResolved: async (held, status) => {
+      await deliveries.update(held.id, deliveryUpdateForHeld(status, held.toAgentId), Date.now());
+    },
+  };
+
+  const resolveTargetAgent = async (idOrName: string): Promise<BackendAgent | undefined> => {
+    if (repo.resolveTargetAgent) return repo.resolveTargetAgent(idOrName);
+    const byId = await repo.getAgent(idOrName);
+    if (byId) return byId;
+    const name = idOrName.trim().toLowerCase();
+    return (await repo.listAgents()).find((a) => a.name.toLowerCase() === name);
+  };
+
+  /** Settles a gate that stops here. A delivery-record failure must not hide the result. */
+  const finish = async (result: SendMessageResult): Promise<RouteGate> => {
+    try {
+      await deliveries.update(result.deliveryId, deliveryUpdateFor(result), result.atMs);
+    } catch (err) {
+      log.error("Delivery record update failed", { deliveryId: result.deliveryId, error: errorMessage(err) });
+    }
+    return { proceed: false, result, output: renderSendMessageResult(result) };
+  };
+
+  // -------------------------------------------------------------------------
+  // Hooks
+  // -------------------------------------------------------------------------
+
+  const hooks: IntegrationHooks = {
+    async beforeRoute(fromAgentId, toAgentId, message) {
+      const deliveryId = newDeliveryId();
+      const toAgent = await resolveTargetAgent(toAgentId);
+      if (!toAgent) {
+        const result = failedResult(deliveryId, { id: toAgentId }, `agent ${toAgentId} not found`);
+        return { proceed: false, result, output: renderSendMessageResult(result) };
+      }
+
+      try {
+        await deliveries.create({ deliveryId, fromAgentId, toAgentId: toAgent.id, preview: message }, Date.now());
+
+        if (inboundMessagePolicy(toAgent.status) !== "deliver") {
+          const outcome = await acceptForNonRunningAgent(toAgent, { id: deliveryId, fromAgentId, content: message }, mailboxDeps);
+          return await finish(mailboxResult(deliveryId, toAgent, outcome));
+        }
+
+        // Flow guard before dedup: a throttled message must not record a dedup key
+        const flow = await messageFlow.check(fromAgentId, toAgent.id);
+        if (!flow.allowed) return await finish(rateLimitedResult(deliveryId, toAgent, flow));
+
+        const verdict = await dedup.check({ fromAgentId, toAgentId: toAgent.id, content: message, messageId: deliveryId, toRole: toAgent.role });
+        if (verdict.isDuplicate) {
+          await repo.insertActivity({
+            agentId: toAgent.id,
+            type: "task_updated",
+            summary: `[Dedup] Dropped duplicate message to ${toAgent.name}: ${message.slice(0, 80)}`,
+            details: { source: "routing_dedup", dropped: true, dedupKey: verdict.dedupKey, via: verdict.source, deliveryId },
+          });
+          return await finish(duplicateResult(deliveryId, toAgent, verdict));
+        }
+        return { proceed: true, deliveryId, toAgent, fromAgentId, dedupKey: verdict.dedupKey };
+      } catch (err) {
+        return await finish(failedResult(deliveryId, toAgent, err));
+      }
+    },
+
+    async afterRoute(gate, error) {
+      if (error !== undefined) await dedup.release(gate.dedupKey, gate.deliveryId);
+      const result =
+        error === undefined ? deliveredResult(gate.deliveryId, gate.toAgent) : failedResult(gate.deliveryId, gate.toAgent, error);
+      try {
+        await deliveries.update(gate.deliveryId, deliveryUpdateFor(result), result.atMs);
+      } catch (err) {
+        // The message is already delivered (or failed): report that, not the record write
+        log.error("Delivery record update failed", { deliveryId: gate.deliveryId, error: errorMessage(err) });
+      }
+      return renderSendMessageResult(result);
+    },
+
+    async beforeStart(agentId, actor) {
+      const agent = await repo.getAgent(agentId);
+      if (!agent) throw new Error(`beforeStart: agent ${agentId} not found`);
+      try {
+        assertMayStart(agent, actor);
+      } catch (err) {
+        recordStoppedAgentBlock("start");
+        throw err;
+      }
+    },
+
+    async onReconcile() {
+      const plan = await buildReconcilePlan({
+        agents: await repo.listAgents(),
+        inProgressTasks: await repo.listInProgressTasks(),
+        dedup,
+      });
+      try {
+        if (options.reconcileDryRun) {
+          // A dry run leaves agents and tasks alone, not the dedup guard
+          await dedup.warmFromStore();
+          log.info(`Reconcile dry-run: ${summarizeReconcilePlan(plan)}`);
+          return { mode: "dry-run", plan };
+        }
+        const result = await applyReconcilePlan(plan, {
+          getAgent: repo.getAgent,
+          updateAgentStatus: repo.updateAgentStatus,
+          insertActivity: repo.insertActivity,
+          dedup,
+          resumeTask: async (resume) => {
+            await taskResume.resumeOnce(resume.taskId, resume.assigneeId, () =>
+              backend.deliverToAgent(resume.assigneeId, backend.resumeMessageFor(resume))
+            );
+          },
+        });
+        return { mode: "applied", plan, result };
+      } finally {
+        // L1 coherence with the other replicas, however the reconcile went
+        await dedup.startBroadcast();
+      }
+    },
+
+    beforeDispatch(task, agents) {
+      const resolution = failover.resolve({ role: task.role }, filterDispatchableAgents(agents), { taskId: task.id });
+      return resolution ? agents.find((a) => a.id === resolution.agent.id) : undefined;
+    },
+
+    composePrompt(agent, prompt) {
+      return getPromptFragmentRegistry().composePrompt(prompt, agent);
+    },
+
+    async onTurnStart(agentId, turnStartedAtMs) {
+      await deliveries.markReadForAgent(agentId, turnStartedAtMs, Date.now());
+    },
+
+    onTurnComplete(agentId) {
+      watchdog.recordHealthy(agentId);
+    },
+
+    async checkMessageStatus(agentId, deliveryId) {
+      return (await checkMessageStatus(deliveries, agentId, deliveryId)).text;
+    },
+  };
+
+  // -------------------------------------------------------------------------
+  // Operator + watchdog
+  // -------------------------------------------------------------------------
+
+  const operator: InstalledIntegration["operator"] = {
+    async resumeAgent(agentId, request) {
+      await resumeAgent(agentId, request, repo.getAgent, repo.updateAgentStatus, repo.insertActivity);
+      await guardedStartAgent(agentId, repo.getAgent, backend.startAgent, "operator");
+      const agent = await repo.getAgent(agentId);
+      if (!agent) throw new Error(`resumeAgent: agent ${agentId} not found`);
+      return drainMailbox(agent, dedup, mailboxDeps);
+    },
+    async releaseQuarantine(agentId, request) {
+      await watchdog.releaseQuarantine(agentId, request);
+      const agent = await repo.getAgent(agentId);
+      if (!agent) throw new Error(`releaseQuarantine: agent ${agentId} not found`);
+      // Messages held while it was quarantined
+      return drainMailbox(agent, dedup, mailboxDeps);
+    },
+  };
+
+  log.info("Dedup fix installed (source-level hooks)");
+
+  return {
+    hooks,
+    recoverAgent: (agentId) => watchdog.recover(agentId),
+    operator,
+    services: { dedup, messageFlow, failover, watchdog, taskResume, deliveries, maintenance },
+    metrics: () => ({ contentType: PROMETHEUS_CONTENT_TYPE, body: metricsRegistry.renderPrometheus() }),
+    async shutdown() {
+      clearTimeout(healthyTimer);
+      maintenance.stop();
+      stopL1Metrics();
+      await dedup.stopBroadcast();
+    },
+  };
+}
@@ -1,4 +1,8 @@
 /**
+ * Reference only: the hooks from install() (integration/install.ts) apply
+ * these changes through the backend source. Kept as a commented diff of what
+ * each hook replaces.
+ *
  * Patch diff — changes to packages/backend/src/agents/manager.ts
  *
  * Three targeted fixes for the duplicate delivery loop:
@@ -11,13 +15,24 @@
  *    Currently promotes ALL thinking/executing → idle including stopped ones.
  *    Stopped agents must stay stopped across restarts.
  *
- * 3. sendMessageToAgent — DB-backed dedup before delivery
- *    Calls isDuplicateMessage() (message-dedup.ts) before inserting the
- *    user message and triggering the agent loop. Drops duplicates within 72h.
+ * 3. sendMessageToAgent — never deliver to non-running agents; hold, reroute
+ *    or bounce via the agent mailbox (agents/mailbox.ts) instead of dropping
+ *
+ * 4. registerSendMessageHandler — stopped-agent guard + routing dedup
+ *    The inter-agent routing handler must check target agent status, then the
+ *    message-flow guard (dedup/message-flow-guard.ts), then run
+ *    the unified RoutingDedupService (dedup/routing-dedup-service.ts) before
+ *    calling sendMessageToAgent. This is the only place routed messages are
+ *    deduplicated — sendMessageToAgent must not re-check the same key.
+ *
+ * 5. Mailbox wiring — held messages are drained through the same dedup
+ *    service when an operator resumes the agent.
+ *
+ * 6. GET /metrics — Prometheus exposition of the routing-guard metrics
+ *    (observability/metrics.ts)
  *
- * 4. registerSendMessageHandler — block delivery to stopped agents
- *    The inter-agent routing handler must check target agent status before
- *    calling sendMessageToAgent.
+ * Every "is this agent stopped?" decision goes through the lifecycle state
+ * machine (agents/lifecycle.ts) rather than comparing status strings.
  *
  * Apply these diffs to packages/backend/src/agents/manager.ts
  */
@@ -31,15 +46,18 @@
 //   const startPromise = startAgent(agentId)...
 // }
 //
-// AFTER (add stopped-agent guard before startAgent call):
+// AFTER (add lifecycle start guard before startAgent call):
+// import { assertMayStart, isOperatorOnly } from "./lifecycle.js";
+//
 // async function ensureAgentStarted(agentId: string): Promise<void> {
 //   if (runningAgents.has(agentId)) return;
 //
-//   // DEDUP FIX: never restart a stopped agent — stopped is a permanent state
+//   // DEDUP FIX: never restart a stopped agent — stopped is a permanent state.
+//   // Throws ForbiddenTransitionError for stopped agents (operator-only), and
+//   // for agents the watchdog quarantined after a crash loop, so message
+//   // arrival does not restart them either.
 //   const agent = await repo.getAgent(agentId);
-//   if (agent?.status === "stopped") {
-//     throw new Error(`Agent ${agentId} is stopped and cannot be restarted automatically`);
-//   }
+//   if (agent) assertMayStart(agent, "scheduler");
 //   ...
 // }
 
@@ -56,58 +74,85 @@
 //   }
 // }
 //
-// AFTER (add stopped guard):
+// AFTER (delegate to the lifecycle-backed guard — "reconciler" actor):
+// import { safeReconcileOnStartup } from "../scheduler/stopped-agent-guard.js";
+//
 // export async function reconcileAgentStatesOnStartup(): Promise<void> {
-//   const agents = await repo.listAgents();
-//   const staleStatuses = new Set(["thinking", "executing"]);
-//   for (const agent of agents) {
-//     if (!staleStatuses.has(agent.status)) continue;
-//     // DEDUP FIX: never promote a stopped agent back to idle
-//     if (agent.status === "stopped") continue;
-//     await repo.updateAgentStatus(agent.id, "idle");
-//     ...
+//   await safeReconcileOnStartup(
+//     await repo.listAgents(),
+//     (id, status) => repo.updateAgentStatus(id, status),
+//     (activity) => repo.insertActivity(activity)
+//   );
+// }
+//
+// DRY-RUN MODE (scheduler/reconcile-plan.ts): with RECONCILE_DRY_RUN=1 the
+// backend writes the restart plan instead of reconciling, and an operator
+// applies the reviewed plan later:
+// import { buildReconcilePlan, serializeReconcilePlan, summarizeReconcilePlan } from "../scheduler/reconcile-plan.js";
+// import { getLogger } from "../observability/logger.js";
+//
+// const log = getLogger("manager");
+//
+// export async function reconcileAgentStatesOnStartup(): Promise<void> {
+//   if (process.env.RECONCILE_DRY_RUN === "1") {
+//     const plan = await buildReconcilePlan({
+//       agents: await repo.listAgents(),
+//       inProgressTasks: await repo.listTasks({ status: "in_progress" }),
+//       dedup: getRoutingDedupService(),
+//     });
+//     await fs.writeFile(reconcilePlanPath, serializeReconcilePlan(plan));
+//     log.info("Reconcile dry-run written", { summary: summarizeReconcilePlan(plan), path: reconcilePlanPath });
+//     return;
 //   }
+//   ...
 // }
-
-// ─── PATCH 3: sendMessageToAgent — DB-backed dedup ──────────────────────────
 //
-// Add import at top of file:
-// import { isDuplicateMessage } from "./message-dedup.js";
+// POST /admin/reconcile/apply  (body = reviewed plan JSON):
+//   await applyReconcilePlan(parseReconcilePlan(body), {
+//     getAgent: repo.getAgent, updateAgentStatus: repo.updateAgentStatus,
+//     insertActivity: repo.insertActivity, dedup: getRoutingDedupService(),
+//     resumeTask: (r) => getTaskResumeCoordinator().resumeOnce(r.taskId, r.assigneeId,
+//       () => manager.sendMessageToAgent(r.assigneeId, resumeMessageFor(r.taskId))).then(() => {}),
+//   });
+
+// ─── PATCH 3: sendMessageToAgent — stopped-agent guard ──────────────────────
 //
 // BEFORE (in sendMessageToAgent):
 //   const agent = await repo.getAgent(agentId);
 //   if (!agent) throw new Error(`Agent ${agentId} not found`);
 //   await ensureAgentStarted(agentId);
 //   ...
-//   await repo.insertMessage({ agentId, role: "user", content });
 //
 // AFTER:
 //   const agent = await repo.getAgent(agentId);
 //   if (!agent) throw new Error(`Agent ${agentId} not found`);
 //
-//   // DEDUP FIX: block delivery to stopped agents
-//   if (agent.status === "stopped") {
-//     console.warn(`[Manager] Dropping message to stopped agent ${agentId}: ${content.slice(0, 80)}`);
-//     return;
-//   }
-//
-//   // DEDUP FIX: DB-backed dedup — survives restarts, catches session-replays
-//   const isDup = await isDuplicateMessage(agentId, content);
-//   if (isDup) {
-//     await repo.insertActivity({
-//       agentId,
-//       type: "task_updated",
-//       summary: `[Dedup] Dropped duplicate message to ${agent.name}: ${content.slice(0, 80)}`,
-//       details: { source: "message_dedup", dropped: true },
-//     });
+//   // DEDUP FIX: never deliver to paused/stopped/retired agents — mailbox them
+//   if (inboundMessagePolicy(agent.status) !== "deliver") {
+//     await acceptForNonRunningAgent(agent, { fromAgentId: "external", content }, mailboxDeps);
 //     return;
 //   }
 //
 //   await ensureAgentStarted(agentId);
 //   ...
-//   await repo.insertMessage({ agentId, role: "user", content });
 
-// ─── PATCH 4: registerSendMessageHandler — stopped-agent guard ──────────────
+// ─── PATCH 4: registerSendMessageHandler — stopped guard + routing dedup ────
+//
+// Add imports at top of file:
+// import { getRoutingDedupService } from "../dedup/routing-dedup-service.js";
+// import { MessageFlowGuard, getMessageFlowGuard, registerMessageFlowGuard } from "../dedup/message-flow-guard.js";
+//
+// Startup (after initSchema, before reconcileAgentStatesOnStartup):
+// await runDedupMigrations(db);       // dedup/migrations.ts (upgrades legacy tables too)
+// registerDbAdapter(db);               // dedup/persistent-dedup.ts
+// await loadStartupDedupGuard();
+// registerMessageFlowGuard(new MessageFlowGuard({}, { insertActivity: (a) => repo.insertActivity(a) }));
+// // Protocol numbers come from the live config; refuse to boot if they disagree
+// bindProtocolToDedupService(getRoutingDedupService());          // role-configs/send-message-protocol.ts
+// checkSendMessageProtocolOnStartup(getRoutingDedupService(), {
+//   otherWindowsMs: { "patch.js DEDUP_TTL_MS": DEDUP_TTL_MS },
+//   prompts: (await repo.listAgents()).map((a) => ({ source: `agent ${a.name}`, text: a.systemPrompt })),
+// });
 //
 // BEFORE:
 // registerSendMessageHandler(async (fromAgentId, toAgentId, message) => {
@@ -123,11 +168,102 @@
 // registerSendMessageHandler(async (fromAgentId, toAgentId, message) => {
 //   const fromAgent = await repo.getAgent(fromAgentId);
 //   const toAgent = await resolveTargetAgent(toAgentId);
-//   if (!toAgent) return `Error: agent ${toAgentId} not found`;
+//   if (!toAgent) {
+//     return renderSendMessageResult(failedResult(newDeliveryId(), { id: toAgentId }, `agent ${toAgentId} not found`));
+//   }
+//
+//   return renderSendMessageResult(await routeSendMessage(fromAgentId, toAgent, message, newDeliveryId()));
+// });
 //
-//   // DEDUP FIX: never deliver to stopped agents
-//   if (toAgent.status === "stopped") {
-//     return `Error: agent ${toAgent.name} is stopped — message not delivered`;
+// Structured core, also callable from the scheduler (agents/send-message-result.ts):
+// async function routeSendMessage(
+//   fromAgentId: string, toAgent: Agent, message: string, deliveryId: string
+// ): Promise<SendMessageResult> {
+//   try {
+//     // DEDUP FIX: never deliver to paused/stopped/retired agents — hold,
+//     // reroute or bounce per mailbox policy. Dedup runs on drain, not here.
+//     if (inboundMessagePolicy(toAgent.status) !== "deliver") {   // agents/lifecycle.ts
+//       const outcome = await acceptForNonRunningAgent(toAgent, { id: deliveryId, fromAgentId, content: message }, mailboxDeps);
+//       return mailboxResult(deliveryId, toAgent, outcome);
+//     }
+//
+//     // DEDUP FIX: rate limits + loop detection BEFORE dedup, so a throttled
+//     // message does not record a dedup key that would drop the sender's retry
+//     const flow = await getMessageFlowGuard().check(fromAgentId, toAgent.id);
+//     if (!flow.allowed) return rateLimitedResult(deliveryId, toAgent, flow);
+//
+//     // DEDUP FIX: unified routing dedup — survives restarts, catches session-replays.
+//     // deliveryId doubles as the dedup messageId, so a drop names the original.
+//     const verdict = await getRoutingDedupService().check({
+//       fromAgentId,
+//       toAgentId: toAgent.id,
+//       content: message,
+//       messageId: deliveryId,
+//     });
+//     if (verdict.isDuplicate) {
+//       await repo.insertActivity({
+//         agentId: toAgent.id,
+//         type: "task_updated",
+//         summary: `[Dedup] Dropped duplicate message to ${toAgent.name}: ${message.slice(0, 80)}`,
+//         details: { source: "routing_dedup", dropped: true, dedupKey: verdict.dedupKey, via: verdict.source },
+//       });
+//       return duplicateResult(deliveryId, toAgent, verdict);
+//     }
+//
+//     await sendMessageToAgent(toAgent.id, `[Message from ${fromName}]: ${message}`);
+//     return deliveredResult(deliveryId, toAgent);
+//   } catch (err) {
+//     return failedResult(deliveryId, toAgent, err);
 //   }
-//   ...
+// }
+//
+// Delivery records (agents/delivery-records.ts) — wrap routeSendMessage so
+// every routed message is persisted under its deliveryId:
+//   await deliveries.create({ deliveryId, fromAgentId, toAgentId: toAgent.id, preview: message }, Date.now());
+//   const result = await routeSendMessage(fromAgentId, toAgent, message, deliveryId);   // held ID = deliveryId
+//   await deliveries.update(deliveryId, deliveryUpdateFor(result), Date.now());
+//
+// mailboxDeps.onResolved = (held, status) =>
+//   deliveries.update(held.id, deliveryUpdateForHeld(status, held.toAgentId), Date.now()).then(() => {});
+//
+// Read acknowledgement — at the start of each agent turn (runAgentTurn):
+//   await deliveries.markReadForAgent(agent.id, turnStartedAtMs, Date.now());
+// and once the turn completed (watchdog-recovery.ts: back to the initial backoff):
+//   getWatchdogRecoveryPolicy().recordHealthy(agent.id);
+//
+// New agent tool, next to send_message:
+// registerCheckMessageStatusHandler(async (agentId, deliveryId) =>
+//   (await checkMessageStatus(deliveries, agentId, deliveryId)).text);
+
+// ─── PATCH 5: mailbox wiring + drain on resume ──────────────────────────────
+//
+// Add imports at top of file:
+// import { PostgresMailboxStore, acceptForNonRunningAgent, drainMailbox } from "./mailbox.js";
+// import { resumeAgent, guardedStartAgent } from "../scheduler/stopped-agent-guard.js";
+//
+// const mailboxDeps = {
+//   store: new PostgresMailboxStore(db),
+//   listAgents: () => repo.listAgents(),
+//   deliver: async (toAgentId: string, content: string, fromAgentId: string | null) => {
+//     const fromName = fromAgentId ? (await repo.getAgent(fromAgentId))?.name ?? fromAgentId : "Platform";
+//     await sendMessageToAgent(toAgentId, `[Message from ${fromName}]: ${content}`);
+//   },
+// };
+//
+// Operator resume endpoint:
+// export async function resumeAgentFromOperator(agentId: string, resumedBy: string, reason: string) {
+//   await resumeAgent(agentId, { resumedBy, reason }, repo.getAgent, repo.updateAgentStatus, repo.insertActivity);
+//   await guardedStartAgent(agentId, repo.getAgent, startAgent, "operator");
+//   const agent = await repo.getAgent(agentId);
+//   if (agent) await drainMailbox(agent, getRoutingDedupService(), mailboxDeps);
+// }
+
+// ─── PATCH 6: GET /metrics ──────────────────────────────────────────────────
+//
+// Add imports at top of the HTTP server module:
+// import { PROMETHEUS_CONTENT_TYPE, getMetricsRegistry } from "../observability/metrics.js";
+//
+// Next to the existing routes (or integration.metrics() when using install()):
+// app.get("/metrics", (_req, res) => {
+//   res.type(PROMETHEUS_CONTENT_TYPE).send(getMetricsRegistry().renderPrometheus());
 // });
@@ -1,71 +1,52 @@
 /**
- * DB-backed message deduplication for inter-agent message routing.
+ * @deprecated Compatibility shim — use RoutingDedupService
+ * (dedup/routing-dedup-service.ts) directly.
  *
- * Root cause: agents session-replay their last outbound send_message on
- * re-initialization. An in-memory Map is wiped on every restart — exactly
- * when the replay fires. This module uses the existing `messages` table
- * (PostgreSQL) as the dedup store so the check survives restarts.
- *
- * Strategy: before delivering a message, compute a stable hash of
- * (toAgentId + normalized content) and query the messages table for an
- * identical user-role message delivered to that agent within the TTL window.
- * If found, drop the delivery and log it as a duplicate.
+ * This module used to rehash the last 200 rows of the `messages` table on
+ * every call, with its own hash scheme and TTL. It now delegates to the
+ * unified routing dedup service so there is exactly one key scheme, one
+ * table and one TTL. Callers that know the sender should pass it; messages
+ * from non-agent sources (scheduler, UI) are keyed under "external".
  */
 
-import { createHash } from "crypto";
-import { getDb } from "../db/schema.js";
+import { computeContentHash } from "./dedup/dedup-key.js";
+import { getRoutingDedupService } from "./dedup/routing-dedup-service.js";
+import { getLogger } from "./observability/logger.js";
 
-/** Drop duplicate messages delivered within this window (72 h). */
-const DEDUP_TTL_MS = 72 * 60 * 60 * 1000;
+const log = getLogger("dedup");
 
-/**
- * Compute a stable dedup key for a (recipient, content) pair.
- * Normalizes whitespace so minor formatting differences don't bypass the check.
- */
-export function computeMessageHash(toAgentId: string, content: string): string {
-  const normalized = content.replace(/\s+/g, " ").trim();
-  return createHash("sha256").update(`${toAgentId}::${normalized}`).digest("hex");
+/** @deprecated Use computeContentHash — the recipient is part of the dedup key, not the hash. */
+export function computeMessageHash(_toAgentId: string, content: string): string {
+  return computeContentHash(content);
 }
 
 /**
- * Returns true if an identical message was already delivered to `toAgentId`
- * within the last DEDUP_TTL_MS milliseconds.
- *
- * Uses the existing `messages` table — no schema migration required.
- * The `content` column already stores the full message text; we hash it
- * in-process and compare against a hash of recent rows.
+ * Returns true if an identical message was already routed from `fromAgentId`
+ * to `toAgentId` within the configured dedup TTL. Check-only, like the
+ * original: nothing is recorded, so a caller that asks and then does not
+ * deliver does not block the next attempt.
  */
 export async function isDuplicateMessage(
   toAgentId: string,
-  content: string
+  content: string,
+  fromAgentId: string = "external"
 ): Promise<boolean> {
-  try {
-    const db = await getDb();
-    const since = new Date(Date.now() - DEDUP_TTL_MS).toISOString();
-
-    // Fetch recent user messages for this agent within the TTL window.
-    // Limit to 200 to keep the query fast; duplicates are almost always recent.
-    const { rows } = await db.query<{ content: string }>(
-      `SELECT content FROM messages
-       WHERE agent_id = $1
-         AND role = 'user'
-         AND created_at >= $2
-       ORDER BY created_at DESC
-       LIMIT 200`,
-      [toAgentId, since]
-    );
-
-    const incomingHash = computeMessageHash(toAgentId, content);
-
-    for (const row of rows) {
-      const existingHash = computeMessageHash(toAgentId, row.content);
-      if (existingHash === incomingHash) return true;
-    }
+  const verdict = await getRoutingDedupService().peek({ fromAgentId, toAgentId, content });
+  return verdict.isDuplicate;
+}
 
-    return false;
-  } catch (err: any) {
-    // On DB error, allow delivery — fail open to avoid blocking agents.
-    console.warn(`[MessageDedup] DB check failed, allowing delivery: ${err?.message}`);
-    return false;
+/**
+ * Check and record in one step — returns true if the message is a duplicate;
+ * otherwise records it, so the caller must deliver it.
+ */
+export async function checkAndRecordMessage(
+  toAgentId: string,
+  content: string,
+  fromAgentId: string = "external"
+): Promise<boolean> {
+  const verdict = await getRoutingDedupService().check({ fromAgentId, toAgentId, content });
+  if (verdict.isDuplicate) {
+    log.warn("Dropping duplicate message", { from: fromAgentId, to: toAgentId, reason: verdict.reason });
   }
+  return verdict.isDuplicate;
 }
@@ -0,0 +1,156 @@
+/**
+ * logger.ts
+ *
+ * Structured logger for the routing guards. Replaces the ad-hoc console calls
+ * with free-text prefixes ("[dedup]", "[stopped-agent-guard]", …): every line
+ * is a LogRecord with a level, a component and machine-readable fields, and
+ * goes to one swappable sink.
+ *
+ *  - consoleSink("text") — default; keeps the familiar `[component] message`
+ *    line, fields appended as key=value
+ *  - consoleSink("json") — one JSON object per line (LOG_FORMAT=json)
+ *  - MemoryLogSink      — collects records so tests can assert on them
+ *
+ * getLogger() returns a cheap handle that resolves the sink at call time, so
+ * modules create their logger at import and setLogSink() still applies.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  timeMs: number;
+  level: LogLevel;
+  /** Subsystem, e.g. "dedup", "mailbox", "stopped-agent-guard". */
+  component: string;
+  message: string;
+  fields: LogFields;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// ---------------------------------------------------------------------------
+// Sinks
+// ---------------------------------------------------------------------------
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") return /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+  return JSON.stringify(value) ?? String(value);
+}
+
+export function formatLogRecordText(record: LogRecord): string {
+  const fields = Object.entries(record.fields)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${formatValue(v)}`);
+  return `[${record.component}] ${record.message}${fields.length > 0 ? ` ${fields.join(" ")}` : ""}`;
+}
+
+/** Writes to console.log/warn/error by level. Records below `minLevel` are dropped. */
+export function consoleSink(format: "text" | "json" = "text", minLevel: LogLevel = "info"): LogSink {
+  return (record) => {
+    if (LEVEL_RANK[record.level] < LEVEL_RANK[minLevel]) return;
+    const line =
+      format === "json"
+        ? JSON.stringify({
+            time: new Date(record.timeMs).toISOString(),
+            level: record.level,
+            component: record.component,
+            msg: record.message,
+            ...record.fields,
+          })
+        : formatLogRecordText(record);
+    if (record.level === "error") console.error(line);
+    else if (record.level === "warn") console.warn(line);
+    else console.log(line);
+  };
+}
+
+/** Keeps every record in memory. For tests. */
+export class MemoryLogSink {
+  readonly records: LogRecord[] = [];
+  readonly sink: LogSink = (record) => {
+    this.records.push(record);
+  };
+
+  find(filter: { component?: string; level?: LogLevel; message?: string | RegExp } = {}): LogRecord[] {
+    return this.records.filter(
+      (r) =>
+        (filter.component === undefined || r.component === filter.component) &&
+        (filter.level === undefined || r.level === filter.level) &&
+        (filter.message === undefined ||
+          (typeof filter.message === "string" ? r.message.includes(filter.message) : filter.message.test(r.message)))
+    );
+  }
+
+  clear(): void {
+    this.records.length = 0;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Logger
+// ---------------------------------------------------------------------------
+
+let _sink: LogSink = consoleSink(process.env.LOG_FORMAT === "json" ? "json" : "text");
+let _now: () => number = Date.now;
+
+/** Replaces the process-wide sink; returns the previous one so tests can restore it. */
+export function setLogSink(sink: LogSink): LogSink {
+  const previous = _sink;
+  _sink = sink;
+  return previous;
+}
+
+/** Clock for record timestamps (fake clocks in tests). */
+export function setLogClock(now: () => number): void {
+  _now = now;
+}
+
+export class Logger {
+  constructor(readonly component: string, private readonly baseFields: LogFields = {}) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  /** Same component, extra fields on every record. */
+  child(fields: LogFields): Logger {
+    return new Logger(this.component, { ...this.baseFields, ...fields });
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    try {
+      _sink({ timeMs: _now(), level, component: this.component, message, fields: { ...this.baseFields, ...fields } });
+    } catch {
+      // Logging must never break routing
+    }
+  }
+}
+
+export function getLogger(component: string): Logger {
+  return new Logger(component);
+}
+
+/** `error` field value for a caught exception. */
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
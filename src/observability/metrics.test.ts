@@ -0,0 +1,102 @@
+/**
+ * metrics.test.ts
+ *
+ * Registry semantics and the Prometheus text format.
+ */
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MetricsRegistry } from "./metrics.js";
+
+test("counters, gauges and histograms read back through value()", () => {
+  const registry = new MetricsRegistry();
+  const sends = registry.counter({ name: "sends_total", help: "Sends.", labelNames: ["result"] });
+  sends.inc({ result: "ok" });
+  sends.inc({ result: "ok" }, 2);
+  registry.gauge({ name: "queue_depth", help: "Depth." }).set({}, 7);
+  const latency = registry.histogram({ name: "latency_seconds", help: "Latency.", buckets: [0.1, 1] });
+  latency.observe({}, 0.05);
+  latency.observe({}, 0.5);
+  latency.observe({}, 3);
+
+  assert.equal(registry.value("sends_total", { result: "ok" }), 3);
+  assert.equal(registry.value("sends_total", { result: "error" }), 0);
+  assert.equal(registry.value("queue_depth"), 7);
+  assert.equal(registry.value("latency_seconds"), 3);
+  assert.deepEqual(registry.histogramValue("latency_seconds")?.buckets, [
+    { le: 0.1, count: 1 },
+    { le: 1, count: 2 },
+    { le: Infinity, count: 3 },
+  ]);
+  assert.equal(registry.value("unknown_total"), undefined);
+});
+
+test("get-or-create returns the same handle and rejects a conflicting registration", () => {
+  const registry = new MetricsRegistry();
+  const first = registry.counter({ name: "checks_total", help: "Checks.", labelNames: ["decision"] });
+  assert.equal(registry.counter({ name: "checks_total", help: "Checks.", labelNames: ["decision"] }), first);
+  assert.throws(() => registry.gauge({ name: "checks_total", help: "Checks." }), /already registered as a counter/);
+  assert.throws(() => registry.counter({ name: "checks_total", help: "Checks.", labelNames: ["route"] }), /with labels \{decision\}/);
+});
+
+test("rejects bad names, wrong label sets and negative increments", () => {
+  const registry = new MetricsRegistry();
+  assert.throws(() => registry.counter({ name: "bad-name", help: "" }), /invalid metric name/);
+  assert.throws(() => registry.histogram({ name: "h", help: "", labelNames: ["le"] }), /invalid label "le"/);
+  const counter = registry.counter({ name: "c_total", help: "", labelNames: ["kind"] });
+  assert.throws(() => counter.inc({}), /expects labels \{kind\}, got \{\}/);
+  assert.throws(() => counter.inc({ kind: "a" }, -1), /only go up/);
+});
+
+test("renders Prometheus text, sorted by name, with escaped labels", () => {
+  const registry = new MetricsRegistry();
+  registry.counter({ name: "z_total", help: "Last.\nSecond line." }).inc();
+  registry.counter({ name: "a_total", help: "First.", labelNames: ["path"] }).inc({ path: 'say "hi"\\' });
+  registry.histogram({ name: "m_seconds", help: "Middle.", buckets: [1] }).observe({}, 0.5);
+
+  assert.equal(
+    registry.renderPrometheus(),
+    [
+      "# HELP a_total First.",
+      "# TYPE a_total counter",
+      'a_total{path="say \\"hi\\"\\\\"} 1',
+      "# HELP m_seconds Middle.",
+      "# TYPE m_seconds histogram",
+      'm_seconds_bucket{le="1"} 1',
+      'm_seconds_bucket{le="+Inf"} 1',
+      "m_seconds_sum 0.5",
+      "m_seconds_count 1",
+      "# HELP z_total Last.\\nSecond line.",
+      "# TYPE z_total counter",
+      "z_total 1",
+      "",
+    ].join("\n")
+  );
+});
+
+test("collectors refresh gauges before each read, and a failing one is skipped", () => {
+  const registry = new MetricsRegistry();
+  const size = registry.gauge({ name: "cache_entries", help: "Entries." });
+  let entries = 1;
+  const unregister = registry.addCollector(() => size.set({}, entries));
+  registry.addCollector(() => {
+    throw new Error("source unavailable");
+  });
+
+  assert.equal(registry.value("cache_entries"), 1);
+  entries = 5;
+  assert.match(registry.renderPrometheus(), /^cache_entries 5$/m);
+  unregister();
+  entries = 9;
+  assert.equal(registry.value("cache_entries"), 5);
+});
+
+test("reset zeroes every series but keeps registrations", () => {
+  const registry = new MetricsRegistry();
+  const counter = registry.counter({ name: "c_total", help: "" });
+  counter.inc();
+  registry.reset();
+  assert.equal(registry.value("c_total"), 0);
+  counter.inc();
+  assert.equal(registry.value("c_total"), 1);
+});
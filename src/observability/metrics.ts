@@ -0,0 +1,297 @@
+/**
+ * metrics.ts
+ *
+ * Minimal in-process metrics registry: labelled counters, gauges and
+ * histograms with Prometheus text exposition (format 0.0.4). No client
+ * library — the backend only needs renderPrometheus() behind a GET /metrics
+ * route, and tests read values back with value()/histogramValue() instead of
+ * parsing the text.
+ *
+ * Metrics are get-or-create by name, so every module can ask the registry for
+ * the handle it needs (routing-metrics.ts) without an init order. Asking for an
+ * existing name with a different type or label set throws.
+ *
+ * Collectors run before each render and refresh gauges whose source of truth
+ * lives elsewhere (e.g. L1 cache size).
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type Labels = Record<string, string>;
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+export interface MetricOptions {
+  /** Prometheus name: [a-zA-Z_:][a-zA-Z0-9_:]* */
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds, ascending; +Inf is implicit. */
+  buckets?: number[];
+}
+
+export interface HistogramValue {
+  count: number;
+  sum: number;
+  /** Cumulative count per upper bound (le), +Inf last. */
+  buckets: { le: number; count: number }[];
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Seconds; tuned for DB round-trips. */
+export const DEFAULT_LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+abstract class Metric<V> {
+  protected readonly values = new Map<string, { labels: Labels; value: V }>();
+  readonly labelNames: string[];
+
+  constructor(readonly type: MetricType, readonly name: string, readonly help: string, labelNames: string[] = []) {
+    if (!NAME_PATTERN.test(name)) throw new Error(`invalid metric name "${name}"`);
+    for (const label of labelNames) {
+      if (!LABEL_PATTERN.test(label) || label === "le") throw new Error(`invalid label "${label}" on ${name}`);
+    }
+    this.labelNames = [...labelNames].sort();
+  }
+
+  /** Stable series key; throws unless `labels` has exactly the declared names. */
+  protected keyOf(labels: Labels): string {
+    const names = Object.keys(labels).sort();
+    if (names.length !== this.labelNames.length || names.some((n, i) => n !== this.labelNames[i])) {
+      throw new Error(`${this.name} expects labels {${this.labelNames.join(", ")}}, got {${names.join(", ")}}`);
+    }
+    return names.map((n) => `${n}=${labels[n]}`).join(",");
+  }
+
+  protected slot(labels: Labels, initial: () => V): { labels: Labels; value: V } {
+    const key = this.keyOf(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: initial() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+
+  series(): { labels: Labels; value: V }[] {
+    return [...this.values.values()];
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Counter extends Metric<number> {
+  constructor(options: MetricOptions) {
+    super("counter", options.name, options.help, options.labelNames);
+  }
+
+  inc(labels: Labels = {}, by = 1): void {
+    if (!(by >= 0)) throw new Error(`${this.name}: counters only go up (got ${by})`);
+    this.slot(labels, () => 0).value += by;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.keyOf(labels))?.value ?? 0;
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(options: MetricOptions) {
+    super("gauge", options.name, options.help, options.labelNames);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.slot(labels, () => 0).value = value;
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(this.keyOf(labels))?.value;
+  }
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  readonly buckets: number[];
+
+  constructor(options: HistogramOptions) {
+    super("histogram", options.name, options.help, options.labelNames);
+    this.buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.slot(labels, () => ({
+      count: 0,
+      sum: 0,
+      buckets: [...this.buckets, Infinity].map((le) => ({ le, count: 0 })),
+    }));
+    entry.value.count++;
+    entry.value.sum += value;
+    for (const bucket of entry.value.buckets) if (value <= bucket.le) bucket.count++;
+  }
+
+  /** Times `fn` in seconds, recording failures too. */
+  async time<T>(labels: Labels, fn: () => Promise<T>, now: () => number = Date.now): Promise<T> {
+    const startedMs = now();
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, (now() - startedMs) / 1000);
+    }
+  }
+
+  get(labels: Labels = {}): HistogramValue | undefined {
+    const value = this.values.get(this.keyOf(labels))?.value;
+    return value && { ...value, buckets: value.buckets.map((b) => ({ ...b })) };
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, AnyMetric>();
+  private readonly collectors = new Set<() => void>();
+
+  counter(options: MetricOptions): Counter {
+    return this.getOrCreate(options, "counter", () => new Counter(options)) as Counter;
+  }
+
+  gauge(options: MetricOptions): Gauge {
+    return this.getOrCreate(options, "gauge", () => new Gauge(options)) as Gauge;
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.getOrCreate(options, "histogram", () => new Histogram(options)) as Histogram;
+  }
+
+  /** Runs before every render/value read. Returns an unregister function. */
+  addCollector(collect: () => void): () => void {
+    this.collectors.add(collect);
+    return () => {
+      this.collectors.delete(collect);
+    };
+  }
+
+  /**
+   * Current value of one series, for assertions: counters default to 0,
+   * histograms report their observation count. undefined for unknown names
+   * and unset gauges.
+   */
+  value(name: string, labels: Labels = {}): number | undefined {
+    this.collect();
+    const metric = this.metrics.get(name);
+    if (!metric) return undefined;
+    if (metric instanceof Histogram) return metric.get(labels)?.count ?? 0;
+    return metric.get(labels);
+  }
+
+  histogramValue(name: string, labels: Labels = {}): HistogramValue | undefined {
+    const metric = this.metrics.get(name);
+    return metric instanceof Histogram ? metric.get(labels) : undefined;
+  }
+
+  /** Zeroes every series; registrations and collectors stay. For tests. */
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  renderPrometheus(): string {
+    this.collect();
+    const lines: string[] = [];
+    for (const metric of [...this.metrics.values()].sort((a, b) => a.name.localeCompare(b.name))) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      if (metric instanceof Histogram) {
+        for (const { labels, value } of metric.series()) {
+          for (const bucket of value.buckets) {
+            lines.push(`${metric.name}_bucket${formatLabels({ ...labels, le: formatNumber(bucket.le) })} ${bucket.count}`);
+          }
+          lines.push(`${metric.name}_sum${formatLabels(labels)} ${formatNumber(value.sum)}`);
+          lines.push(`${metric.name}_count${formatLabels(labels)} ${value.count}`);
+        }
+      } else {
+        for (const { labels, value } of (metric as Counter | Gauge).series()) {
+          lines.push(`${metric.name}${formatLabels(labels)} ${formatNumber(value)}`);
+        }
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  private collect(): void {
+    for (const collect of this.collectors) {
+      try {
+        collect();
+      } catch {
+        // A broken collector must not take the scrape down with it
+      }
+    }
+  }
+
+  private getOrCreate(options: MetricOptions, type: MetricType, create: () => AnyMetric): AnyMetric {
+    const existing = this.metrics.get(options.name);
+    if (!existing) {
+      const metric = create();
+      this.metrics.set(options.name, metric);
+      return metric;
+    }
+    const labelNames = [...(options.labelNames ?? [])].sort();
+    if (existing.type !== type || existing.labelNames.join(",") !== labelNames.join(",")) {
+      throw new Error(`metric ${options.name} is already registered as a ${existing.type} with labels {${existing.labelNames.join(", ")}}`);
+    }
+    return existing;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Exposition helpers
+// ---------------------------------------------------------------------------
+
+function escapeHelp(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const names = Object.keys(labels).sort((a, b) => (a === "le" ? 1 : b === "le" ? -1 : a.localeCompare(b)));
+  if (names.length === 0) return "";
+  const escape = (v: string) => v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+  return `{${names.map((n) => `${n}="${escape(labels[n])}"`).join(",")}}`;
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return Number.isNaN(value) ? "NaN" : String(value);
+}
+
+// ---------------------------------------------------------------------------
+// Process-wide registry
+// ---------------------------------------------------------------------------
+
+let _registry: MetricsRegistry | null = null;
+
+/** Swap in a fresh registry (tests) or a shared one. */
+export function registerMetricsRegistry(registry: MetricsRegistry): void {
+  _registry = registry;
+}
+
+export function getMetricsRegistry(): MetricsRegistry {
+  if (!_registry) _registry = new MetricsRegistry();
+  return _registry;
+}
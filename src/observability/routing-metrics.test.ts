@@ -0,0 +1,142 @@
+/**
+ * routing-metrics.test.ts
+ *
+ * What the routing guards record, read back from a fresh registry per test:
+ * dedup decisions, L1 lookups and gauges, store latency, fail-open,
+ * stopped-agent blocks and maintenance reports.
+ */
+
+import assert from "node:assert/strict";
+import { beforeEach, test } from "node:test";
+import { RoutingDedupService } from "../dedup/routing-dedup-service.js";
+import { DedupRecord } from "../dedup/store.js";
+import { MemoryDedupStore } from "../dedup/stores/memory-store.js";
+import { filterDispatchableAgents, guardedStartAgent } from "../scheduler/stopped-agent-guard.js";
+import { MemoryLogSink, setLogSink } from "./logger.js";
+import { MetricsRegistry, registerMetricsRegistry } from "./metrics.js";
+import { collectL1Metrics, recordMaintenanceReport, recordStoppedAgentBlock } from "./routing-metrics.js";
+
+setLogSink(new MemoryLogSink().sink);
+
+const T0 = 1_700_000_000_000;
+const MESSAGE = { fromAgentId: "jin", toAgentId: "mina", content: "Deploy finished, logs attached" };
+
+let registry: MetricsRegistry;
+
+beforeEach(() => {
+  registry = new MetricsRegistry();
+  registerMetricsRegistry(registry);
+});
+
+/** A store that is down for every call. */
+class DownStore extends MemoryDedupStore {
+  override async insertOrRefreshExpired(_record: DedupRecord): Promise<boolean> {
+    throw new Error("connection refused");
+  }
+}
+
+function service(store = new MemoryDedupStore(), config: ConstructorParameters<typeof RoutingDedupService>[1] = {}): RoutingDedupService {
+  return new RoutingDedupService(store, config, { now: () => T0 });
+}
+
+test("counts dedup checks by decision, L1 lookups and store checks", async () => {
+  const store = new MemoryDedupStore();
+  const first = service(store);
+  await first.check({ ...MESSAGE, messageId: "m1" });
+  await first.check({ ...MESSAGE, messageId: "m2" });
+  // Same table, empty L1 — a restarted process
+  await service(store).check({ ...MESSAGE, messageId: "m3" });
+
+  assert.equal(registry.value("routing_dedup_checks_total", { decision: "allowed" }), 1);
+  assert.equal(registry.value("routing_dedup_checks_total", { decision: "dropped-l1" }), 1);
+  assert.equal(registry.value("routing_dedup_checks_total", { decision: "dropped-db" }), 1);
+  assert.equal(registry.value("routing_dedup_l1_lookups_total", { result: "hit" }), 1);
+  assert.equal(registry.value("routing_dedup_l1_lookups_total", { result: "miss" }), 2);
+  // The L1 hit never reached the store
+  assert.equal(registry.value("routing_dedup_db_seconds", { op: "check" }), 2);
+  assert.equal(registry.value("routing_dedup_fail_open_total"), 0);
+});
+
+test("counts a check delivered unguarded while the store is down", async () => {
+  const result = await service(new DownStore()).check({ ...MESSAGE, messageId: "m1" });
+  assert.equal(result.source, "fail-open");
+  assert.equal(registry.value("routing_dedup_checks_total", { decision: "fail-open" }), 1);
+  assert.equal(registry.value("routing_dedup_fail_open_total"), 1);
+
+  const closed = await service(new DownStore(), { failurePolicy: { defaultMode: "fail-closed" } }).check({ ...MESSAGE, messageId: "m2" });
+  assert.equal(closed.source, "fail-closed");
+  assert.equal(registry.value("routing_dedup_checks_total", { decision: "dropped-fail-closed" }), 1);
+  assert.equal(registry.value("routing_dedup_fail_open_total"), 1);
+});
+
+test("refreshes the L1 gauges from the service at scrape time", async () => {
+  const dedup = service();
+  const unregister = collectL1Metrics(dedup, registry);
+  await dedup.check({ ...MESSAGE, messageId: "m1" });
+  await dedup.check({ ...MESSAGE, messageId: "m2" });
+
+  assert.equal(registry.value("routing_dedup_l1_entries"), 1);
+  assert.equal(registry.value("routing_dedup_l1_hit_ratio"), 0.5);
+  unregister();
+});
+
+test("counts stopped-agent blocks by guard", async () => {
+  const agents = [
+    { id: "a1", name: "jin", role: "engineer", status: "idle" as const },
+    { id: "a2", name: "mina", role: "engineer", status: "stopped" as const },
+    { id: "a3", name: "ravi", role: "reviewer", status: "paused" as const },
+  ];
+  assert.deepEqual(filterDispatchableAgents(agents).map((a) => a.id), ["a1"]);
+
+  let started = 0;
+  await assert.rejects(
+    guardedStartAgent("a3", async (id) => agents.find((a) => a.id === id), async () => {
+      started++;
+    })
+  );
+  assert.equal(started, 0);
+  recordStoppedAgentBlock("reconcile", 0);
+
+  assert.equal(registry.value("stopped_agent_blocks_total", { guard: "dispatch" }), 2);
+  assert.equal(registry.value("stopped_agent_blocks_total", { guard: "start" }), 1);
+  assert.equal(registry.value("stopped_agent_blocks_total", { guard: "reconcile" }), 0);
+});
+
+test("records maintenance reports", () => {
+  const report = {
+    startedAtMs: T0,
+    durationMs: 250,
+    prunedRows: 40,
+    evictedRows: 5,
+    batches: 2,
+    truncated: false,
+    l1Compacted: 3,
+    l1Size: 10,
+    tableRows: 1_000,
+    tableBytes: null,
+    error: null,
+  };
+  recordMaintenanceReport(report);
+  recordMaintenanceReport({ ...report, prunedRows: 0, evictedRows: 0, tableRows: null, error: "statement timeout" });
+
+  assert.equal(registry.value("dedup_maintenance_runs_total", { result: "ok" }), 1);
+  assert.equal(registry.value("dedup_maintenance_runs_total", { result: "error" }), 1);
+  assert.equal(registry.value("dedup_maintenance_rows_removed_total", { reason: "expired" }), 40);
+  assert.equal(registry.value("dedup_maintenance_rows_removed_total", { reason: "budget" }), 5);
+  assert.equal(registry.histogramValue("dedup_maintenance_duration_seconds")?.sum, 0.5);
+  // A failed stats query keeps the last known row count; bytes were never known
+  assert.equal(registry.value("dedup_table_rows"), 1_000);
+  assert.equal(registry.value("dedup_table_bytes"), undefined);
+});
+
+test("exposes the routing metrics as Prometheus text", async () => {
+  await service().check({ ...MESSAGE, messageId: "m1" });
+  const text = registry.renderPrometheus();
+
+  assert.match(text, /^# TYPE routing_dedup_checks_total counter$/m);
+  assert.match(text, /^routing_dedup_checks_total\{decision="allowed"\} 1$/m);
+  assert.match(text, /^routing_dedup_l1_lookups_total\{result="miss"\} 1$/m);
+  assert.match(text, /^# TYPE routing_dedup_db_seconds histogram$/m);
+  assert.match(text, /^routing_dedup_db_seconds_bucket\{op="check",le="\+Inf"\} 1$/m);
+  assert.match(text, /^routing_dedup_db_seconds_count\{op="check"\} 1$/m);
+});
@@ -0,0 +1,121 @@
+/**
+ * routing-metrics.ts
+ *
+ * The metrics the routing guards record, in one place so names, help text
+ * and labels stay consistent across modules:
+ *
+ *   routing_dedup_checks_total{decision}        every RoutingDedupService.check
+ *   routing_dedup_l1_lookups_total{result}      L1 hit / miss
+ *   routing_dedup_l1_hit_ratio, _l1_entries     from l1Stats() at scrape time
+ *   routing_dedup_db_seconds{op}                store latency (check, warm)
+ *   routing_dedup_fail_open_total               checks delivered unguarded
+ *   stopped_agent_blocks_total{guard}           dispatch / start / reconcile / route
+ *   agent_reconcile_resets_total                stale agents reset to idle
+ *   dedup_maintenance_*  , dedup_table_*        DedupMaintenanceJob reports
+ *
+ * Handles resolve against getMetricsRegistry() on every call, so a test that
+ * registers a fresh registry sees only its own values.
+ */
+
+import type { DedupDecision } from "../dedup/audit-log.js";
+import type { RoutingDedupService } from "../dedup/routing-dedup-service.js";
+import type { DedupMaintenanceReport } from "../scheduler/dedup-maintenance.js";
+import { MetricsRegistry, getMetricsRegistry } from "./metrics.js";
+
+export type StoppedAgentGuard = "dispatch" | "start" | "reconcile" | "route";
+
+export function routingMetrics(registry: MetricsRegistry = getMetricsRegistry()) {
+  return {
+    dedupChecks: registry.counter({
+      name: "routing_dedup_checks_total",
+      help: "Routing dedup checks by decision.",
+      labelNames: ["decision"],
+    }),
+    l1Lookups: registry.counter({
+      name: "routing_dedup_l1_lookups_total",
+      help: "Routing dedup L1 cache lookups by result (hit, miss).",
+      labelNames: ["result"],
+    }),
+    l1HitRatio: registry.gauge({
+      name: "routing_dedup_l1_hit_ratio",
+      help: "L1 cache hits / lookups since process start.",
+    }),
+    l1Entries: registry.gauge({
+      name: "routing_dedup_l1_entries",
+      help: "Keys currently held in the L1 cache.",
+    }),
+    dbSeconds: registry.histogram({
+      name: "routing_dedup_db_seconds",
+      help: "Dedup store latency in seconds by operation.",
+      labelNames: ["op"],
+    }),
+    failOpen: registry.counter({
+      name: "routing_dedup_fail_open_total",
+      help: "Messages delivered without a persistent dedup check because the store was unavailable.",
+    }),
+    stoppedAgentBlocks: registry.counter({
+      name: "stopped_agent_blocks_total",
+      help: "Actions the stopped-agent guards blocked, by guard.",
+      labelNames: ["guard"],
+    }),
+    reconcileResets: registry.counter({
+      name: "agent_reconcile_resets_total",
+      help: "Stale thinking/executing agents reset to idle by the startup reconcile.",
+    }),
+    maintenanceRuns: registry.counter({
+      name: "dedup_maintenance_runs_total",
+      help: "Dedup maintenance runs by result (ok, error).",
+      labelNames: ["result"],
+    }),
+    maintenanceRowsRemoved: registry.counter({
+      name: "dedup_maintenance_rows_removed_total",
+      help: "message_dedup rows removed by maintenance, by reason (expired, budget).",
+      labelNames: ["reason"],
+    }),
+    maintenanceSeconds: registry.histogram({
+      name: "dedup_maintenance_duration_seconds",
+      help: "Dedup maintenance run duration in seconds.",
+      buckets: [0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30, 60],
+    }),
+    tableRows: registry.gauge({
+      name: "dedup_table_rows",
+      help: "message_dedup row count after the last maintenance run.",
+    }),
+    tableBytes: registry.gauge({
+      name: "dedup_table_bytes",
+      help: "message_dedup on-disk size after the last maintenance run (Postgres only).",
+    }),
+  };
+}
+
+export function recordDedupDecision(decision: DedupDecision): void {
+  const metrics = routingMetrics();
+  metrics.dedupChecks.inc({ decision });
+  if (decision === "fail-open") metrics.failOpen.inc();
+}
+
+export function recordStoppedAgentBlock(guard: StoppedAgentGuard, count = 1): void {
+  if (count > 0) routingMetrics().stoppedAgentBlocks.inc({ guard }, count);
+}
+
+/** DedupMaintenanceJob onReport adapter. */
+export function recordMaintenanceReport(report: DedupMaintenanceReport): void {
+  const metrics = routingMetrics();
+  metrics.maintenanceRuns.inc({ result: report.error ? "error" : "ok" });
+  metrics.maintenanceRowsRemoved.inc({ reason: "expired" }, report.prunedRows);
+  metrics.maintenanceRowsRemoved.inc({ reason: "budget" }, report.evictedRows);
+  metrics.maintenanceSeconds.observe({}, report.durationMs / 1000);
+  if (report.tableRows !== null) metrics.tableRows.set({}, report.tableRows);
+  if (report.tableBytes !== null) metrics.tableBytes.set({}, report.tableBytes);
+}
+
+/** Refreshes the L1 gauges from `service` at scrape time. Returns an unregister function. */
+export function collectL1Metrics(service: RoutingDedupService, registry: MetricsRegistry = getMetricsRegistry()): () => void {
+  return registry.addCollector(() => {
+    const stats = service.l1Stats();
+    const metrics = routingMetrics(registry);
+    const lookups = stats.hits + stats.misses;
+    metrics.l1Entries.set({}, stats.size);
+    metrics.l1HitRatio.set({}, lookups === 0 ? 0 : stats.hits / lookups);
+  });
+}
@@ -0,0 +1,227 @@
+/**
+ * bundle-patcher.test.ts
+ *
+ * Patch, verify and revert on a small fixture bundle in a temp directory,
+ * including a bundle the old string-replace patch.js already touched.
+ */
+
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { existsSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TestContext, test } from "node:test";
+import {
+  BundlePatch,
+  BundlePatchError,
+  applyPatches,
+  applyToFile,
+  backupPath,
+  manifestPath,
+  planPatches,
+  readManifest,
+  revertFile,
+  verifyFile,
+} from "./bundle-patcher.js";
+
+const FIXTURE = `const routedEventCache = new Map();
+function shouldRouteMessage(from, to, content) {
+  const dedupKey = from + "->" + to + ":" + content;
+  if (routedEventCache.has(dedupKey)) return false;
+  routedEventCache.set(dedupKey, Date.now());
+  return true;
+}
+async function initSchema(db) {
+  await db.query("CREATE TABLE IF NOT EXISTS agents (id TEXT PRIMARY KEY)");
+}
+const ensureAgentStarted = async (id) => {
+  startAgent(id);
+  if (isStale(id)) startAgent(id);
+};
+`;
+
+const CACHE_SET = `  routedEventCache.set(dedupKey, Date.now());\n`;
+const DEDUP_TABLE = `  await db.query("CREATE TABLE IF NOT EXISTS message_dedup (dedup_key TEXT PRIMARY KEY)");`;
+
+// What an older string-replace patch wrote for the first two patches
+const LEGACY_ROUTE = `${CACHE_SET}  if (seenInDbSync(dedupKey)) return false;\n`;
+const LEGACY_INDEX = `  await db.query("CREATE INDEX IF NOT EXISTS idx_seen ON message_dedup(seen_at_ms)");\n`;
+
+const PATCHES: BundlePatch[] = [
+  {
+    id: "route-db-dedup",
+    version: 1,
+    description: "check the DB before routing",
+    target: "shouldRouteMessage",
+    edits: [
+      { kind: "make-async" },
+      { kind: "replace", find: CACHE_SET, replace: `${CACHE_SET}  if (await seenInDb(dedupKey)) return false;\n`, legacy: [LEGACY_ROUTE] },
+    ],
+  },
+  {
+    id: "init-dedup-table",
+    version: 1,
+    description: "create the dedup table",
+    target: "initSchema",
+    edits: [{ kind: "append-body", code: DEDUP_TABLE, legacy: [LEGACY_INDEX] }],
+  },
+  {
+    id: "await-start",
+    version: 1,
+    description: "await agent starts",
+    target: "ensureAgentStarted",
+    edits: [{ kind: "await-calls", callee: "startAgent" }],
+  },
+];
+
+/** Writes `source` as index.js in a fresh temp dir, removed after the test. */
+function bundle(t: TestContext, source = FIXTURE): string {
+  const dir = mkdtempSync(join(tmpdir(), "bundle-patcher-"));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const target = join(dir, "index.js");
+  writeFileSync(target, source);
+  return target;
+}
+
+test("plans every patch against the fixture without changing it", () => {
+  const plan = planPatches(FIXTURE, PATCHES);
+  assert.equal(plan.ok, true);
+  assert.deepEqual(plan.entries.map((e) => [e.patch.id, e.state, e.line]), [
+    ["route-db-dedup", "pending", 2],
+    ["init-dedup-table", "pending", 8],
+    ["await-start", "pending", 11],
+  ]);
+});
+
+test("a dry run writes nothing", (t) => {
+  const target = bundle(t);
+  const result = applyToFile(target, PATCHES, { dryRun: true });
+  assert.equal(result.status, "dry-run");
+  assert.equal(readFileSync(target, "utf8"), FIXTURE);
+  assert.equal(existsSync(backupPath(target)), false);
+  assert.equal(existsSync(manifestPath(target)), false);
+});
+
+test("applies all patches with a backup and manifest, then verifies clean", (t) => {
+  const target = bundle(t);
+  const result = applyToFile(target, PATCHES);
+  assert.equal(result.status, "applied");
+
+  const patched = readFileSync(target, "utf8");
+  assert.match(patched, /async function shouldRouteMessage/);
+  assert.match(patched, /if \(await seenInDb\(dedupKey\)\) return false;/);
+  assert.match(patched, /message_dedup \(dedup_key TEXT PRIMARY KEY\)"\);\n}/);
+  assert.equal(patched.match(/await startAgent\(id\)/g)?.length, 2);
+
+  assert.equal(readFileSync(backupPath(target), "utf8"), FIXTURE);
+  const manifest = readManifest(target);
+  assert.deepEqual(manifest?.patches, [
+    { id: "route-db-dedup", version: 1, state: "applied-now" },
+    { id: "init-dedup-table", version: 1, state: "applied-now" },
+    { id: "await-start", version: 1, state: "applied-now" },
+  ]);
+  assert.deepEqual(verifyFile(target, PATCHES), []);
+
+  // Idempotent
+  assert.equal(applyToFile(target, PATCHES).status, "unchanged");
+  assert.equal(readFileSync(target, "utf8"), patched);
+});
+
+test("one miss fails the whole run and writes nothing", (t) => {
+  const source = FIXTURE.replace("initSchema", "createSchema");
+  const target = bundle(t, source);
+  assert.throws(
+    () => applyToFile(target, PATCHES),
+    (err: unknown) =>
+      err instanceof BundlePatchError &&
+      err.entries.map((e) => e.patch.id).join() === "init-dedup-table" &&
+      /function initSchema not found/.test(err.message)
+  );
+  assert.equal(readFileSync(target, "utf8"), source);
+  assert.equal(existsSync(manifestPath(target)), false);
+});
+
+test("revert restores the original bundle and removes backup and manifest", (t) => {
+  const target = bundle(t);
+  applyToFile(target, PATCHES);
+  revertFile(target);
+  assert.equal(readFileSync(target, "utf8"), FIXTURE);
+  assert.equal(existsSync(backupPath(target)), false);
+  assert.equal(existsSync(manifestPath(target)), false);
+  assert.match(verifyFile(target, PATCHES).join("\n"), /no manifest/);
+  assert.throws(() => revertFile(target), /nothing to revert/);
+});
+
+test("verify and revert notice a bundle edited after patching", (t) => {
+  const target = bundle(t);
+  applyToFile(target, PATCHES);
+  writeFileSync(target, readFileSync(target, "utf8") + "// hand edit\n");
+
+  assert.deepEqual(verifyFile(target, PATCHES), ["bundle hash differs from the manifest — edited or rebuilt since patching"]);
+  assert.throws(() => applyToFile(target, PATCHES), /changed since it was patched/);
+  assert.throws(() => revertFile(target), /use --force/);
+  revertFile(target, { force: true });
+  assert.equal(readFileSync(target, "utf8"), FIXTURE);
+});
+
+test("a bumped patch version must be reverted before it is re-applied", (t) => {
+  const target = bundle(t);
+  applyToFile(target, PATCHES);
+  const bumped = PATCHES.map((p) => (p.id === "await-start" ? { ...p, version: 2 } : p));
+  assert.match(verifyFile(target, bumped).join("\n"), /manifest patch versions differ/);
+  assert.throws(() => applyToFile(target, bumped), /await-start@1 — run with --revert/);
+});
+
+test("upgrades a bundle patched by the old string-replace script to the same output", (t) => {
+  const legacy = FIXTURE.replace(CACHE_SET, LEGACY_ROUTE).replace(
+    `  await db.query("CREATE TABLE IF NOT EXISTS agents (id TEXT PRIMARY KEY)");\n`,
+    (line) => line + LEGACY_INDEX
+  );
+  const target = bundle(t, legacy);
+
+  assert.equal(applyToFile(target, PATCHES).status, "applied");
+  const upgraded = readFileSync(target, "utf8");
+  assert.equal(upgraded, applyPatches(FIXTURE, PATCHES).source);
+  assert.doesNotMatch(upgraded, /seenInDbSync|seen_at_ms/);
+  assert.deepEqual(verifyFile(target, PATCHES), []);
+
+  revertFile(target);
+  assert.equal(readFileSync(target, "utf8"), legacy);
+});
+
+test("refuses a partly patched bundle it cannot upgrade", (t) => {
+  const target = bundle(t);
+  applyToFile(target, PATCHES);
+  // Manifest lost and one target renamed: some patches present, one missing
+  const partial = readFileSync(target, "utf8").replace("ensureAgentStarted", "ensureStarted");
+  writeFileSync(target, partial);
+  unlinkSync(manifestPath(target));
+
+  assert.throws(() => applyToFile(target, PATCHES), /partly patched but has no manifest/);
+  assert.equal(readFileSync(target, "utf8"), partial);
+});
+
+test("names the manifest when it does not cover a partly patched bundle", (t) => {
+  const target = bundle(t);
+  applyToFile(target, PATCHES);
+  // A manifest left by a run over an already partly patched bundle, written
+  // for a patch set without the one now missing
+  const recorded = readManifest(target)!;
+  const partial = readFileSync(target, "utf8").replace("ensureAgentStarted", "ensureStarted");
+  writeFileSync(target, partial);
+  writeFileSync(
+    manifestPath(target),
+    JSON.stringify({
+      ...recorded,
+      originalSha256: createHash("sha256").update(partial).digest("hex"),
+      patches: recorded.patches.filter((p) => p.id !== "await-start"),
+    })
+  );
+
+  assert.throws(() => applyToFile(target, PATCHES), (err: Error) => {
+    assert.match(err.message, /partly patched and .*\.dedup-fix\.json does not cover the patches found in it/);
+    assert.doesNotMatch(err.message, /has no manifest/);
+    return true;
+  });
+  assert.equal(readFileSync(target, "utf8"), partial);
+});
@@ -0,0 +1,446 @@
+/**
+ * bundle-patcher.ts
+ *
+ * Patch engine behind patch.js, for as long as packages/backend/dist/index.js
+ * still has to be patched (integration/install.ts is the source-level route).
+ * The old applyPatch() ran String.replace on exact text over the whole
+ * bundle, exited on the first miss with earlier patches applied in memory,
+ * and wrote over the file with no backup. Here:
+ *
+ *  - each patch names a target function (ensureAgentStarted,
+ *    shouldRouteMessage, communicate, initSchema, …); it is located in the
+ *    acorn AST and every edit is confined to that function's source range
+ *  - planPatches() resolves all patches against the original source first;
+ *    a single miss fails the run and nothing is written
+ *  - the patched source is re-parsed and re-planned before it is written —
+ *    every patch must then report "applied"
+ *  - applyToFile() keeps a backup of the bundle it patched and a manifest of
+ *    the applied patch ids/versions next to it; verifyFile() and revertFile()
+ *    work from those two files
+ *  - `legacy` texts on an edit are what the old string-replace patch.js wrote
+ *    for the same patch; they are upgraded in place (replace) or removed
+ *    (append-body), so a bundle patched by the old script needs no rebuild
+ */
+
+import crypto from "crypto";
+import { existsSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import { parse } from "acorn";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PatchEdit =
+  /**
+   * Exact text inside the target function; `replace` present = applied.
+   * A `legacy` text found instead of `find` is replaced by `replace`.
+   */
+  | { kind: "replace"; find: string; replace: string; legacy?: string[] }
+  /**
+   * Code inserted before the closing brace of the function body. `legacy`
+   * texts found in the body are removed.
+   */
+  | { kind: "append-body"; code: string; legacy?: string[] }
+  /** Turns the target into an async function. */
+  | { kind: "make-async" }
+  /** Prefixes every un-awaited call to `callee` inside the target with await. */
+  | { kind: "await-calls"; callee: string };
+
+export interface BundlePatch {
+  /** Stable kebab-case id, recorded in the manifest. */
+  id: string;
+  /** Bump when the edits change; a bundle carrying an older version must be reverted first. */
+  version: number;
+  description: string;
+  /** Name of the function the patch edits. */
+  target: string;
+  edits: PatchEdit[];
+}
+
+export type PatchState = "pending" | "applied" | "miss";
+
+interface Splice {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface PatchPlanEntry {
+  patch: BundlePatch;
+  state: PatchState;
+  /** Why the patch missed; null otherwise. */
+  reason: string | null;
+  /** 1-based line of the target function; null if it was not found. */
+  line: number | null;
+  splices: Splice[];
+}
+
+export interface PatchPlan {
+  entries: PatchPlanEntry[];
+  /** No entry missed. */
+  ok: boolean;
+}
+
+export interface PatchManifest {
+  target: string;
+  backup: string;
+  /** sha256 of the bundle before this run — the backup's content. */
+  originalSha256: string;
+  /** sha256 of the bundle as written by this run. */
+  patchedSha256: string;
+  appliedAt: string;
+  patches: { id: string; version: number; state: "applied-now" | "already-present" }[];
+}
+
+export class BundlePatchError extends Error {
+  constructor(message: string, readonly entries: PatchPlanEntry[] = []) {
+    super(
+      entries.length === 0
+        ? message
+        : `${message}\n` + entries.map((e) => `  - ${e.patch.id}@${e.patch.version} (${e.patch.target}): ${e.reason}`).join("\n")
+    );
+    this.name = "BundlePatchError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// AST
+// ---------------------------------------------------------------------------
+
+interface AstNode {
+  type: string;
+  start: number;
+  end: number;
+  [key: string]: unknown;
+}
+
+const FUNCTION_TYPES = new Set(["FunctionDeclaration", "FunctionExpression", "ArrowFunctionExpression"]);
+
+function parseBundle(source: string): AstNode {
+  try {
+    return parse(source, {
+      ecmaVersion: "latest",
+      sourceType: "module",
+      allowHashBang: true,
+      allowAwaitOutsideFunction: true,
+    }) as unknown as AstNode;
+  } catch (err) {
+    throw new BundlePatchError(`bundle does not parse: ${(err as Error).message}`);
+  }
+}
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === "object" && value !== null && typeof (value as AstNode).type === "string";
+}
+
+/** Depth-first walk; `visit` receives each node with its ancestors (nearest last). */
+function walk(node: AstNode, visit: (node: AstNode, ancestors: AstNode[]) => void, ancestors: AstNode[] = []): void {
+  visit(node, ancestors);
+  const next = [...ancestors, node];
+  for (const key of Object.keys(node)) {
+    const value = node[key];
+    if (Array.isArray(value)) {
+      for (const child of value) if (isNode(child)) walk(child, visit, next);
+    } else if (isNode(value)) {
+      walk(value, visit, next);
+    }
+  }
+}
+
+/** Function nodes named `name`: declarations and `const name = function/arrow`. */
+function findFunctions(ast: AstNode, name: string): AstNode[] {
+  const found: AstNode[] = [];
+  walk(ast, (node) => {
+    if (node.type === "FunctionDeclaration" && (node.id as { name?: string } | null)?.name === name) {
+      found.push(node);
+    } else if (node.type === "VariableDeclarator" && (node.id as { name?: string }).name === name && isNode(node.init)) {
+      if (FUNCTION_TYPES.has(node.init.type)) found.push(node.init);
+    }
+  });
+  return found;
+}
+
+function lineOf(source: string, index: number): number {
+  let line = 1;
+  for (let i = source.indexOf("\n"); i !== -1 && i < index; i = source.indexOf("\n", i + 1)) line++;
+  return line;
+}
+
+function countOccurrences(text: string, needle: string): number {
+  let count = 0;
+  for (let i = text.indexOf(needle); i !== -1; i = text.indexOf(needle, i + needle.length)) count++;
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+type EditOutcome = { state: "applied" } | { state: "pending"; splices: Splice[] } | { state: "miss"; reason: string };
+
+/** Splices that remove (or, with `replacement`, upgrade) each legacy text found exactly once in the function. */
+function legacySplices(source: string, fn: AstNode, legacy: string[] | undefined, replacement = ""): Splice[] | { reason: string } {
+  const text = source.slice(fn.start, fn.end);
+  const splices: Splice[] = [];
+  for (const old of legacy ?? []) {
+    const count = countOccurrences(text, old);
+    if (count === 0) continue;
+    if (count > 1) return { reason: `legacy patch text matches ${count} times: ${JSON.stringify(old.trim().split("\n")[0])}` };
+    const start = fn.start + text.indexOf(old);
+    splices.push({ start, end: start + old.length, text: replacement });
+  }
+  return splices;
+}
+
+function planEdit(source: string, fn: AstNode, edit: PatchEdit): EditOutcome {
+  const text = source.slice(fn.start, fn.end);
+  switch (edit.kind) {
+    case "replace": {
+      if (text.includes(edit.replace)) return { state: "applied" };
+      const upgrade = legacySplices(source, fn, edit.legacy, edit.replace);
+      if (!Array.isArray(upgrade)) return { state: "miss", reason: upgrade.reason };
+      if (upgrade.length > 1) return { state: "miss", reason: "more than one legacy version of this patch is present" };
+      if (upgrade.length === 1) return { state: "pending", splices: upgrade };
+      const count = countOccurrences(text, edit.find);
+      if (count === 0) return { state: "miss", reason: `anchor not found: ${JSON.stringify(edit.find.split("\n")[0])}` };
+      if (count > 1) return { state: "miss", reason: `anchor matches ${count} times: ${JSON.stringify(edit.find.split("\n")[0])}` };
+      const start = fn.start + text.indexOf(edit.find);
+      return { state: "pending", splices: [{ start, end: start + edit.find.length, text: edit.replace }] };
+    }
+    case "append-body": {
+      const code = edit.code.trim();
+      const removals = legacySplices(source, fn, edit.legacy);
+      if (!Array.isArray(removals)) return { state: "miss", reason: removals.reason };
+      if (text.includes(code)) return removals.length === 0 ? { state: "applied" } : { state: "pending", splices: removals };
+      const body = fn.body as AstNode;
+      if (body.type !== "BlockStatement") return { state: "miss", reason: "target has no block body" };
+      const close = body.end - 1;
+      const lead = source[close - 1] === "\n" ? "" : "\n";
+      return {
+        state: "pending",
+        splices: [...removals, { start: close, end: close, text: `${lead}${edit.code.replace(/\n*$/, "\n")}` }],
+      };
+    }
+    case "make-async": {
+      if (fn.async) return { state: "applied" };
+      return { state: "pending", splices: [{ start: fn.start, end: fn.start, text: "async " }] };
+    }
+    case "await-calls": {
+      const splices: Splice[] = [];
+      let calls = 0;
+      let problem: string | null = null;
+      walk(fn.body as AstNode, (node, ancestors) => {
+        if (node.type !== "CallExpression" || (node.callee as { name?: string }).name !== edit.callee) return;
+        calls++;
+        if (ancestors[ancestors.length - 1]?.type === "AwaitExpression") return;
+        const enclosing = [fn, ...ancestors].filter((a) => FUNCTION_TYPES.has(a.type)).pop() as AstNode;
+        if (!enclosing.async) problem = `call to ${edit.callee} at line ${lineOf(source, node.start)} is inside a non-async function`;
+        splices.push({ start: node.start, end: node.start, text: "await " });
+      });
+      if (calls === 0) return { state: "miss", reason: `no call to ${edit.callee}` };
+      if (problem) return { state: "miss", reason: problem };
+      return splices.length === 0 ? { state: "applied" } : { state: "pending", splices };
+    }
+  }
+}
+
+function planOne(source: string, ast: AstNode, patch: BundlePatch): PatchPlanEntry {
+  const entry = (state: PatchState, reason: string | null, line: number | null, splices: Splice[] = []): PatchPlanEntry => ({
+    patch,
+    state,
+    reason,
+    line,
+    splices,
+  });
+
+  const fns = findFunctions(ast, patch.target);
+  if (fns.length === 0) return entry("miss", `function ${patch.target} not found`, null);
+  if (fns.length > 1) return entry("miss", `function ${patch.target} is defined ${fns.length} times`, null);
+  const fn = fns[0];
+  const line = lineOf(source, fn.start);
+
+  const splices: Splice[] = [];
+  for (const edit of patch.edits) {
+    const outcome = planEdit(source, fn, edit);
+    if (outcome.state === "miss") return entry("miss", outcome.reason, line);
+    if (outcome.state === "pending") splices.push(...outcome.splices);
+  }
+  return entry(splices.length === 0 ? "applied" : "pending", null, line, splices);
+}
+
+/** Resolves every patch against `source` without changing it. */
+export function planPatches(source: string, patches: BundlePatch[]): PatchPlan {
+  const ast = parseBundle(source);
+  const entries = patches.map((patch) => planOne(source, ast, patch));
+  return { entries, ok: entries.every((e) => e.state !== "miss") };
+}
+
+/**
+ * Applies all pending patches or none. Throws BundlePatchError on any miss,
+ * on overlapping edits, or if the result does not parse or does not report
+ * every patch as applied.
+ */
+export function applyPatches(source: string, patches: BundlePatch[]): { source: string; plan: PatchPlan } {
+  const plan = planPatches(source, patches);
+  if (!plan.ok) throw new BundlePatchError("patch plan has misses — nothing applied", plan.entries.filter((e) => e.state === "miss"));
+
+  const splices = plan.entries.flatMap((e) => e.splices).sort((a, b) => b.start - a.start || b.end - a.end);
+  for (let i = 1; i < splices.length; i++) {
+    if (splices[i].end > splices[i - 1].start) throw new BundlePatchError("patches overlap — nothing applied");
+  }
+  let patched = source;
+  for (const s of splices) patched = patched.slice(0, s.start) + s.text + patched.slice(s.end);
+
+  const check = planPatches(patched, patches);
+  const unapplied = check.entries.filter((e) => e.state !== "applied");
+  if (unapplied.length > 0) {
+    throw new BundlePatchError(
+      "patched bundle failed verification — nothing applied",
+      unapplied.map((e) => ({ ...e, reason: e.reason ?? "still pending after apply" }))
+    );
+  }
+  return { source: patched, plan };
+}
+
+export function formatPlan(plan: PatchPlan): string {
+  return plan.entries
+    .map((e) => {
+      const where = e.line === null ? e.patch.target : `${e.patch.target} @ line ${e.line}`;
+      const detail = e.state === "miss" ? `MISS — ${e.reason}` : e.state === "applied" ? "already applied" : `${e.splices.length} edit(s)`;
+      return `${e.patch.id}@${e.patch.version} (${e.patch.description}) [${where}]: ${detail}`;
+    })
+    .join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+export function backupPath(target: string): string {
+  return `${target}.dedup-fix.bak`;
+}
+
+export function manifestPath(target: string): string {
+  return `${target}.dedup-fix.json`;
+}
+
+function sha256(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+/** Write-then-rename so a crash never leaves a half-written file. */
+function writeAtomic(path: string, content: string): void {
+  const tmp = `${path}.tmp-${process.pid}`;
+  writeFileSync(tmp, content);
+  renameSync(tmp, path);
+}
+
+export function readManifest(target: string): PatchManifest | null {
+  const path = manifestPath(target);
+  return existsSync(path) ? (JSON.parse(readFileSync(path, "utf8")) as PatchManifest) : null;
+}
+
+function sameVersions(manifest: PatchManifest, patches: BundlePatch[]): boolean {
+  const recorded = new Map(manifest.patches.map((p) => [p.id, p.version]));
+  return recorded.size === patches.length && patches.every((p) => recorded.get(p.id) === p.version);
+}
+
+export type ApplyFileResult =
+  | { status: "dry-run"; plan: PatchPlan }
+  | { status: "unchanged"; plan: PatchPlan }
+  | { status: "applied"; plan: PatchPlan; manifest: PatchManifest };
+
+export function applyToFile(target: string, patches: BundlePatch[], opts: { dryRun?: boolean } = {}): ApplyFileResult {
+  const source = readFileSync(target, "utf8");
+  const manifest = readManifest(target);
+  const plan = planPatches(source, patches);
+
+  if (manifest) {
+    if (sha256(source) === manifest.patchedSha256) {
+      if (sameVersions(manifest, patches)) return { status: "unchanged", plan };
+      throw new BundlePatchError(
+        `bundle carries patch set ${manifest.patches.map((p) => `${p.id}@${p.version}`).join(", ")} — run with --revert, then re-apply`
+      );
+    }
+    // A rebuilt bundle has no patches left, and one still matching the backup
+    // was never written (the run stopped after the manifest); anything else
+    // was edited after patching
+    if (sha256(source) !== manifest.originalSha256 && plan.entries.some((e) => e.state === "applied")) {
+      throw new BundlePatchError(`bundle changed since it was patched (${manifestPath(target)} is out of date) — rebuild it or revert`);
+    }
+  }
+
+  if (opts.dryRun) return { status: "dry-run", plan };
+  if (!plan.ok && plan.entries.some((e) => e.state === "applied")) {
+    // Past the checks above, a manifest only survives when the bundle still
+    // matches its backup — and that backup was already partly patched
+    const why = manifest
+      ? `bundle is partly patched and ${manifestPath(target)} does not cover the patches found in it`
+      : "bundle is partly patched but has no manifest";
+    throw new BundlePatchError(
+      `${why} — another tool or an older patch.js changed it in a way this ` +
+        "version cannot upgrade. Rebuild packages/backend (or restore the unpatched bundle) and re-run",
+      plan.entries.filter((e) => e.state === "miss")
+    );
+  }
+
+  const { source: patched } = applyPatches(source, patches);
+  if (patched === source) return { status: "unchanged", plan };
+
+  const next: PatchManifest = {
+    target,
+    backup: backupPath(target),
+    originalSha256: sha256(source),
+    patchedSha256: sha256(patched),
+    appliedAt: new Date().toISOString(),
+    patches: plan.entries.map((e) => ({
+      id: e.patch.id,
+      version: e.patch.version,
+      state: e.state === "applied" ? "already-present" : "applied-now",
+    })),
+  };
+  // Manifest before the bundle: a crash in between leaves the original bundle
+  // next to its backup and manifest, which a re-run picks up — never a
+  // patched bundle that nothing records
+  writeAtomic(next.backup, source);
+  writeAtomic(manifestPath(target), JSON.stringify(next, null, 2) + "\n");
+  writeAtomic(target, patched);
+  return { status: "applied", plan, manifest: next };
+}
+
+/** Problems with the patched bundle; empty when every patch is applied and the manifest matches. */
+export function verifyFile(target: string, patches: BundlePatch[]): string[] {
+  const source = readFileSync(target, "utf8");
+  const problems = planPatches(source, patches)
+    .entries.filter((e) => e.state !== "applied")
+    .map((e) => `${e.patch.id}@${e.patch.version}: ${e.state === "miss" ? `MISS — ${e.reason}` : "not applied"}`);
+
+  const manifest = readManifest(target);
+  if (!manifest) {
+    problems.push(`no manifest at ${manifestPath(target)}`);
+  } else {
+    if (sha256(source) !== manifest.patchedSha256) problems.push("bundle hash differs from the manifest — edited or rebuilt since patching");
+    if (!sameVersions(manifest, patches)) problems.push("manifest patch versions differ from patch.js");
+    if (!existsSync(manifest.backup)) problems.push(`backup ${manifest.backup} is missing`);
+  }
+  return problems;
+}
+
+/** Restores the backup and removes backup + manifest. Refuses if the bundle changed since patching unless `force`. */
+export function revertFile(target: string, opts: { force?: boolean } = {}): PatchManifest {
+  const manifest = readManifest(target);
+  if (!manifest) throw new BundlePatchError(`no manifest at ${manifestPath(target)} — nothing to revert`);
+  if (!existsSync(manifest.backup)) throw new BundlePatchError(`backup ${manifest.backup} is missing`);
+
+  const current = readFileSync(target, "utf8");
+  if (sha256(current) !== manifest.patchedSha256 && !opts.force) {
+    throw new BundlePatchError("bundle changed since it was patched — reverting would discard those changes (use --force)");
+  }
+  const backup = readFileSync(manifest.backup, "utf8");
+  if (sha256(backup) !== manifest.originalSha256) throw new BundlePatchError(`backup ${manifest.backup} does not match the manifest`);
+
+  writeAtomic(target, backup);
+  unlinkSync(manifestPath(target));
+  unlinkSync(manifest.backup);
+  return manifest;
+}
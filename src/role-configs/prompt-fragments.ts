@@ -0,0 +1,230 @@
+/**
+ * prompt-fragments.ts
+ *
+ * Registry of named, versioned system-prompt fragments. Replaces the single
+ * hard-coded protocol string + PROTOCOL_ROLES set in send-message-protocol.ts:
+ * new rule blocks and new roles are registry entries (or JSON definitions
+ * loaded at startup), not code changes.
+ *
+ * Each fragment declares:
+ *  - id + version     — identity; a version bump replaces the old text
+ *  - roles / agentIds — selectors ("*" = every role); excludeAgentIds wins
+ *  - order            — position among fragments (ascending)
+ *  - enabled          — per-fragment kill switch
+ *
+ * composePrompt() wraps each fragment in markers:
+ *
+ *   <!-- fragment:send-message-failure-protocol@1 -->
+ *   ...
+ *   <!-- /fragment:send-message-failure-protocol -->
+ *
+ * so a prompt that already contains a fragment (e.g. persisted in the DB) is
+ * updated in place when the version changes, left alone when it matches, and
+ * stripped when the fragment is disabled or no longer selects the agent —
+ * instead of the old `includes("SEND_MESSAGE FAILURE PROTOCOL")` check, which
+ * kept stale text forever. Unmarked legacy copies are found by legacyHeading.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FragmentAgent {
+  id?: string;
+  role: string;
+}
+
+export interface PromptFragment {
+  id: string;
+  version: number;
+  /** Static text, or rendered per agent at compose time. */
+  body: string | ((agent: FragmentAgent) => string);
+  /** Roles that receive the fragment; "*" = all roles. */
+  roles: string[] | "*";
+  /** Agents that receive the fragment regardless of role. */
+  agentIds?: string[];
+  /** Agents that never receive the fragment. */
+  excludeAgentIds?: string[];
+  /** Ascending; ties keep registration order. */
+  order: number;
+  enabled: boolean;
+  /**
+   * Heading of an unmarked copy injected before the registry existed
+   * (e.g. "## SEND_MESSAGE FAILURE PROTOCOL"). That section is replaced.
+   */
+  legacyHeading?: string;
+}
+
+/** JSON-serializable fragment definition (static body only). */
+export interface PromptFragmentDefinition {
+  id: string;
+  version: number;
+  body: string;
+  roles: string[] | "*";
+  agentIds?: string[];
+  excludeAgentIds?: string[];
+  order?: number;
+  enabled?: boolean;
+  legacyHeading?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Markers
+// ---------------------------------------------------------------------------
+
+const FRAGMENT_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+function openMarker(id: string, version: number): string {
+  return `<!-- fragment:${id}@${version} -->`;
+}
+
+function closeMarker(id: string): string {
+  return `<!-- /fragment:${id} -->`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Matches a marked block for `id`, capturing its version. */
+function blockPattern(id: string): RegExp {
+  const escaped = escapeRegExp(id);
+  return new RegExp(`<!-- fragment:${escaped}@(\\d+) -->[\\s\\S]*?<!-- /fragment:${escaped} -->`);
+}
+
+/** Every marked fragment id present in a prompt. */
+function markedIds(prompt: string): string[] {
+  return [...prompt.matchAll(/<!-- fragment:([a-z0-9-]+)@\d+ -->/g)].map((m) => m[1]);
+}
+
+/** True if `index` falls inside a marked fragment block. */
+function insideMarkedBlock(prompt: string, index: number): boolean {
+  const before = prompt.slice(0, index);
+  return before.lastIndexOf("<!-- fragment:") > before.lastIndexOf("<!-- /fragment:");
+}
+
+/**
+ * Removes an unmarked legacy section — from the heading to the next
+ * same-level heading, the next marked block, or the end. Copies inside
+ * marked blocks are not legacy and are skipped.
+ */
+function stripLegacySection(prompt: string, heading: string): string {
+  const level = heading.match(/^#+/)?.[0] ?? "##";
+  const boundary = new RegExp(`\n(?:${escapeRegExp(level)} |<!-- fragment:)`);
+  for (let start = prompt.indexOf(heading); start !== -1; start = prompt.indexOf(heading, start + heading.length)) {
+    if (insideMarkedBlock(prompt, start)) continue;
+    const next = prompt.slice(start + heading.length).search(boundary);
+    const end = next === -1 ? prompt.length : start + heading.length + next;
+    return `${prompt.slice(0, start).trimEnd()}\n\n${prompt.slice(end).trimStart()}`.trim();
+  }
+  return prompt;
+}
+
+function tidy(prompt: string): string {
+  return prompt.replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export class PromptFragmentRegistry {
+  private readonly fragments = new Map<string, PromptFragment>();
+
+  /** Adds or replaces a fragment by id. */
+  register(fragment: PromptFragment): void {
+    if (!FRAGMENT_ID_PATTERN.test(fragment.id)) {
+      throw new Error(`prompt fragment id "${fragment.id}" must be lowercase kebab-case`);
+    }
+    if (!Number.isInteger(fragment.version) || fragment.version < 1) {
+      throw new Error(`prompt fragment "${fragment.id}" needs an integer version >= 1`);
+    }
+    this.fragments.set(fragment.id, { ...fragment });
+  }
+
+  /** Registers JSON definitions (e.g. from a config file). */
+  load(definitions: PromptFragmentDefinition[]): void {
+    for (const def of definitions) {
+      this.register({ ...def, order: def.order ?? 100, enabled: def.enabled ?? true });
+    }
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const fragment = this.fragments.get(id);
+    if (!fragment) throw new Error(`prompt fragment "${id}" is not registered`);
+    fragment.enabled = enabled;
+  }
+
+  get(id: string): PromptFragment | undefined {
+    return this.fragments.get(id);
+  }
+
+  list(): PromptFragment[] {
+    return [...this.fragments.values()].sort((a, b) => a.order - b.order);
+  }
+
+  /** Enabled fragments that apply to `agent`, in order. */
+  select(agent: FragmentAgent): PromptFragment[] {
+    return this.list().filter((f) => f.enabled && appliesTo(f, agent));
+  }
+
+  /**
+   * Brings `prompt` in line with the registry for `agent`: selected
+   * fragments are appended or updated in place, fragments that no longer
+   * apply are removed. Idempotent.
+   */
+  composePrompt(prompt: string, agent: FragmentAgent): string {
+    let result = prompt;
+    const selected = this.select(agent);
+    const selectedIds = new Set(selected.map((f) => f.id));
+
+    // Remove registered fragments that are disabled or no longer selected.
+    // Unknown ids are left alone — retire a fragment with enabled: false.
+    for (const id of markedIds(result)) {
+      if (this.fragments.has(id) && !selectedIds.has(id)) result = result.replace(blockPattern(id), "");
+    }
+
+    for (const fragment of selected) {
+      const block = `${openMarker(fragment.id, fragment.version)}\n${renderBody(fragment, agent)}\n${closeMarker(fragment.id)}`;
+      const pattern = blockPattern(fragment.id);
+      const existing = result.match(pattern);
+      if (fragment.legacyHeading) result = stripLegacySection(result, fragment.legacyHeading);
+      if (existing) {
+        // Re-rendered bodies can change without a version bump (dynamic text)
+        if (existing[0] !== block) result = result.replace(pattern, () => block);
+        continue;
+      }
+      result = `${result.trimEnd()}\n\n${block}`;
+    }
+
+    // Unselected legacy copies go too
+    for (const fragment of this.fragments.values()) {
+      if (!selectedIds.has(fragment.id) && fragment.legacyHeading) {
+        result = stripLegacySection(result, fragment.legacyHeading);
+      }
+    }
+
+    return tidy(result);
+  }
+}
+
+function appliesTo(fragment: PromptFragment, agent: FragmentAgent): boolean {
+  if (agent.id && fragment.excludeAgentIds?.includes(agent.id)) return false;
+  if (agent.id && fragment.agentIds?.includes(agent.id)) return true;
+  return fragment.roles === "*" || fragment.roles.includes(agent.role);
+}
+
+function renderBody(fragment: PromptFragment, agent: FragmentAgent): string {
+  return (typeof fragment.body === "function" ? fragment.body(agent) : fragment.body).trim();
+}
+
+// ---------------------------------------------------------------------------
+// Default registry
+// ---------------------------------------------------------------------------
+
+let _registry: PromptFragmentRegistry | null = null;
+
+export function getPromptFragmentRegistry(): PromptFragmentRegistry {
+  if (!_registry) _registry = new PromptFragmentRegistry();
+  return _registry;
+}
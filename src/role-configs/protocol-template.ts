@@ -0,0 +1,219 @@
+/**
+ * protocol-template.ts
+ *
+ * Renders the SEND_MESSAGE FAILURE PROTOCOL from the settings actually in
+ * use, and checks at startup that what agents are told matches the runtime.
+ *
+ * The protocol used to hard-code "within a 72-hour window" and ">30 minutes".
+ * Those numbers drifted from the code (the bundle's in-memory
+ * ROUTING_DEDUP_TTL_MS is 30 minutes; the persistent window is 72h), and an
+ * agent that believes a retry is deduplicated when it is not will happily
+ * retry. Now:
+ *
+ *  - renderSendMessageProtocol(settings) produces the text from
+ *    ProtocolSettings (dedup window, near-duplicate mode, escalation wait)
+ *  - protocolSettingsFrom(service) derives those settings from the live
+ *    RoutingDedupService config
+ *  - assertProtocolConsistency() parses the claims back out of rendered or
+ *    persisted prompt text and throws ProtocolConfigMismatchError when any
+ *    claim disagrees with a runtime dedup window
+ */
+
+import { DEFAULT_ROUTING_DEDUP_CONFIG, RoutingDedupConfig } from "../dedup/config.js";
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+export interface ProtocolSettings {
+  /** Window in which an identical resend is dropped (dedup TTL). */
+  dedupWindowMs: number;
+  /** Whether rephrased resends are also dropped (near-duplicate mode). */
+  nearDuplicate: boolean;
+  /** How long an agent should wait for a reply before escalating. */
+  escalateAfterMs: number;
+}
+
+export const DEFAULT_ESCALATE_AFTER_MS = 30 * 60 * 1000;
+
+export function protocolSettingsFrom(
+  config: Pick<RoutingDedupConfig, "ttlMs" | "nearDuplicate">,
+  escalateAfterMs = DEFAULT_ESCALATE_AFTER_MS
+): ProtocolSettings {
+  return {
+    dedupWindowMs: config.ttlMs,
+    nearDuplicate: config.nearDuplicate.enabled,
+    escalateAfterMs,
+  };
+}
+
+export const DEFAULT_PROTOCOL_SETTINGS: Readonly<ProtocolSettings> = Object.freeze(
+  protocolSettingsFrom(DEFAULT_ROUTING_DEDUP_CONFIG)
+);
+
+// ---------------------------------------------------------------------------
+// Durations
+// ---------------------------------------------------------------------------
+
+const UNITS: readonly [name: string, ms: number][] = [
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+/** Largest unit that divides evenly, except days only past 72 hours: 72h → [72, "hour"]. */
+function durationParts(ms: number): [number, string] {
+  for (const [name, unitMs] of UNITS) {
+    if (name === "day" && ms <= 72 * 60 * 60 * 1000) continue;
+    if (ms % unitMs === 0) return [ms / unitMs, name];
+  }
+  return [Math.max(1, Math.round(ms / 60_000)), "minute"];
+}
+
+/** "72-hour", "30-minute" — for "a 72-hour window". */
+function durationAdjective(ms: number): string {
+  const [n, unit] = durationParts(ms);
+  return `${n}-${unit}`;
+}
+
+/** "30 minutes", "1 hour". */
+function durationNoun(ms: number): string {
+  const [n, unit] = durationParts(ms);
+  return `${n} ${unit}${n === 1 ? "" : "s"}`;
+}
+
+function parseDuration(amount: string, unit: string): number {
+  const unitMs = UNITS.find(([name]) => unit.startsWith(name))?.[1];
+  if (unitMs === undefined) throw new Error(`unknown duration unit "${unit}"`);
+  return Number(amount) * unitMs;
+}
+
+// ---------------------------------------------------------------------------
+// Template
+// ---------------------------------------------------------------------------
+
+export function renderSendMessageProtocol(settings: ProtocolSettings): string {
+  const matching = settings.nearDuplicate ? "content hash and near-duplicate similarity" : "content hash";
+  return `
+## SEND_MESSAGE FAILURE PROTOCOL
+
+**CRITICAL: These rules override all other instructions regarding message sending.**
+
+1. **ONE ATTEMPT ONLY**: Every send_message call is fire-and-forget. Never resend
+   a message because a previous send timed out, errored, or received no reply.
+
+2. **NO SESSION REPLAY**: On re-initialization after a restart, do NOT re-send any
+   message you sent in a previous session. Check your task status and context first.
+   If your last action was a send_message, call check_message_status (with no ID it lists
+   your recent sends) to see what happened to it, then wait for a reply.
+
+3. **TIMEOUT ≠ FAILURE**: A send_message timeout means the message was likely queued.
+   Do not treat timeout as a signal to retry. If you need to know, call
+   check_message_status(delivery_id): it reports queued, held, delivered or read.
+
+4. **DUPLICATE DETECTION**: The platform deduplicates messages by ${matching} within
+   a ${durationAdjective(settings.dedupWindowMs)} window. Retries will be silently dropped — but they still consume tokens
+   and create noise. Do not retry.
+
+5. **ESCALATION PATH**: If you genuinely need a response and have not received one
+   after a reasonable wait (>${durationNoun(settings.escalateAfterMs)}), log a task comment instead of resending.
+   Do not send duplicate messages to multiple agents about the same issue.
+
+6. **READ THE RESULT**: Every send_message result starts with
+   \`[send_message] status=<status> delivery_id=<id>\`. Act on the status, not the wording:
+   delivered, held, rerouted and duplicate-dropped need no resend; rate-limited means wait;
+   only target-stopped and failed mean the message reached no one.
+   Keep the delivery_id — it is what check_message_status takes.
+`.trim();
+}
+
+// ---------------------------------------------------------------------------
+// Consistency check
+// ---------------------------------------------------------------------------
+
+export interface ProtocolClaims {
+  dedupWindowMs: number | null;
+  nearDuplicate: boolean | null;
+  escalateAfterMs: number | null;
+}
+
+/** Reads the numbers a protocol text promises. Missing claims are null. */
+export function extractProtocolClaims(text: string): ProtocolClaims {
+  const window = text.match(/deduplicates messages by ([^\n]*?)\s+within\s+an?\s+(\d+)-(day|hour|minute) window/);
+  const escalate = text.match(/reasonable wait \(>(\d+) (days?|hours?|minutes?)\)/);
+  return {
+    dedupWindowMs: window ? parseDuration(window[2], window[3]) : null,
+    nearDuplicate: window ? window[1].includes("near-duplicate") : null,
+    escalateAfterMs: escalate ? parseDuration(escalate[1], escalate[2]) : null,
+  };
+}
+
+export interface ProtocolConsistencyInput {
+  /** Protocol texts to verify: the rendered fragment, persisted system prompts, … */
+  texts: { source: string; text: string }[];
+  /**
+   * Every dedup window that must match the prompt claim, by name — e.g. the
+   * RoutingDedupService TTL and patch.js DEDUP_TTL_MS.
+   */
+  dedupWindowsMs: Record<string, number>;
+  nearDuplicate?: boolean;
+  escalateAfterMs?: number;
+}
+
+export interface ProtocolMismatch {
+  source: string;
+  claim: string;
+  runtime: string;
+}
+
+export class ProtocolConfigMismatchError extends Error {
+  constructor(readonly mismatches: ProtocolMismatch[]) {
+    super(
+      "Send-message protocol disagrees with runtime dedup config:\n" +
+        mismatches.map((m) => `  - ${m.source}: prompt says ${m.claim}, runtime is ${m.runtime}`).join("\n")
+    );
+    this.name = "ProtocolConfigMismatchError";
+  }
+}
+
+/** Mismatches between prompt claims and runtime settings; empty when consistent. */
+export function findProtocolMismatches(input: ProtocolConsistencyInput): ProtocolMismatch[] {
+  const mismatches: ProtocolMismatch[] = [];
+  for (const { source, text } of input.texts) {
+    const claims = extractProtocolClaims(text);
+    if (claims.dedupWindowMs === null) {
+      mismatches.push({ source, claim: "no dedup window", runtime: "a dedup window is enforced" });
+    } else {
+      for (const [name, windowMs] of Object.entries(input.dedupWindowsMs)) {
+        if (windowMs !== claims.dedupWindowMs) {
+          mismatches.push({
+            source,
+            claim: `a ${durationAdjective(claims.dedupWindowMs)} dedup window`,
+            runtime: `${durationAdjective(windowMs)} (${name})`,
+          });
+        }
+      }
+    }
+    if (input.nearDuplicate !== undefined && claims.nearDuplicate !== null && claims.nearDuplicate !== input.nearDuplicate) {
+      mismatches.push({
+        source,
+        claim: claims.nearDuplicate ? "near-duplicates are dropped" : "only exact duplicates are dropped",
+        runtime: input.nearDuplicate ? "near-duplicate mode on" : "near-duplicate mode off",
+      });
+    }
+    if (input.escalateAfterMs !== undefined && claims.escalateAfterMs !== null && claims.escalateAfterMs !== input.escalateAfterMs) {
+      mismatches.push({
+        source,
+        claim: `escalate after ${durationNoun(claims.escalateAfterMs)}`,
+        runtime: durationNoun(input.escalateAfterMs),
+      });
+    }
+  }
+  return mismatches;
+}
+
+/** Startup check: throws ProtocolConfigMismatchError on any disagreement. */
+export function assertProtocolConsistency(input: ProtocolConsistencyInput): void {
+  const mismatches = findProtocolMismatches(input);
+  if (mismatches.length > 0) throw new ProtocolConfigMismatchError(mismatches);
+}
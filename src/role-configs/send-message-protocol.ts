@@ -4,9 +4,8 @@
  * Fixes BLOCKER 5: SEND_MESSAGE FAILURE PROTOCOL must live in source code,
  * not only in DB system prompts (which are ephemeral and lost on agent recreate).
  *
- * Integration target in packages/backend/dist/index.js:
- *   Line 187767: hydrateConversation() — wraps composeSystemPrompt call
- *   Line 188003: sendMessageToAgent() — wraps composeSystemPrompt call
+ * Integration: hooks.composePrompt (integration/install.ts) after each
+ * composeSystemPrompt call — hydrateConversation() and sendMessageToAgent().
  *
  * Roles that MUST receive this protocol (confirmed session-replay vectors):
  *   - henry (cso) — h2V-a1zt4mMdD0srQ5gg1
@@ -14,41 +13,85 @@
  *   - researcher (sage) — bluGPKQRg2BRdiBTiibgT
  *   - kaizen — -jrie4x7UgVTaIhB83KyN
  *   - scout — any scout role agent
+ *
+ * The protocol is registered as a versioned fragment in the prompt fragment
+ * registry (prompt-fragments.ts); bump its version when the template changes.
+ * Its numbers come from the live dedup config (protocol-template.ts).
  */
 
+import { RoutingDedupService } from "../dedup/routing-dedup-service.js";
+import { getLogger } from "../observability/logger.js";
+import { PromptFragmentRegistry, getPromptFragmentRegistry } from "./prompt-fragments.js";
+import {
+  DEFAULT_ESCALATE_AFTER_MS,
+  DEFAULT_PROTOCOL_SETTINGS,
+  ProtocolSettings,
+  assertProtocolConsistency,
+  protocolSettingsFrom,
+  renderSendMessageProtocol,
+} from "./protocol-template.js";
+
+const log = getLogger("protocol");
+
 // ---------------------------------------------------------------------------
 // Canonical protocol text (searchable in bundle: "SEND_MESSAGE FAILURE PROTOCOL")
 // ---------------------------------------------------------------------------
 
-export const SEND_MESSAGE_FAILURE_PROTOCOL = `
-## SEND_MESSAGE FAILURE PROTOCOL
-
-**CRITICAL: These rules override all other instructions regarding message sending.**
-
-1. **ONE ATTEMPT ONLY**: Every send_message call is fire-and-forget. Never resend
-   a message because a previous send timed out, errored, or received no reply.
+/** The protocol as rendered with the default dedup settings. */
+export const SEND_MESSAGE_FAILURE_PROTOCOL = renderSendMessageProtocol(DEFAULT_PROTOCOL_SETTINGS);
 
-2. **NO SESSION REPLAY**: On re-initialization after a restart, do NOT re-send any
-   message you sent in a previous session. Check your task status and context first.
-   If your last action was a send_message, assume it was delivered and wait for a reply.
+let _settings: ProtocolSettings = { ...DEFAULT_PROTOCOL_SETTINGS };
 
-3. **TIMEOUT ≠ FAILURE**: A send_message timeout means the message was likely queued.
-   Do not treat timeout as a signal to retry. Move on to your next task step.
+/** Settings the injected protocol is currently rendered from. */
+export function getProtocolSettings(): ProtocolSettings {
+  return { ..._settings };
+}
 
-4. **DUPLICATE DETECTION**: The platform deduplicates messages by content hash within
-   a 72-hour window. Retries will be silently dropped — but they still consume tokens
-   and create noise. Do not retry.
+/**
+ * Binds the injected protocol text to the dedup service actually in use.
+ * Call at startup after registerDbAdapter()/registerDedupStore().
+ */
+export function bindProtocolToDedupService(
+  service: RoutingDedupService,
+  escalateAfterMs = DEFAULT_ESCALATE_AFTER_MS
+): ProtocolSettings {
+  _settings = protocolSettingsFrom(service.config, escalateAfterMs);
+  return getProtocolSettings();
+}
 
-5. **ESCALATION PATH**: If you genuinely need a response and have not received one
-   after a reasonable wait (>30 minutes), log a task comment instead of resending.
-   Do not send duplicate messages to multiple agents about the same issue.
-`.trim();
+/**
+ * Startup check: the protocol text agents receive (and any persisted prompts
+ * passed in) must agree with the dedup service TTL and every other dedup
+ * window named in `otherWindowsMs` (e.g. patch.js DEDUP_TTL_MS). Throws
+ * ProtocolConfigMismatchError otherwise.
+ */
+export function checkSendMessageProtocolOnStartup(
+  service: RoutingDedupService,
+  options: { otherWindowsMs?: Record<string, number>; prompts?: { source: string; text: string }[] } = {}
+): void {
+  assertProtocolConsistency({
+    texts: [
+      { source: "send-message-failure-protocol fragment", text: renderSendMessageProtocol(_settings) },
+      ...(options.prompts ?? []).filter((p) => p.text.includes("SEND_MESSAGE FAILURE PROTOCOL")),
+    ],
+    dedupWindowsMs: { "RoutingDedupService.ttlMs": service.config.ttlMs, ...options.otherWindowsMs },
+    nearDuplicate: service.config.nearDuplicate.enabled,
+    escalateAfterMs: _settings.escalateAfterMs,
+  });
+  log.info("Send-message protocol matches runtime dedup config");
+}
 
 // ---------------------------------------------------------------------------
-// Roles that receive the protocol injection
+// Fragment registration
 // ---------------------------------------------------------------------------
 
-const PROTOCOL_ROLES = new Set([
+export const SEND_MESSAGE_PROTOCOL_FRAGMENT_ID = "send-message-failure-protocol";
+
+/**
+ * Roles that receive the protocol by default. Further roles or agents are
+ * added through the registry (getPromptFragmentRegistry()), not here.
+ */
+export const DEFAULT_PROTOCOL_ROLES: readonly string[] = [
   "cso",
   "developer",
   "researcher",
@@ -56,7 +99,17 @@ const PROTOCOL_ROLES = new Set([
   "scout",
   "pm",
   "pam",
-]);
+];
+
+getPromptFragmentRegistry().register({
+  id: SEND_MESSAGE_PROTOCOL_FRAGMENT_ID,
+  version: 3,
+  body: () => renderSendMessageProtocol(_settings),
+  roles: [...DEFAULT_PROTOCOL_ROLES],
+  order: 10,
+  enabled: true,
+  legacyHeading: "## SEND_MESSAGE FAILURE PROTOCOL",
+});
 
 // ---------------------------------------------------------------------------
 // Injection helper
@@ -65,30 +118,31 @@ const PROTOCOL_ROLES = new Set([
 /**
  * Appends SEND_MESSAGE_FAILURE_PROTOCOL to a system prompt if not already present.
  * Idempotent: safe to call multiple times.
+ *
+ * @deprecated Applies only this one fragment, regardless of role. Use
+ * composeSystemPromptWithProtocol(), which applies every registered fragment.
  */
 export function injectSendMessageProtocol(systemPrompt: string): string {
-  // Idempotency check — if already injected, don't double-inject
-  if (systemPrompt.includes("SEND_MESSAGE FAILURE PROTOCOL")) {
-    return systemPrompt;
-  }
-  return `${systemPrompt}\n\n${SEND_MESSAGE_FAILURE_PROTOCOL}`;
+  const fragment = getPromptFragmentRegistry().get(SEND_MESSAGE_PROTOCOL_FRAGMENT_ID);
+  if (!fragment) return systemPrompt;
+  const single = new PromptFragmentRegistry();
+  single.register({ ...fragment, roles: "*", agentIds: [], excludeAgentIds: [], enabled: true });
+  return single.composePrompt(systemPrompt, { role: "*" });
 }
 
 /**
- * Drop-in replacement for composeSystemPrompt that injects the protocol
- * for all core agent roles.
+ * Drop-in replacement for composeSystemPrompt that applies every prompt
+ * fragment registered for the agent's role/ID (prompt-fragments.ts). Existing
+ * fragments are updated in place when their version changes.
  *
  * Usage: replace `composeSystemPrompt(agent.systemPrompt, playbook)` with
  *        `composeSystemPromptWithProtocol(agent, playbook, composeSystemPrompt)`
  */
 export function composeSystemPromptWithProtocol(
-  agent: { role: string; systemPrompt: string },
+  agent: { id?: string; role: string; systemPrompt: string },
   playbook: string,
   composeSystemPrompt: (prompt: string, playbook: string) => string
 ): string {
   const base = composeSystemPrompt(agent.systemPrompt, playbook);
-  if (PROTOCOL_ROLES.has(agent.role)) {
-    return injectSendMessageProtocol(base);
-  }
-  return base;
+  return getPromptFragmentRegistry().composePrompt(base, { id: agent.id, role: agent.role });
 }
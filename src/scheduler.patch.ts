@@ -1,14 +1,30 @@
 /**
+ * Reference only: the hooks from install() (integration/install.ts) apply
+ * these changes through the backend source. Kept as a commented diff of what
+ * each hook replaces.
+ *
  * Patch diff — changes to packages/backend/src/scheduler/jobs.ts
  *
- * Two targeted fixes:
+ * Three targeted fixes:
  *
  * 1. pickAssignee — filter out stopped agents before role matching
  *    Prevents stopped/retired agents from being auto-assigned new tasks.
+ *    Among the live agents of a role, the FailoverRouter
+ *    (agents/failover-router.ts) picks one by the configured strategy rather
+ *    than always the first match.
  *
  * 2. resumeAssignedInProgressTasksAfterRestart — skip stopped agents
  *    On restart, the scheduler resumes all in-progress tasks. If the assignee
  *    is stopped, sending a resume message re-activates a retired agent.
+ *    Each resume is also sent at most once per (task, assignee, resume epoch)
+ *    via TaskResumeCoordinator (scheduler/task-resume.ts), so a crash-looping
+ *    backend does not nudge the same assignee on every boot.
+ *
+ * 3. scheduler startup — run DedupMaintenanceJob (scheduler/dedup-maintenance.ts)
+ *    so expired message_dedup rows are pruned while the backend is up.
+ *
+ * 1 and 2 defer to the lifecycle state machine (agents/lifecycle.ts) via
+ * stopped-agent-guard.ts instead of comparing status strings.
  */
 
 // ─── PATCH 1: pickAssignee ───────────────────────────────────────────────────
@@ -20,10 +36,14 @@
 // }
 //
 // AFTER:
+// import { filterDispatchableAgents } from "./stopped-agent-guard.js";
+// import { getFailoverRouter } from "../agents/failover-router.js";
+//
 // function pickAssignee(task: Task, agents: Agent[]): Agent | undefined {
 //   // DEDUP FIX: never assign to stopped agents
-//   const active = agents.filter((a) => a.status !== "stopped");
-//   const byRole = (role: Agent["role"]) => active.find((a) => a.role === role);
+//   const active = filterDispatchableAgents(agents);
+//   const byRole = (role: Agent["role"]) =>
+//     getFailoverRouter().resolve({ role }, active, { taskId: task.id })?.agent;
 //   ...
 // }
 
@@ -49,7 +69,33 @@
 //     const assignee = byId.get(task.assigneeId);
 //     if (!assignee) continue;
 //     // DEDUP FIX: skip stopped agents — do not re-activate retired agents
-//     if (assignee.status === "stopped") continue;
-//     manager.sendMessageToAgent(assignee.id, ...).catch(...)
+//     if (isOperatorOnly(assignee.status)) continue;   // agents/lifecycle.ts
+//     // DEDUP FIX: at most one resume per task/assignee per genuine restart
+//     getTaskResumeCoordinator()
+//       .resumeOnce(task.id, assignee.id, () => manager.sendMessageToAgent(assignee.id, ...))
+//       .catch(...)
 //   }
 // }
+//
+// Startup (before the resume pass), once per process:
+// import { PostgresTaskResumeStore, TaskResumeCoordinator, registerTaskResumeCoordinator } from "./task-resume.js";
+//
+// const taskResume = new TaskResumeCoordinator(new PostgresTaskResumeStore(db));
+// registerTaskResumeCoordinator(taskResume);
+// await taskResume.beginBoot();
+// setTimeout(() => taskResume.markHealthy().catch(() => {}), 5 * 60 * 1000).unref();
+
+// ─── PATCH 3: scheduler startup — dedup maintenance job ─────────────────────
+//
+// Nothing pruned message_dedup after boot. Start the maintenance job next to
+// the other scheduler timers (after registerDbAdapter):
+//
+// import { DedupMaintenanceJob, registerDedupMaintenanceJob } from "./dedup-maintenance.js";
+// import { getRoutingDedupService } from "../dedup/routing-dedup-service.js";
+//
+// const dedupMaintenance = new DedupMaintenanceJob(getRoutingDedupService());
+// registerDedupMaintenanceJob(dedupMaintenance);
+// dedupMaintenance.start();          // batched prune, row budget, L1 compaction
+//
+// and on shutdown:
+// dedupMaintenance.stop();
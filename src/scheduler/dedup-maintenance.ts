@@ -0,0 +1,263 @@
+/**
+ * dedup-maintenance.ts
+ *
+ * Scheduled upkeep for the routing dedup tables. schema.sql promised cleanup
+ * "at startup and periodically by scheduler", but only patch.js's initSchema
+ * ever pruned, once per boot — message_dedup grew for as long as the backend
+ * stayed up.
+ *
+ * Each DedupMaintenanceJob run:
+ *  1. prunes expired rows in batches of batchSize, pausing between batches so
+ *     no single DELETE holds row locks for long (maxBatchesPerRun caps a run;
+ *     the rest waits for the next one)
+ *  2. enforces maxRows: if the table is still over budget, the rows expiring
+ *     soonest are evicted — this shortens their dedup window, so it is logged
+ *  3. compacts the in-process L1 cache
+ *  4. reports rows pruned/evicted, table rows and bytes, L1 size and run
+ *     duration — as a DedupMaintenanceReport to deps.onReport and in the
+ *     cumulative stats()
+ *
+ * start() schedules runs every intervalMs with a self-rearming unref'd timer,
+ * so runs never overlap and the job never keeps the process alive.
+ */
+
+import { RoutingDedupService } from "../dedup/routing-dedup-service.js";
+import { errorMessage, getLogger } from "../observability/logger.js";
+
+const log = getLogger("dedup-maintenance");
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export interface DedupMaintenanceConfig {
+  intervalMs: number;
+  /** Rows per prune/evict statement. */
+  batchSize: number;
+  /** Upper bound on statements per run. */
+  maxBatchesPerRun: number;
+  /** Pause between batches, letting routing queries through. */
+  batchPauseMs: number;
+  /** Row budget for message_dedup; 0 = unlimited. */
+  maxRows: number;
+}
+
+export const DEFAULT_DEDUP_MAINTENANCE_CONFIG: Readonly<DedupMaintenanceConfig> = Object.freeze({
+  intervalMs: 10 * 60 * 1000,
+  batchSize: 5_000,
+  maxBatchesPerRun: 100,
+  batchPauseMs: 50,
+  maxRows: 1_000_000,
+});
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DedupMaintenanceReport {
+  startedAtMs: number;
+  durationMs: number;
+  prunedRows: number;
+  /** Unexpired rows removed to stay within maxRows. */
+  evictedRows: number;
+  batches: number;
+  /** True when maxBatchesPerRun stopped the run with work left. */
+  truncated: boolean;
+  l1Compacted: number;
+  l1Size: number;
+  /** After the run; null when the stats query failed. */
+  tableRows: number | null;
+  tableBytes: number | null;
+  error: string | null;
+}
+
+export interface DedupMaintenanceStats {
+  runs: number;
+  failedRuns: number;
+  prunedRowsTotal: number;
+  evictedRowsTotal: number;
+  lastRun: DedupMaintenanceReport | null;
+}
+
+export interface DedupMaintenanceDeps {
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  /** Receives every run's report — e.g. recordMaintenanceReport (observability/routing-metrics.ts). */
+  onReport?: (report: DedupMaintenanceReport) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Job
+// ---------------------------------------------------------------------------
+
+export class DedupMaintenanceJob {
+  readonly config: DedupMaintenanceConfig;
+
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly onReport: ((report: DedupMaintenanceReport) => void) | null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<DedupMaintenanceReport> | null = null;
+  private readonly totals: DedupMaintenanceStats = {
+    runs: 0,
+    failedRuns: 0,
+    prunedRowsTotal: 0,
+    evictedRowsTotal: 0,
+    lastRun: null,
+  };
+
+  constructor(
+    private readonly dedup: RoutingDedupService,
+    config: Partial<DedupMaintenanceConfig> = {},
+    deps: DedupMaintenanceDeps = {}
+  ) {
+    this.config = { ...DEFAULT_DEDUP_MAINTENANCE_CONFIG, ...config };
+    if (!(this.config.batchSize > 0)) throw new Error(`Invalid dedup maintenance batchSize: ${this.config.batchSize}`);
+    this.now = deps.now ?? Date.now;
+    this.sleep = deps.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.onReport = deps.onReport ?? null;
+  }
+
+  /** Runs immediately, then every intervalMs. No-op if already started. */
+  start(): void {
+    if (this.timer) return;
+    const tick = () => {
+      this.runOnce()
+        .catch(() => {})
+        .finally(() => {
+          if (!this.timer) return;
+          this.timer = setTimeout(tick, this.config.intervalMs);
+          this.timer.unref?.();
+        });
+    };
+    this.timer = setTimeout(tick, 0);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** One maintenance pass. Concurrent calls share the run in progress. */
+  runOnce(): Promise<DedupMaintenanceReport> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  stats(): DedupMaintenanceStats {
+    return { ...this.totals, lastRun: this.totals.lastRun && { ...this.totals.lastRun } };
+  }
+
+  private async run(): Promise<DedupMaintenanceReport> {
+    const { batchSize, maxBatchesPerRun, batchPauseMs, maxRows } = this.config;
+    const startedAtMs = this.now();
+    const report: DedupMaintenanceReport = {
+      startedAtMs,
+      durationMs: 0,
+      prunedRows: 0,
+      evictedRows: 0,
+      batches: 0,
+      truncated: false,
+      l1Compacted: 0,
+      l1Size: 0,
+      tableRows: null,
+      tableBytes: null,
+      error: null,
+    };
+
+    try {
+      // 1. Expired rows, one bounded DELETE at a time
+      for (;;) {
+        if (report.batches >= maxBatchesPerRun) {
+          report.truncated = true;
+          break;
+        }
+        const removed = await this.dedup.pruneBatch(batchSize);
+        report.batches++;
+        report.prunedRows += removed;
+        if (removed < batchSize) break;
+        await this.sleep(batchPauseMs);
+      }
+
+      // 2. Row budget
+      let stats = await this.dedup.tableStats();
+      if (maxRows > 0 && stats.rows > maxRows) {
+        let excess = stats.rows - maxRows;
+        while (excess > 0 && !report.truncated) {
+          if (report.batches >= maxBatchesPerRun) {
+            report.truncated = true;
+            break;
+          }
+          const removed = await this.dedup.evictSoonestExpiring(Math.min(batchSize, excess));
+          report.batches++;
+          report.evictedRows += removed;
+          excess -= removed;
+          if (removed === 0) break;
+          if (excess > 0) await this.sleep(batchPauseMs);
+        }
+        if (report.evictedRows > 0) {
+          log.warn("message_dedup over budget: evicted unexpired rows, soonest expiry first", {
+            rows: stats.rows,
+            maxRows,
+            evictedRows: report.evictedRows,
+          });
+        }
+        stats = await this.dedup.tableStats();
+      }
+      report.tableRows = stats.rows;
+      report.tableBytes = stats.bytes;
+    } catch (err) {
+      report.error = errorMessage(err);
+      log.error("Run failed", { error: report.error });
+    }
+
+    // 3. L1 — in-process, runs even when the store is down
+    report.l1Compacted = this.dedup.compactL1();
+    report.l1Size = this.dedup.l1Stats().size;
+    report.durationMs = this.now() - startedAtMs;
+
+    this.totals.runs++;
+    if (report.error) this.totals.failedRuns++;
+    this.totals.prunedRowsTotal += report.prunedRows;
+    this.totals.evictedRowsTotal += report.evictedRows;
+    this.totals.lastRun = report;
+
+    if (report.prunedRows > 0 || report.evictedRows > 0 || report.truncated) {
+      log.info(report.truncated ? "Run finished at batch cap — continuing next run" : "Run finished", {
+        prunedRows: report.prunedRows,
+        evictedRows: report.evictedRows,
+        batches: report.batches,
+        durationMs: report.durationMs,
+      });
+    }
+
+    try {
+      this.onReport?.(report);
+    } catch (err) {
+      log.error("onReport failed", { error: errorMessage(err) });
+    }
+    return report;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Process-wide instance — registered at integration time
+// ---------------------------------------------------------------------------
+
+let _job: DedupMaintenanceJob | null = null;
+
+export function registerDedupMaintenanceJob(job: DedupMaintenanceJob): void {
+  _job = job;
+}
+
+export function getDedupMaintenanceJob(): DedupMaintenanceJob {
+  if (!_job) {
+    throw new Error("Dedup maintenance job not registered — call registerDedupMaintenanceJob first");
+  }
+  return _job;
+}
@@ -0,0 +1,52 @@
+/**
+ * reconcile-plan.test.ts
+ *
+ * Applying a plan: agents are reset and every task resume is attempted, even
+ * when one resume send fails.
+ */
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemoryLogSink, setLogSink } from "../observability/logger.js";
+import { applyReconcilePlan, buildReconcilePlan } from "./reconcile-plan.js";
+import { AgentLight, AgentStatus } from "./stopped-agent-guard.js";
+
+const logs = new MemoryLogSink();
+setLogSink(logs.sink);
+
+test("a failed resume is reported and the remaining resumes still run", async () => {
+  const agents = new Map<string, AgentLight>(
+    [
+      { id: "a1", name: "jin", role: "engineer", status: "thinking" as AgentStatus },
+      { id: "a2", name: "mina", role: "reviewer", status: "idle" as AgentStatus },
+    ].map((a) => [a.id, a])
+  );
+  const plan = await buildReconcilePlan({
+    agents: [...agents.values()],
+    inProgressTasks: [
+      { id: "t1", status: "in_progress", assigneeId: "a1" },
+      { id: "t2", status: "in_progress", assigneeId: "a2" },
+      { id: "t3", status: "in_progress", assigneeId: "a1" },
+    ],
+  });
+
+  const sent: string[] = [];
+  const result = await applyReconcilePlan(plan, {
+    getAgent: async (id) => agents.get(id),
+    updateAgentStatus: async (id, status) => {
+      agents.get(id)!.status = status;
+    },
+    insertActivity: async () => {},
+    resumeTask: async (resume) => {
+      if (resume.taskId === "t2") throw new Error("mina's session is not ready");
+      sent.push(resume.taskId);
+    },
+  });
+
+  assert.deepEqual(result.reset, ["a1"]);
+  assert.equal(agents.get("a1")?.status, "idle");
+  assert.deepEqual(result.resumedTasks, ["t1", "t3"]);
+  assert.deepEqual(sent, ["t1", "t3"]);
+  assert.deepEqual(result.failedResumes, [{ taskId: "t2", error: "mina's session is not ready" }]);
+  assert.equal(logs.find({ component: "reconcile-plan", level: "error" }).length, 1);
+});
@@ -0,0 +1,285 @@
+/**
+ * reconcile-plan.ts
+ *
+ * Dry-run mode for the startup reconcile. safeReconcileOnStartup() mutates
+ * statuses as it goes and only reports reset/skipped IDs afterwards; an
+ * operator had no way to see what a restart was about to do.
+ *
+ * buildReconcilePlan() computes the whole restart plan without touching
+ * anything:
+ *  - agentResets:     thinking/executing agents that would go back to idle
+ *  - protectedAgents: operator-only agents the reconcile will not touch
+ *  - taskResumes:     in-progress tasks whose assignee would get a resume
+ *                     message (resumeAssignedInProgressTasksAfterRestart)
+ *  - skippedTasks:    in-progress tasks that would NOT be resumed, and why
+ *  - dedup:           how many dedup keys the startup guard would load into
+ *                     L1, with a digest of them (not the keys: thousands of
+ *                     them would swamp the plan an operator has to review)
+ *
+ * serializeReconcilePlan()/parseReconcilePlan() round-trip it as JSON for
+ * review. applyReconcilePlan() then executes a reviewed plan, re-checking
+ * each step against the current state — anything that changed since the
+ * plan was built is reported as stale and left alone.
+ */
+
+import crypto from "crypto";
+import { RoutingDedupService } from "../dedup/routing-dedup-service.js";
+import { isOperatorOnly } from "../agents/lifecycle.js";
+import { errorMessage, getLogger } from "../observability/logger.js";
+import { recordStoppedAgentBlock } from "../observability/routing-metrics.js";
+import {
+  AgentLight,
+  AgentStatus,
+  InsertActivity,
+  reconcileActionFor,
+  resetForReconcile,
+} from "./stopped-agent-guard.js";
+
+const log = getLogger("reconcile-plan");
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const RECONCILE_PLAN_VERSION = 2;
+
+export interface ReconcileTask {
+  id: string;
+  title?: string;
+  status: string;
+  assigneeId: string | null;
+}
+
+export interface PlannedAgentReset {
+  agentId: string;
+  name: string;
+  from: AgentStatus;
+  to: "idle";
+}
+
+export interface ProtectedAgent {
+  agentId: string;
+  name: string;
+  status: AgentStatus;
+}
+
+export interface PlannedTaskResume {
+  taskId: string;
+  title: string | null;
+  assigneeId: string;
+  assigneeName: string;
+}
+
+export interface SkippedTaskResume {
+  taskId: string;
+  assigneeId: string | null;
+  reason: "unassigned" | "assignee-missing" | "assignee-not-running";
+}
+
+export interface ReconcilePlan {
+  version: number;
+  generatedAtMs: number;
+  agentResets: PlannedAgentReset[];
+  protectedAgents: ProtectedAgent[];
+  taskResumes: PlannedTaskResume[];
+  skippedTasks: SkippedTaskResume[];
+  dedup: {
+    keysLoaded: number;
+    /** sha256 of the sorted keys, one per line; null when none were read. */
+    digest: string | null;
+    /** Set when the dedup store could not be read — the guard would start cold. */
+    error: string | null;
+  };
+}
+
+export interface ReconcilePlanInput {
+  agents: AgentLight[];
+  /** Tasks in the in-progress state (the resume path's input). */
+  inProgressTasks: ReconcileTask[];
+  dedup?: RoutingDedupService;
+  now?: () => number;
+}
+
+// ---------------------------------------------------------------------------
+// Plan
+// ---------------------------------------------------------------------------
+
+/** Computes the restart plan. Reads only — no status, task or L1 changes. */
+export async function buildReconcilePlan(input: ReconcilePlanInput): Promise<ReconcilePlan> {
+  const now = input.now ?? Date.now;
+  const plan: ReconcilePlan = {
+    version: RECONCILE_PLAN_VERSION,
+    generatedAtMs: now(),
+    agentResets: [],
+    protectedAgents: [],
+    taskResumes: [],
+    skippedTasks: [],
+    dedup: { keysLoaded: 0, digest: null, error: null },
+  };
+
+  for (const agent of input.agents) {
+    const action = reconcileActionFor(agent);
+    if (action === "reset") {
+      plan.agentResets.push({ agentId: agent.id, name: agent.name, from: agent.status, to: "idle" });
+    } else if (action === "protect") {
+      plan.protectedAgents.push({ agentId: agent.id, name: agent.name, status: agent.status });
+    }
+  }
+
+  const byId = new Map(input.agents.map((a) => [a.id, a]));
+  for (const task of input.inProgressTasks) {
+    if (!task.assigneeId) {
+      plan.skippedTasks.push({ taskId: task.id, assigneeId: null, reason: "unassigned" });
+      continue;
+    }
+    const assignee = byId.get(task.assigneeId);
+    if (!assignee) {
+      plan.skippedTasks.push({ taskId: task.id, assigneeId: task.assigneeId, reason: "assignee-missing" });
+    } else if (isOperatorOnly(assignee.status)) {
+      plan.skippedTasks.push({ taskId: task.id, assigneeId: task.assigneeId, reason: "assignee-not-running" });
+    } else {
+      plan.taskResumes.push({
+        taskId: task.id,
+        title: task.title ?? null,
+        assigneeId: assignee.id,
+        assigneeName: assignee.name,
+      });
+    }
+  }
+
+  if (input.dedup) {
+    try {
+      const records = await input.dedup.listWarmCandidates(plan.generatedAtMs);
+      plan.dedup.keysLoaded = records.length;
+      plan.dedup.digest = digestKeys(records.map((r) => r.dedupKey));
+    } catch (err) {
+      plan.dedup.error = errorMessage(err);
+    }
+  }
+
+  return plan;
+}
+
+function digestKeys(keys: string[]): string {
+  return crypto.createHash("sha256").update([...keys].sort().join("\n")).digest("hex");
+}
+
+export function serializeReconcilePlan(plan: ReconcilePlan): string {
+  return JSON.stringify(plan, null, 2);
+}
+
+export function parseReconcilePlan(json: string): ReconcilePlan {
+  const plan = JSON.parse(json) as ReconcilePlan;
+  if (plan?.version !== RECONCILE_PLAN_VERSION) {
+    throw new Error(`parseReconcilePlan: unsupported plan version ${String(plan?.version)}`);
+  }
+  if (!Array.isArray(plan.agentResets) || !Array.isArray(plan.taskResumes) || !Array.isArray(plan.protectedAgents)) {
+    throw new Error("parseReconcilePlan: malformed plan");
+  }
+  return plan;
+}
+
+/** One line per section, for startup logs. */
+export function summarizeReconcilePlan(plan: ReconcilePlan): string {
+  return (
+    `${plan.agentResets.length} agent reset(s), ${plan.protectedAgents.length} protected, ` +
+    `${plan.taskResumes.length} task resume(s), ${plan.skippedTasks.length} task(s) skipped, ` +
+    `${plan.dedup.keysLoaded} dedup key(s)`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Apply
+// ---------------------------------------------------------------------------
+
+export interface ReconcileApplyDeps {
+  getAgent: (id: string) => Promise<AgentLight | undefined>;
+  updateAgentStatus: (id: string, status: AgentStatus) => Promise<void>;
+  insertActivity: InsertActivity;
+  /** Sends the resume message for one task (sendMessageToAgent in jobs.ts). */
+  resumeTask: (resume: PlannedTaskResume) => Promise<void>;
+  dedup?: RoutingDedupService;
+}
+
+export interface ReconcileApplyResult {
+  reset: string[];
+  /** Planned protected agents that are still operator-only. */
+  protected: string[];
+  resumedTasks: string[];
+  /** Plan steps skipped because the agent's status changed after planning. */
+  stale: string[];
+  /** Task resumes whose send threw; the remaining resumes still ran. */
+  failedResumes: { taskId: string; error: string }[];
+  dedupKeysLoaded: number;
+}
+
+/**
+ * Executes a (reviewed) plan. Each step is re-validated: an agent reset only
+ * happens if the agent is still in the planned status, a task resume only if
+ * the assignee is still running, and a protected agent only counts as
+ * protected if it is still operator-only. A failed resume is reported in
+ * failedResumes and does not stop the rest of the plan.
+ */
+export async function applyReconcilePlan(plan: ReconcilePlan, deps: ReconcileApplyDeps): Promise<ReconcileApplyResult> {
+  const result: ReconcileApplyResult = {
+    reset: [],
+    protected: [],
+    resumedTasks: [],
+    stale: [],
+    failedResumes: [],
+    dedupKeysLoaded: 0,
+  };
+
+  for (const step of plan.protectedAgents) {
+    const agent = await deps.getAgent(step.agentId);
+    if (!agent || !isOperatorOnly(agent.status)) {
+      result.stale.push(step.agentId);
+      log.info(`Skipping stale protection for ${step.name}(${step.agentId})`, { agentId: step.agentId, status: agent?.status ?? "missing" });
+      continue;
+    }
+    result.protected.push(agent.id);
+  }
+  recordStoppedAgentBlock("reconcile", result.protected.length);
+
+  for (const step of plan.agentResets) {
+    const agent = await deps.getAgent(step.agentId);
+    if (!agent || agent.status !== step.from || reconcileActionFor(agent) !== "reset") {
+      result.stale.push(step.agentId);
+      log.info(`Skipping stale reset for ${step.name}(${step.agentId})`, { agentId: step.agentId, status: agent?.status ?? "missing" });
+      continue;
+    }
+    await resetForReconcile(agent, deps.updateAgentStatus, deps.insertActivity);
+    result.reset.push(agent.id);
+  }
+
+  if (deps.dedup) {
+    result.dedupKeysLoaded = await deps.dedup.warmFromStore();
+  }
+
+  for (const step of plan.taskResumes) {
+    const assignee = await deps.getAgent(step.assigneeId);
+    if (!assignee || isOperatorOnly(assignee.status)) {
+      result.stale.push(step.taskId);
+      log.info(`Skipping stale resume for task ${step.taskId}`, { taskId: step.taskId, assigneeStatus: assignee?.status ?? "missing" });
+      continue;
+    }
+    try {
+      await deps.resumeTask(step);
+    } catch (err) {
+      result.failedResumes.push({ taskId: step.taskId, error: errorMessage(err) });
+      log.error(`Failed to resume task ${step.taskId}`, { taskId: step.taskId, assigneeId: step.assigneeId, error: errorMessage(err) });
+      continue;
+    }
+    result.resumedTasks.push(step.taskId);
+  }
+
+  log.info(`Applied plan from ${new Date(plan.generatedAtMs).toISOString()}`, {
+    reset: result.reset.length,
+    protected: result.protected.length,
+    resumed: result.resumedTasks.length,
+    failedResumes: result.failedResumes.length,
+    stale: result.stale.length,
+    dedupKeysLoaded: result.dedupKeysLoaded,
+  });
+  return result;
+}
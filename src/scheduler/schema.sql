@@ -0,0 +1,29 @@
+-- Migration: boot ledger + idempotent task resumes
+-- resumeAssignedInProgressTasksAfterRestart sent a resume nudge per task on
+-- every boot, so a crash-looping backend nudged each assignee N times.
+-- Each resume is now claimed once per (task, assignee, resume epoch), and the
+-- epoch only advances after a boot that stayed up long enough to be healthy.
+-- Applied as migration 5 by dedup/migrations.ts (runDedupMigrations); this
+-- file is the resulting schema.
+
+CREATE TABLE IF NOT EXISTS backend_boots (
+  boot_id        TEXT PRIMARY KEY,
+  resume_epoch   INTEGER NOT NULL,
+  started_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  healthy_at     TIMESTAMPTZ          -- NULL = crashed (or still starting) before healthy
+);
+
+CREATE INDEX IF NOT EXISTS idx_backend_boots_started
+  ON backend_boots(started_at DESC);
+
+CREATE TABLE IF NOT EXISTS task_resume_log (
+  resume_key     TEXT PRIMARY KEY,    -- taskId|assigneeId|epoch
+  task_id        TEXT NOT NULL,
+  assignee_id    TEXT NOT NULL,
+  resume_epoch   INTEGER NOT NULL,
+  boot_id        TEXT NOT NULL,
+  sent_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_resume_log_task
+  ON task_resume_log(task_id);
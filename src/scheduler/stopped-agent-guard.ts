@@ -7,22 +7,46 @@
  * Three guards:
  *
  * 1. filterDispatchableAgents() — removes stopped agents before pickAssignee()
- *    Integration: line 190448 in dist/index.js (dispatchTodoTasks)
- *    Replace: `const agents3 = await listAgentsLight();`
- *    With:    `const agents3 = filterDispatchableAgents(await listAgentsLight());`
+ *    Integration: hooks.beforeDispatch (integration/install.ts) in pickAssignee
  *
  * 2. safeReconcileOnStartup() — explicitly skips stopped agents during state reconcile
- *    Integration: line 187924 in dist/index.js (reconcileAgentStatesOnStartup)
+ *    Integration: hooks.onReconcile in reconcileAgentStatesOnStartup
  *    The current code only resets thinking/executing → idle, which is correct,
  *    but it is implicit. This makes the stopped-agent skip explicit and logged.
  *
  * 3. guardedStartAgent() — throws if agent.status === 'stopped'
- *    Integration: line 196162 in dist/index.js (watchdog recovery path)
- *    Replace: `await startAgent(agent.id);`
- *    With:    `await guardedStartAgent(agent.id, getAgent, startAgent);`
+ *    Integration: hooks.beforeStart at every startAgent call site; the
+ *    watchdog recovery path calls recoverAgent() from install() instead.
  *    This prevents the watchdog from auto-recovering a deliberately stopped agent.
+ *    The watchdog should go through WatchdogRecoveryPolicy.recover()
+ *    (watchdog-recovery.ts), which adds backoff, a restart budget and
+ *    quarantine on top of this guard.
+ *
+ * 4. resumeAgent() — the only way back for a paused/stopped agent; records
+ *    who resumed it and why.
+ *
+ * All four defer to the lifecycle state machine (agents/lifecycle.ts) for
+ * what each actor may do — none of them hard-codes the "stopped" rule.
  */
 
+import {
+  AgentStatus,
+  AgentTransitionEvent,
+  LifecycleActor,
+  assertMayStart,
+  canTransition,
+  isOperatorOnly,
+  transitionAgent,
+} from "../agents/lifecycle.js";
+import { getLogger } from "../observability/logger.js";
+import { recordStoppedAgentBlock, routingMetrics } from "../observability/routing-metrics.js";
+
+export type { AgentStatus, InboundMessagePolicy, LifecycleActor } from "../agents/lifecycle.js";
+export { inboundMessagePolicy, isTerminal } from "../agents/lifecycle.js";
+export { ForbiddenTransitionError, IllegalTransitionError, LifecycleError } from "../agents/lifecycle.js";
+
+const log = getLogger("stopped-agent-guard");
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -31,7 +55,7 @@ export interface AgentLight {
   id: string;
   name: string;
   role: string;
-  status: "idle" | "thinking" | "executing" | "error" | "stopped";
+  status: AgentStatus;
   lastActiveAt?: string | null;
 }
 
@@ -40,92 +64,118 @@ export interface AgentLight {
 // ---------------------------------------------------------------------------
 
 /**
- * Removes stopped agents from the candidate pool before task dispatch.
- * This is the primary scheduler guard — a stopped agent must never receive
- * an auto-dispatched task or a scheduler-initiated send_message.
+ * Removes operator-only (stopped) agents from the candidate pool before task
+ * dispatch. This is the primary scheduler guard — a stopped agent must never
+ * receive an auto-dispatched task or a scheduler-initiated send_message.
  */
 export function filterDispatchableAgents(agents: AgentLight[]): AgentLight[] {
-  const filtered = agents.filter((a) => a.status !== "stopped");
-  const removedCount = agents.length - filtered.length;
-  if (removedCount > 0) {
-    console.log(
-      `[stopped-agent-guard] Filtered ${removedCount} stopped agent(s) from dispatch pool: ` +
-        agents
-          .filter((a) => a.status === "stopped")
-          .map((a) => `${a.name}(${a.id})`)
-          .join(", ")
-    );
+  const removed = agents.filter((a) => isOperatorOnly(a.status));
+  if (removed.length > 0) {
+    recordStoppedAgentBlock("dispatch", removed.length);
+    log.info(`Filtered ${removed.length} stopped agent(s) from dispatch pool`, {
+      agents: removed.map((a) => `${a.name}(${a.id})`),
+    });
   }
-  return filtered;
+  return agents.filter((a) => !isOperatorOnly(a.status));
 }
 
 // ---------------------------------------------------------------------------
 // Guard 2: Safe reconcile on startup
 // ---------------------------------------------------------------------------
 
+export type InsertActivity = (activity: {
+  agentId: string;
+  type: string;
+  summary: string;
+  details?: Record<string, unknown>;
+}) => Promise<void>;
+
 export interface ReconcileResult {
   reset: string[];   // agent IDs reset to idle
   skipped: string[]; // stopped agents explicitly skipped
 }
 
+export type ReconcileAction = "reset" | "protect" | "none";
+
+/**
+ * What the startup reconcile does with one agent: reset a stale
+ * thinking/executing agent to idle, protect an operator-only agent, or leave
+ * it alone. Shared by safeReconcileOnStartup and the dry-run planner
+ * (reconcile-plan.ts) so the plan always matches what apply would do.
+ */
+export function reconcileActionFor(agent: AgentLight): ReconcileAction {
+  if (isOperatorOnly(agent.status)) return "protect";
+  if (
+    (agent.status === "thinking" || agent.status === "executing") &&
+    canTransition(agent.status, "idle", "reconciler")
+  ) {
+    return "reset";
+  }
+  return "none";
+}
+
 /**
  * Drop-in replacement for reconcileAgentStatesOnStartup().
- * Resets thinking/executing → idle (same as before) but explicitly logs
- * and skips stopped agents so they cannot be accidentally promoted.
+ * Resets thinking/executing → idle (same as before) as the "reconciler"
+ * actor; agents the reconciler may not touch (stopped) are explicitly
+ * logged and skipped so they cannot be accidentally promoted.
  *
  * Integration: replace the body of reconcileAgentStatesOnStartup() with a
  * call to this function.
  */
 export async function safeReconcileOnStartup(
   agents: AgentLight[],
-  updateAgentStatus: (id: string, status: string) => Promise<void>,
-  insertActivity: (activity: {
-    agentId: string;
-    type: string;
-    summary: string;
-    details?: Record<string, unknown>;
-  }) => Promise<void>
+  updateAgentStatus: (id: string, status: AgentStatus) => Promise<void>,
+  insertActivity: InsertActivity
 ): Promise<ReconcileResult> {
-  const staleStatuses = new Set(["thinking", "executing"]);
   const result: ReconcileResult = { reset: [], skipped: [] };
 
   for (const agent of agents) {
-    // EXPLICIT STOPPED GUARD: never touch a stopped agent
-    if (agent.status === "stopped") {
+    const action = reconcileActionFor(agent);
+    // EXPLICIT STOPPED GUARD: the reconciler may never move an operator-only agent
+    if (action === "protect") {
       result.skipped.push(agent.id);
-      console.log(
-        `[stopped-agent-guard] Startup reconcile: skipping stopped agent ${agent.name}(${agent.id}) — will NOT be promoted to idle`
-      );
+      recordStoppedAgentBlock("reconcile");
+      log.info(`Startup reconcile: skipping ${agent.status} agent ${agent.name}(${agent.id}) — will NOT be promoted to idle`, {
+        agentId: agent.id,
+        status: agent.status,
+      });
       continue;
     }
 
-    if (!staleStatuses.has(agent.status)) {
-      continue;
-    }
+    if (action !== "reset") continue;
 
-    await updateAgentStatus(agent.id, "idle");
-    await insertActivity({
-      agentId: agent.id,
-      type: "agent_stopped",
-      summary: `${agent.name} state reconciled after restart (${agent.status} -> idle)`,
-      details: {
-        source: "startup_reconcile",
-        previousStatus: agent.status,
-        guardVersion: "stopped-agent-guard-v1",
-      },
-    });
+    await resetForReconcile(agent, updateAgentStatus, insertActivity);
     result.reset.push(agent.id);
   }
 
   if (result.skipped.length > 0) {
-    console.log(
-      `[stopped-agent-guard] Startup reconcile complete: ${result.reset.length} reset, ${result.skipped.length} stopped agents protected`
-    );
+    log.info("Startup reconcile complete", { reset: result.reset.length, protected: result.skipped.length });
   }
 
   return result;
 }
 
+/** Moves one stale agent to idle as the reconciler and records the activity. */
+export async function resetForReconcile(
+  agent: AgentLight,
+  updateAgentStatus: (id: string, status: AgentStatus) => Promise<void>,
+  insertActivity: InsertActivity
+): Promise<void> {
+  await transitionAgent(agent, "idle", "reconciler", updateAgentStatus, "startup_reconcile");
+  routingMetrics().reconcileResets.inc();
+  await insertActivity({
+    agentId: agent.id,
+    type: "agent_stopped",
+    summary: `${agent.name} state reconciled after restart (${agent.status} -> idle)`,
+    details: {
+      source: "startup_reconcile",
+      previousStatus: agent.status,
+      guardVersion: "stopped-agent-guard-v2",
+    },
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Guard 3: Guarded startAgent (watchdog path)
 // ---------------------------------------------------------------------------
@@ -135,27 +185,77 @@ export async function safeReconcileOnStartup(
  * stopped agent. A stopped agent is stopped intentionally — the watchdog must
  * not treat it as a stalled agent to recover.
  *
- * Integration: in the watchdog recovery block (line ~196155 in dist/index.js),
- * replace:
- *   await startAgent(agent.id);
- * with:
- *   await guardedStartAgent(agent.id, getAgent, startAgent);
+ * Throws ForbiddenTransitionError when `actor` may not start the agent from
+ * its current status (see assertMayStart). This prevents the watchdog from
+ * auto-recovering deliberately retired agents (e.g. VzKdJ89cpXOcS7EiC_n99).
+ *
+ * Integration: integration/install.ts runs the same check in the
+ * hooks.beforeStart hook at every startAgent call site, and the watchdog
+ * recovers agents through install()'s recoverAgent(), i.e.
+ * WatchdogRecoveryPolicy.recover() (watchdog-recovery.ts), which calls this guard.
  */
 export async function guardedStartAgent(
   agentId: string,
   getAgent: (id: string) => Promise<AgentLight | undefined>,
-  startAgent: (id: string) => Promise<void>
+  startAgent: (id: string) => Promise<void>,
+  actor: LifecycleActor = "watchdog"
 ): Promise<void> {
   const agent = await getAgent(agentId);
   if (!agent) {
     throw new Error(`guardedStartAgent: agent ${agentId} not found`);
   }
-  if (agent.status === "stopped") {
-    throw new Error(
-      `guardedStartAgent: refusing to start stopped agent ${agent.name}(${agentId}). ` +
-        `Stopped agents must be manually restarted. This prevents watchdog from ` +
-        `auto-recovering deliberately retired agents (e.g. VzKdJ89cpXOcS7EiC_n99).`
-    );
+  try {
+    assertMayStart(agent, actor);
+  } catch (err) {
+    recordStoppedAgentBlock("start");
+    throw err;
   }
   await startAgent(agentId);
 }
+
+// ---------------------------------------------------------------------------
+// Guard 4: Manual resume (operator path)
+// ---------------------------------------------------------------------------
+
+export interface ResumeRequest {
+  /** Operator identity (user ID / email) — recorded on the activity. */
+  resumedBy: string;
+  reason: string;
+}
+
+/**
+ * Brings a paused (or legacy stopped) agent back to idle. This is the only
+ * sanctioned way out of those states — it runs as the "operator" actor, so it
+ * cannot be used to bypass the guard from watchdog/scheduler code, and it
+ * rejects retired agents with IllegalTransitionError.
+ *
+ * The caller is expected to start the agent afterwards (guardedStartAgent).
+ */
+export async function resumeAgent(
+  agentId: string,
+  request: ResumeRequest,
+  getAgent: (id: string) => Promise<AgentLight | undefined>,
+  updateAgentStatus: (id: string, status: AgentStatus) => Promise<void>,
+  insertActivity: InsertActivity
+): Promise<AgentTransitionEvent> {
+  if (!request.resumedBy.trim() || !request.reason.trim()) {
+    throw new Error("resumeAgent: resumedBy and reason are required");
+  }
+  const agent = await getAgent(agentId);
+  if (!agent) {
+    throw new Error(`resumeAgent: agent ${agentId} not found`);
+  }
+  const event = await transitionAgent(agent, "idle", "operator", updateAgentStatus, request.reason);
+  await insertActivity({
+    agentId,
+    type: "agent_started",
+    summary: `${agent.name} resumed by ${request.resumedBy} (${agent.status} -> idle): ${request.reason}`,
+    details: {
+      source: "manual_resume",
+      previousStatus: agent.status,
+      resumedBy: request.resumedBy,
+      reason: request.reason,
+    },
+  });
+  return event;
+}
@@ -0,0 +1,265 @@
+/**
+ * task-resume.ts
+ *
+ * Idempotent task-resume messages. On every boot,
+ * resumeAssignedInProgressTasksAfterRestart nudged each running assignee of an
+ * in-progress task. A backend in a crash loop therefore delivered N resume
+ * nudges per task — the same duplicate-delivery pattern the routing dedup
+ * fixes for inter-agent messages.
+ *
+ * Each resume is claimed in task_resume_log under (task, assignee, resume
+ * epoch) before it is sent; a second claim for the same key is refused.
+ *
+ * The resume epoch is stored per boot in backend_boots:
+ *  - a boot whose predecessor reached "healthy" (markHealthy() after it stayed
+ *    up for a while) is a genuine restart → epoch + 1 → tasks resume again
+ *  - a boot whose predecessor never became healthy is part of a crash loop
+ *    → same epoch → tasks already resumed in this epoch are not nudged again
+ *
+ * See schema.sql in this directory.
+ */
+
+import crypto from "crypto";
+import { DbAdapter } from "../dedup/store.js";
+import { getLogger } from "../observability/logger.js";
+
+const log = getLogger("task-resume");
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BootRecord {
+  bootId: string;
+  resumeEpoch: number;
+  startedAtMs: number;
+  healthyAtMs: number | null;
+}
+
+export interface TaskResumeClaim {
+  resumeKey: string;
+  taskId: string;
+  assigneeId: string;
+  resumeEpoch: number;
+  bootId: string;
+  sentAtMs: number;
+}
+
+export type TaskResumeOutcome = "sent" | "already-resumed";
+
+export function buildResumeKey(taskId: string, assigneeId: string, resumeEpoch: number): string {
+  return `${taskId}|${assigneeId}|${resumeEpoch}`;
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export interface TaskResumeStore {
+  latestBoot(): Promise<BootRecord | null>;
+  insertBoot(boot: BootRecord): Promise<void>;
+  markBootHealthy(bootId: string, atMs: number): Promise<void>;
+  /** Atomic: true if this call recorded the claim, false if it already existed. */
+  claimResume(claim: TaskResumeClaim): Promise<boolean>;
+  /** Undo a claim whose send failed, so a later boot in the same epoch may retry. */
+  releaseResume(resumeKey: string): Promise<void>;
+}
+
+function rowToBootRecord(row: Record<string, unknown>): BootRecord {
+  return {
+    bootId: String(row.boot_id),
+    resumeEpoch: Number(row.resume_epoch),
+    startedAtMs: Number(row.started_at_ms),
+    healthyAtMs: row.healthy_at_ms === null || row.healthy_at_ms === undefined ? null : Number(row.healthy_at_ms),
+  };
+}
+
+export class PostgresTaskResumeStore implements TaskResumeStore {
+  constructor(private readonly db: DbAdapter) {}
+
+  async latestBoot(): Promise<BootRecord | null> {
+    const { rows } = await this.db.query(
+      `SELECT boot_id, resume_epoch,
+              EXTRACT(EPOCH FROM started_at) * 1000 AS started_at_ms,
+              EXTRACT(EPOCH FROM healthy_at) * 1000 AS healthy_at_ms
+       FROM backend_boots
+       ORDER BY started_at DESC
+       LIMIT 1`
+    );
+    return rows.length > 0 ? rowToBootRecord(rows[0]) : null;
+  }
+
+  async insertBoot(boot: BootRecord): Promise<void> {
+    await this.db.query(
+      `INSERT INTO backend_boots (boot_id, resume_epoch, started_at)
+       VALUES ($1, $2, to_timestamp($3 / 1000.0))`,
+      [boot.bootId, boot.resumeEpoch, boot.startedAtMs]
+    );
+  }
+
+  async markBootHealthy(bootId: string, atMs: number): Promise<void> {
+    await this.db.query(
+      `UPDATE backend_boots SET healthy_at = to_timestamp($2 / 1000.0)
+       WHERE boot_id = $1 AND healthy_at IS NULL`,
+      [bootId, atMs]
+    );
+  }
+
+  async claimResume(claim: TaskResumeClaim): Promise<boolean> {
+    const { rows } = await this.db.query(
+      `INSERT INTO task_resume_log (resume_key, task_id, assignee_id, resume_epoch, boot_id, sent_at)
+       VALUES ($1, $2, $3, $4, $5, to_timestamp($6 / 1000.0))
+       ON CONFLICT (resume_key) DO NOTHING
+       RETURNING resume_key`,
+      [claim.resumeKey, claim.taskId, claim.assigneeId, claim.resumeEpoch, claim.bootId, claim.sentAtMs]
+    );
+    return rows.length > 0;
+  }
+
+  async releaseResume(resumeKey: string): Promise<void> {
+    await this.db.query(`DELETE FROM task_resume_log WHERE resume_key = $1`, [resumeKey]);
+  }
+}
+
+export class MemoryTaskResumeStore implements TaskResumeStore {
+  private readonly boots: BootRecord[] = [];
+  private readonly claims = new Map<string, TaskResumeClaim>();
+
+  async latestBoot(): Promise<BootRecord | null> {
+    const latest = this.boots[this.boots.length - 1];
+    return latest ? { ...latest } : null;
+  }
+
+  async insertBoot(boot: BootRecord): Promise<void> {
+    this.boots.push({ ...boot });
+  }
+
+  async markBootHealthy(bootId: string, atMs: number): Promise<void> {
+    const boot = this.boots.find((b) => b.bootId === bootId);
+    if (boot && boot.healthyAtMs === null) boot.healthyAtMs = atMs;
+  }
+
+  async claimResume(claim: TaskResumeClaim): Promise<boolean> {
+    if (this.claims.has(claim.resumeKey)) return false;
+    this.claims.set(claim.resumeKey, { ...claim });
+    return true;
+  }
+
+  async releaseResume(resumeKey: string): Promise<void> {
+    this.claims.delete(resumeKey);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Coordinator
+// ---------------------------------------------------------------------------
+
+export interface TaskResumeDeps {
+  now?: () => number;
+  bootId?: string;
+}
+
+export class TaskResumeCoordinator {
+  private readonly now: () => number;
+  private readonly bootId: string;
+  private boot: BootRecord | null = null;
+
+  constructor(
+    private readonly store: TaskResumeStore,
+    deps: TaskResumeDeps = {}
+  ) {
+    this.now = deps.now ?? Date.now;
+    this.bootId = deps.bootId ?? `boot_${crypto.randomBytes(8).toString("hex")}`;
+  }
+
+  /**
+   * Records this boot and decides its resume epoch. Call once at startup,
+   * before resumeAssignedInProgressTasksAfterRestart.
+   */
+  async beginBoot(): Promise<BootRecord> {
+    if (this.boot) return this.boot;
+    const previous = await this.store.latestBoot();
+    const genuineRestart = !previous || previous.healthyAtMs !== null;
+    const boot: BootRecord = {
+      bootId: this.bootId,
+      resumeEpoch: previous ? (genuineRestart ? previous.resumeEpoch + 1 : previous.resumeEpoch) : 1,
+      startedAtMs: this.now(),
+      healthyAtMs: null,
+    };
+    await this.store.insertBoot(boot);
+    this.boot = boot;
+    if (previous && !genuineRestart) {
+      log.warn("Previous boot never became healthy: crash loop, resume epoch kept", {
+        bootId: boot.bootId,
+        resumeEpoch: boot.resumeEpoch,
+        previousBootId: previous.bootId,
+      });
+    } else {
+      log.info("Boot started", { bootId: boot.bootId, resumeEpoch: boot.resumeEpoch });
+    }
+    return boot;
+  }
+
+  /**
+   * Marks this boot healthy so the next boot counts as a genuine restart.
+   * Call once the backend has stayed up for a while (e.g. 5 minutes).
+   */
+  async markHealthy(): Promise<void> {
+    const boot = this.requireBoot();
+    if (boot.healthyAtMs !== null) return;
+    boot.healthyAtMs = this.now();
+    await this.store.markBootHealthy(boot.bootId, boot.healthyAtMs);
+  }
+
+  /**
+   * Sends a task's resume message unless it was already sent for this
+   * (task, assignee, epoch). The claim is released if `send` throws.
+   */
+  async resumeOnce(taskId: string, assigneeId: string, send: () => Promise<void>): Promise<TaskResumeOutcome> {
+    const boot = this.requireBoot();
+    const resumeKey = buildResumeKey(taskId, assigneeId, boot.resumeEpoch);
+    const claimed = await this.store.claimResume({
+      resumeKey,
+      taskId,
+      assigneeId,
+      resumeEpoch: boot.resumeEpoch,
+      bootId: boot.bootId,
+      sentAtMs: this.now(),
+    });
+    if (!claimed) {
+      log.info(`Task ${taskId} already resumed — skipping`, { taskId, assigneeId, resumeEpoch: boot.resumeEpoch });
+      return "already-resumed";
+    }
+    try {
+      await send();
+    } catch (err) {
+      await this.store.releaseResume(resumeKey);
+      throw err;
+    }
+    return "sent";
+  }
+
+  private requireBoot(): BootRecord {
+    if (!this.boot) {
+      throw new Error("TaskResumeCoordinator: beginBoot() has not been called");
+    }
+    return this.boot;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module singleton
+// ---------------------------------------------------------------------------
+
+let _coordinator: TaskResumeCoordinator | null = null;
+
+export function registerTaskResumeCoordinator(coordinator: TaskResumeCoordinator): void {
+  _coordinator = coordinator;
+}
+
+export function getTaskResumeCoordinator(): TaskResumeCoordinator {
+  if (!_coordinator) {
+    throw new Error("Task resume coordinator not registered — call registerTaskResumeCoordinator first");
+  }
+  return _coordinator;
+}
@@ -0,0 +1,286 @@
+/**
+ * watchdog-recovery.test.ts
+ *
+ * Backoff, restart budget and quarantine on a fake clock, with a fake
+ * startAgent and an in-memory agent table — no timers, no sleeps.
+ */
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemoryLogSink, setLogSink } from "../observability/logger.js";
+import { AgentLight, AgentStatus } from "./stopped-agent-guard.js";
+import { WatchdogRecoveryConfig, WatchdogRecoveryPolicy } from "./watchdog-recovery.js";
+
+setLogSink(new MemoryLogSink().sink);
+
+const T0 = 1_700_000_000_000;
+const AGENT = "agent-1";
+
+interface Harness {
+  policy: WatchdogRecoveryPolicy;
+  clock: { nowMs: number };
+  agents: Map<string, AgentLight>;
+  activities: Array<{ agentId: string; type: string; summary: string; details?: Record<string, unknown> }>;
+  /** startAgent calls so far. */
+  starts: () => number;
+  /** Makes the next `n` starts throw. */
+  failNext: (n: number) => void;
+  /** The agent crashes again after a successful start. */
+  crash: () => void;
+}
+
+function harness(config: Partial<WatchdogRecoveryConfig> = {}, random = () => 0.5): Harness {
+  const clock = { nowMs: T0 };
+  const agents = new Map<string, AgentLight>([[AGENT, { id: AGENT, name: "mina", role: "engineer", status: "error" }]]);
+  const activities: Harness["activities"] = [];
+  let starts = 0;
+  let failures = 0;
+
+  const setStatus = async (id: string, status: AgentStatus): Promise<void> => {
+    agents.get(id)!.status = status;
+  };
+  const policy = new WatchdogRecoveryPolicy(
+    {
+      getAgent: async (id) => {
+        const agent = agents.get(id);
+        return agent ? { ...agent } : undefined;
+      },
+      startAgent: async (id) => {
+        starts++;
+        if (failures > 0) {
+          failures--;
+          throw new Error("spawn failed: exit code 1");
+        }
+        await setStatus(id, "idle");
+      },
+      updateAgentStatus: setStatus,
+      insertActivity: async (activity) => {
+        activities.push(activity);
+      },
+      now: () => clock.nowMs,
+      random,
+    },
+    { jitterRatio: 0, ...config }
+  );
+
+  return {
+    policy,
+    clock,
+    agents,
+    activities,
+    starts: () => starts,
+    failNext: (n) => {
+      failures = n;
+    },
+    crash: () => {
+      agents.get(AGENT)!.status = "error";
+    },
+  };
+}
+
+test("backs off between failed starts, doubling each time", async () => {
+  const h = harness();
+  h.failNext(2);
+
+  assert.deepEqual(await h.policy.recover(AGENT), {
+    outcome: "failed",
+    attempt: 1,
+    error: "spawn failed: exit code 1",
+    nextAttemptAtMs: T0 + 5_000,
+  });
+
+  h.clock.nowMs = T0 + 4_999;
+  assert.deepEqual(await h.policy.recover(AGENT), { outcome: "backoff", nextAttemptAtMs: T0 + 5_000 });
+  assert.equal(h.starts(), 1);
+
+  h.clock.nowMs = T0 + 5_000;
+  const second = await h.policy.recover(AGENT);
+  assert.equal(second.outcome, "failed");
+  assert.equal(second.outcome === "failed" && second.nextAttemptAtMs, T0 + 15_000);
+
+  h.clock.nowMs = T0 + 15_000;
+  const third = await h.policy.recover(AGENT);
+  assert.equal(third.outcome, "started");
+  assert.equal(third.outcome === "started" && third.nextAttemptAtMs, T0 + 35_000);
+  assert.equal(h.policy.state(AGENT)?.consecutiveFailures, 0);
+});
+
+test("caps the backoff at maxBackoffMs", async () => {
+  const h = harness({ initialBackoffMs: 1_000, maxBackoffMs: 3_000, quarantineAfterConsecutiveFailures: 10, maxRestartsPerWindow: 10 });
+  h.failNext(4);
+  const delays: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const outcome = await h.policy.recover(AGENT);
+    assert.equal(outcome.outcome, "failed");
+    if (outcome.outcome !== "failed") return;
+    delays.push(outcome.nextAttemptAtMs - h.clock.nowMs);
+    h.clock.nowMs = outcome.nextAttemptAtMs;
+  }
+  assert.deepEqual(delays, [1_000, 2_000, 3_000, 3_000]);
+});
+
+test("jitter comes from the injected random source", async () => {
+  const low = harness({ jitterRatio: 0.1 }, () => 0);
+  const high = harness({ jitterRatio: 0.1 }, () => 0.999_999);
+  const none = harness({ jitterRatio: 0.1 }, () => 0.5);
+
+  const delay = async (h: Harness): Promise<number> => {
+    const outcome = await h.policy.recover(AGENT);
+    assert.equal(outcome.outcome, "started");
+    return outcome.outcome === "started" ? outcome.nextAttemptAtMs - T0 : NaN;
+  };
+  assert.equal(await delay(low), 4_500);
+  assert.equal(await delay(high), 5_500);
+  assert.equal(await delay(none), 5_000);
+});
+
+test("quarantines after consecutive failed starts, and stays quarantined", async () => {
+  const h = harness();
+  h.failNext(Infinity);
+
+  for (const atMs of [T0, T0 + 5_000]) {
+    h.clock.nowMs = atMs;
+    assert.equal((await h.policy.recover(AGENT)).outcome, "failed");
+  }
+  h.clock.nowMs = T0 + 15_000;
+  const third = await h.policy.recover(AGENT);
+  assert.equal(third.outcome, "quarantined");
+  assert.match(third.outcome === "quarantined" ? third.reason : "", /^3 consecutive failed starts/);
+  assert.equal(h.agents.get(AGENT)?.status, "quarantined");
+  assert.equal(await h.policy.isQuarantined(AGENT), true);
+
+  // Long after any backoff, the watchdog still does not touch it
+  h.clock.nowMs = T0 + 24 * 60 * 60 * 1000;
+  assert.equal((await h.policy.recover(AGENT)).outcome, "quarantined");
+  assert.equal(h.starts(), 3);
+
+  assert.deepEqual(
+    h.activities.map((a) => a.details?.outcome),
+    ["failed", "failed", "failed", "quarantined"]
+  );
+});
+
+test("quarantines an agent that starts but keeps crashing once the restart budget is spent", async () => {
+  const h = harness();
+  const startedAt: number[] = [];
+  for (let i = 0; i < 5; i++) {
+    const outcome = await h.policy.recover(AGENT);
+    assert.equal(outcome.outcome, "started");
+    if (outcome.outcome !== "started") return;
+    startedAt.push(h.clock.nowMs - T0);
+    h.crash();
+    h.clock.nowMs = outcome.nextAttemptAtMs;
+  }
+  assert.deepEqual(startedAt, [0, 5_000, 15_000, 35_000, 75_000]);
+
+  // Sixth restart falls inside the 15-minute window
+  const sixth = await h.policy.recover(AGENT);
+  assert.deepEqual(sixth, { outcome: "quarantined", reason: "crash loop: 5 restarts within 900s" });
+  assert.equal(h.agents.get(AGENT)?.status, "quarantined");
+  assert.equal(h.starts(), 5);
+});
+
+test("restarts outside the window do not count against the budget", async () => {
+  const h = harness({ maxRestartsPerWindow: 2, windowMs: 60_000, initialBackoffMs: 1_000 });
+  assert.equal((await h.policy.recover(AGENT)).outcome, "started");
+  h.crash();
+  h.clock.nowMs = T0 + 1_000;
+  assert.equal((await h.policy.recover(AGENT)).outcome, "started");
+  h.crash();
+
+  h.clock.nowMs = T0 + 60_000;
+  assert.equal((await h.policy.recover(AGENT)).outcome, "started");
+  assert.deepEqual(h.policy.state(AGENT)?.attemptsMs, [T0 + 1_000, T0 + 60_000]);
+});
+
+test("recordHealthy resets the backoff to its initial delay", async () => {
+  const h = harness();
+  for (const atMs of [T0, T0 + 5_000]) {
+    h.clock.nowMs = atMs;
+    assert.equal((await h.policy.recover(AGENT)).outcome, "started");
+    h.crash();
+  }
+  h.policy.recordHealthy(AGENT);
+  assert.equal(h.policy.state(AGENT), undefined);
+
+  h.clock.nowMs = T0 + 6_000;
+  const outcome = await h.policy.recover(AGENT);
+  assert.deepEqual(outcome, { outcome: "started", attempt: 1, nextAttemptAtMs: T0 + 11_000 });
+});
+
+test("releaseQuarantine moves the agent to idle and starts its history over", async () => {
+  const h = harness({ quarantineAfterConsecutiveFailures: 1 });
+  h.failNext(1);
+  assert.equal((await h.policy.recover(AGENT)).outcome, "quarantined");
+
+  await assert.rejects(h.policy.releaseQuarantine(AGENT, { releasedBy: "", reason: "fixed" }), /required/);
+  await h.policy.releaseQuarantine(AGENT, { releasedBy: "ops@example.com", reason: "fixed the config" });
+  assert.equal(h.agents.get(AGENT)?.status, "idle");
+  assert.equal(h.policy.state(AGENT), undefined);
+  assert.equal(h.activities.at(-1)?.details?.outcome, "released");
+
+  h.crash();
+  assert.deepEqual(await h.policy.recover(AGENT), { outcome: "started", attempt: 1, nextAttemptAtMs: T0 + 5_000 });
+});
+
+test("refuses to start an agent the watchdog may not touch", async () => {
+  const h = harness();
+  h.agents.get(AGENT)!.status = "paused";
+  const outcome = await h.policy.recover(AGENT);
+  assert.equal(outcome.outcome, "forbidden");
+  assert.equal(h.starts(), 0);
+  assert.deepEqual(h.policy.state(AGENT)?.attemptsMs, []);
+});
+
+test("records a forbidden start once per status, not on every tick", async () => {
+  const h = harness();
+  const forbidden = () => h.activities.filter((a) => a.details?.outcome === "forbidden").length;
+  h.agents.get(AGENT)!.status = "paused";
+  for (let i = 0; i < 3; i++) assert.equal((await h.policy.recover(AGENT)).outcome, "forbidden");
+  assert.equal(forbidden(), 1);
+
+  h.agents.get(AGENT)!.status = "stopped";
+  assert.equal((await h.policy.recover(AGENT)).outcome, "forbidden");
+  assert.equal((await h.policy.recover(AGENT)).outcome, "forbidden");
+  assert.equal(forbidden(), 2);
+
+  // Resumed, crashed and paused again: a new episode is recorded again
+  h.crash();
+  assert.equal((await h.policy.recover(AGENT)).outcome, "started");
+  h.agents.get(AGENT)!.status = "paused";
+  h.clock.nowMs = T0 + 5_000;
+  assert.equal((await h.policy.recover(AGENT)).outcome, "forbidden");
+  assert.equal(forbidden(), 3);
+});
+
+test("keeps an agent blocked when its quarantine was refused, and persists it once allowed", async () => {
+  const h = harness({ maxRestartsPerWindow: 2, initialBackoffMs: 1_000 });
+  assert.equal((await h.policy.recover(AGENT)).outcome, "started");
+  h.crash();
+  h.clock.nowMs = T0 + 1_000;
+  assert.equal((await h.policy.recover(AGENT)).outcome, "started");
+
+  // Paused by an operator mid-loop: the lifecycle refuses the quarantine
+  h.agents.get(AGENT)!.status = "paused";
+  h.clock.nowMs = T0 + 3_000;
+  const refused = await h.policy.recover(AGENT);
+  assert.deepEqual(refused, { outcome: "quarantined", reason: "crash loop: 2 restarts within 900s" });
+  assert.equal(h.agents.get(AGENT)?.status, "paused");
+
+  // Resumed and crashed again: still blocked, and now quarantined for real
+  h.crash();
+  h.clock.nowMs = T0 + 60 * 60 * 1000;
+  assert.deepEqual(await h.policy.recover(AGENT), refused);
+  assert.equal(h.agents.get(AGENT)?.status, "quarantined");
+  assert.equal(h.starts(), 2);
+  assert.deepEqual(await h.policy.recover(AGENT), refused);
+  assert.equal(h.starts(), 2);
+});
+
+test("a second recover() while a start is in flight reports in-progress", async () => {
+  const h = harness();
+  const first = h.policy.recover(AGENT);
+  assert.deepEqual(await h.policy.recover(AGENT), { outcome: "in-progress" });
+  assert.equal((await first).outcome, "started");
+  assert.equal(h.starts(), 1);
+});
@@ -0,0 +1,344 @@
+/**
+ * watchdog-recovery.ts
+ *
+ * Recovery policy for the watchdog. guardedStartAgent() alone has two
+ * outcomes — throw for operator-only agents, or call startAgent — so an agent
+ * that crashes on startup was restarted on every watchdog tick, forever.
+ *
+ * WatchdogRecoveryPolicy.recover() wraps guardedStartAgent with:
+ *  - exponential backoff between attempts (with optional jitter)
+ *  - a restart budget: at most maxRestartsPerWindow starts per windowMs
+ *  - quarantine: after the budget is spent, or after
+ *    quarantineAfterConsecutiveFailures failed starts in a row, the agent is
+ *    moved to the `quarantined` lifecycle status, which only an operator may
+ *    leave (releaseQuarantine()) — so neither the watchdog nor the scheduler
+ *    restarts it, and the dispatch filter skips it
+ *  - one activity record per attempt, so the crash loop is visible in the feed;
+ *    a start the lifecycle forbids is recorded once per status, not per tick
+ *
+ * recover() never sleeps: while backing off it returns { outcome: "backoff" }
+ * and the next watchdog tick tries again. Time comes from deps.now, so the
+ * policy is driven entirely by a fake clock and a fake startAgent in tests.
+ *
+ * Backoff and budgets are per process: a backend restart resets them, which
+ * is fine — the startup reconcile already handles agents that were mid-turn.
+ * The quarantine itself is the agent's persisted status and survives restarts.
+ * When the lifecycle refuses it (the agent was paused or stopped meanwhile),
+ * the agent stays blocked in this process and the status is written as soon
+ * as a later tick finds it allowed.
+ */
+
+import { ForbiddenTransitionError, LifecycleError, canTransition, transitionAgent } from "../agents/lifecycle.js";
+import { getLogger } from "../observability/logger.js";
+import { AgentLight, AgentStatus, InsertActivity, guardedStartAgent } from "./stopped-agent-guard.js";
+
+const log = getLogger("watchdog-recovery");
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export interface WatchdogRecoveryConfig {
+  /** Delay after the first restart; doubles (backoffMultiplier) per restart in the window. */
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffMultiplier: number;
+  /** ±fraction of the backoff added at random. 0 = deterministic. */
+  jitterRatio: number;
+  maxRestartsPerWindow: number;
+  windowMs: number;
+  quarantineAfterConsecutiveFailures: number;
+}
+
+export const DEFAULT_WATCHDOG_RECOVERY_CONFIG: Readonly<WatchdogRecoveryConfig> = Object.freeze({
+  initialBackoffMs: 5_000,
+  maxBackoffMs: 5 * 60 * 1000,
+  backoffMultiplier: 2,
+  jitterRatio: 0.1,
+  maxRestartsPerWindow: 5,
+  windowMs: 15 * 60 * 1000,
+  quarantineAfterConsecutiveFailures: 3,
+});
+
+export function resolveWatchdogRecoveryConfig(overrides: Partial<WatchdogRecoveryConfig> = {}): WatchdogRecoveryConfig {
+  const config = { ...DEFAULT_WATCHDOG_RECOVERY_CONFIG, ...overrides };
+  if (config.initialBackoffMs < 0 || config.maxBackoffMs < config.initialBackoffMs) {
+    throw new Error("watchdog recovery: require 0 <= initialBackoffMs <= maxBackoffMs");
+  }
+  if (config.backoffMultiplier < 1) {
+    throw new Error("watchdog recovery: backoffMultiplier must be >= 1");
+  }
+  if (config.jitterRatio < 0 || config.jitterRatio >= 1) {
+    throw new Error("watchdog recovery: jitterRatio must be in [0, 1)");
+  }
+  if (config.maxRestartsPerWindow < 1 || config.quarantineAfterConsecutiveFailures < 1 || config.windowMs <= 0) {
+    throw new Error("watchdog recovery: restart budget, failure limit and window must be positive");
+  }
+  return config;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RecoveryOutcome =
+  | { outcome: "started"; attempt: number; nextAttemptAtMs: number }
+  | { outcome: "failed"; attempt: number; error: string; nextAttemptAtMs: number }
+  | { outcome: "backoff"; nextAttemptAtMs: number }
+  | { outcome: "in-progress" }
+  | { outcome: "quarantined"; reason: string }
+  /** The lifecycle forbids the watchdog from starting this agent (paused/stopped/retired). */
+  | { outcome: "forbidden"; reason: string };
+
+export interface RecoveryState {
+  agentId: string;
+  /** Start attempts inside the current window, oldest first. */
+  attemptsMs: number[];
+  consecutiveFailures: number;
+  nextAttemptAtMs: number;
+  /** Set when this process quarantined the agent; the persisted status is authoritative. */
+  quarantinedAtMs: number | null;
+  quarantineReason: string | null;
+  /** False while the lifecycle refused the `quarantined` status — the agent is blocked here only. */
+  quarantinePersisted: boolean;
+  /** The status a refused start was last recorded for, so a paused agent is not recorded every tick. */
+  forbiddenStatus: AgentStatus | null;
+}
+
+export interface WatchdogRecoveryDeps {
+  getAgent: (id: string) => Promise<AgentLight | undefined>;
+  startAgent: (id: string) => Promise<void>;
+  updateAgentStatus: (id: string, status: AgentStatus) => Promise<void>;
+  insertActivity: InsertActivity;
+  now?: () => number;
+  /** [0, 1) — only used for jitter. */
+  random?: () => number;
+}
+
+// ---------------------------------------------------------------------------
+// Policy
+// ---------------------------------------------------------------------------
+
+const QUARANTINED_REASON = "quarantined after repeated crashes — an operator must release it";
+
+export class WatchdogRecoveryPolicy {
+  private readonly config: WatchdogRecoveryConfig;
+  private readonly now: () => number;
+  private readonly random: () => number;
+  private readonly states = new Map<string, RecoveryState>();
+  private readonly inFlight = new Set<string>();
+
+  constructor(
+    private readonly deps: WatchdogRecoveryDeps,
+    config: Partial<WatchdogRecoveryConfig> = {}
+  ) {
+    this.config = resolveWatchdogRecoveryConfig(config);
+    this.now = deps.now ?? Date.now;
+    this.random = deps.random ?? Math.random;
+  }
+
+  /**
+   * Called by the watchdog for a stalled/crashed agent. Starts it if the
+   * backoff has elapsed and the budget allows, otherwise reports why not.
+   */
+  async recover(agentId: string, trigger = "watchdog"): Promise<RecoveryOutcome> {
+    // Claimed before the first await, so overlapping ticks cannot both start it
+    if (this.inFlight.has(agentId)) return { outcome: "in-progress" };
+    this.inFlight.add(agentId);
+    try {
+      return await this.attempt(agentId, trigger);
+    } finally {
+      this.inFlight.delete(agentId);
+    }
+  }
+
+  private async attempt(agentId: string, trigger: string): Promise<RecoveryOutcome> {
+    const agent = await this.deps.getAgent(agentId);
+    if (agent?.status === "quarantined") {
+      return { outcome: "quarantined", reason: this.states.get(agentId)?.quarantineReason ?? QUARANTINED_REASON };
+    }
+    const quarantined = this.states.get(agentId);
+    if (quarantined && quarantined.quarantinedAtMs !== null) {
+      if (!quarantined.quarantinePersisted) {
+        // The status change was refused: keep the agent blocked rather than
+        // spend a fresh budget, and persist the quarantine once allowed
+        if (agent) await this.persistQuarantine(agent, quarantined);
+        return { outcome: "quarantined", reason: quarantined.quarantineReason ?? QUARANTINED_REASON };
+      }
+      // Quarantined here but released by another path (e.g. resumeAgent): start over
+      this.states.delete(agentId);
+    }
+    const state = this.stateFor(agentId);
+    if (agent?.status !== state.forbiddenStatus) state.forbiddenStatus = null;
+
+    const nowMs = this.now();
+    if (nowMs < state.nextAttemptAtMs) {
+      return { outcome: "backoff", nextAttemptAtMs: state.nextAttemptAtMs };
+    }
+
+    state.attemptsMs = state.attemptsMs.filter((t) => t > nowMs - this.config.windowMs);
+    if (state.attemptsMs.length >= this.config.maxRestartsPerWindow) {
+      const reason = `crash loop: ${state.attemptsMs.length} restarts within ${Math.round(this.config.windowMs / 1000)}s`;
+      await this.quarantine(agentId, state, reason);
+      return { outcome: "quarantined", reason };
+    }
+
+    state.attemptsMs.push(nowMs);
+    const attempt = state.attemptsMs.length;
+    try {
+      await guardedStartAgent(agentId, this.deps.getAgent, this.deps.startAgent, "watchdog");
+    } catch (err) {
+      if (err instanceof ForbiddenTransitionError && err.from === "quarantined") {
+        // Quarantined between the status read and the start (another replica)
+        state.attemptsMs.pop();
+        return { outcome: "quarantined", reason: QUARANTINED_REASON };
+      }
+      if (err instanceof LifecycleError) {
+        // Not a failure of the agent — the watchdog simply may not start it
+        state.attemptsMs.pop();
+        if (state.forbiddenStatus !== err.from) {
+          state.forbiddenStatus = err.from;
+          await this.record(agentId, "forbidden", { attempt, trigger, error: err.message });
+        }
+        return { outcome: "forbidden", reason: err.message };
+      }
+      const error = err instanceof Error ? err.message : String(err);
+      state.consecutiveFailures += 1;
+      if (state.consecutiveFailures >= this.config.quarantineAfterConsecutiveFailures) {
+        await this.record(agentId, "failed", { attempt, trigger, error });
+        const reason = `${state.consecutiveFailures} consecutive failed starts (last: ${error})`;
+        await this.quarantine(agentId, state, reason);
+        return { outcome: "quarantined", reason };
+      }
+      state.nextAttemptAtMs = nowMs + this.backoffMs(attempt);
+      await this.record(agentId, "failed", { attempt, trigger, error, nextAttemptAtMs: state.nextAttemptAtMs });
+      return { outcome: "failed", attempt, error, nextAttemptAtMs: state.nextAttemptAtMs };
+    }
+
+    // A successful start still backs off the next one: crashing right after
+    // startup is exactly the loop this policy exists to slow down.
+    state.consecutiveFailures = 0;
+    state.nextAttemptAtMs = nowMs + this.backoffMs(attempt);
+    await this.record(agentId, "started", { attempt, trigger, nextAttemptAtMs: state.nextAttemptAtMs });
+    return { outcome: "started", attempt, nextAttemptAtMs: state.nextAttemptAtMs };
+  }
+
+  /**
+   * The agent has been healthy (e.g. completed a turn) — forget its restart
+   * history so a later, unrelated crash starts again from the initial backoff.
+   */
+  recordHealthy(agentId: string): void {
+    const state = this.states.get(agentId);
+    if (state && state.quarantinedAtMs === null) this.states.delete(agentId);
+  }
+
+  /** Reads the persisted status — true on every replica and after a restart. */
+  async isQuarantined(agentId: string): Promise<boolean> {
+    return (await this.deps.getAgent(agentId))?.status === "quarantined";
+  }
+
+  /**
+   * Operator action: clears the restart history and moves the agent from
+   * `quarantined` (or `error`) back to `idle`. The caller starts it afterwards.
+   */
+  async releaseQuarantine(agentId: string, request: { releasedBy: string; reason: string }): Promise<void> {
+    if (!request.releasedBy.trim() || !request.reason.trim()) {
+      throw new Error("releaseQuarantine: releasedBy and reason are required");
+    }
+    const agent = await this.deps.getAgent(agentId);
+    if (!agent) {
+      throw new Error(`releaseQuarantine: agent ${agentId} not found`);
+    }
+    this.states.delete(agentId);
+    if (agent.status === "quarantined" || agent.status === "error") {
+      await transitionAgent(agent, "idle", "operator", this.deps.updateAgentStatus, request.reason);
+    }
+    await this.deps.insertActivity({
+      agentId,
+      type: "agent_recovery",
+      summary: `${agent.name} released from quarantine by ${request.releasedBy}: ${request.reason}`,
+      details: { outcome: "released", releasedBy: request.releasedBy, reason: request.reason },
+    });
+  }
+
+  state(agentId: string): RecoveryState | undefined {
+    const state = this.states.get(agentId);
+    return state ? { ...state, attemptsMs: [...state.attemptsMs] } : undefined;
+  }
+
+  private stateFor(agentId: string): RecoveryState {
+    let state = this.states.get(agentId);
+    if (!state) {
+      state = {
+        agentId,
+        attemptsMs: [],
+        consecutiveFailures: 0,
+        nextAttemptAtMs: 0,
+        quarantinedAtMs: null,
+        quarantineReason: null,
+        quarantinePersisted: false,
+        forbiddenStatus: null,
+      };
+      this.states.set(agentId, state);
+    }
+    return state;
+  }
+
+  private backoffMs(attempt: number): number {
+    const { initialBackoffMs, maxBackoffMs, backoffMultiplier, jitterRatio } = this.config;
+    const base = Math.min(maxBackoffMs, initialBackoffMs * Math.pow(backoffMultiplier, attempt - 1));
+    const jitter = jitterRatio === 0 ? 0 : base * jitterRatio * (this.random() * 2 - 1);
+    return Math.max(0, Math.round(base + jitter));
+  }
+
+  private async quarantine(agentId: string, state: RecoveryState, reason: string): Promise<void> {
+    state.quarantinedAtMs = this.now();
+    state.quarantineReason = reason;
+    const agent = await this.deps.getAgent(agentId);
+    if (agent) await this.persistQuarantine(agent, state);
+    log.warn(`Quarantined ${agent?.name ?? agentId}(${agentId})`, { agentId, reason, persisted: state.quarantinePersisted });
+    await this.record(agentId, "quarantined", { reason, attempts: state.attemptsMs.length });
+  }
+
+  private async persistQuarantine(agent: AgentLight, state: RecoveryState): Promise<void> {
+    if (!canTransition(agent.status, "quarantined", "watchdog")) return;
+    await transitionAgent(agent, "quarantined", "watchdog", this.deps.updateAgentStatus, state.quarantineReason ?? QUARANTINED_REASON);
+    state.quarantinePersisted = true;
+  }
+
+  private async record(
+    agentId: string,
+    outcome: "started" | "failed" | "forbidden" | "quarantined",
+    details: Record<string, unknown>
+  ): Promise<void> {
+    const summaries = {
+      started: `Watchdog restarted agent (attempt ${details.attempt})`,
+      failed: `Watchdog restart failed (attempt ${details.attempt}): ${details.error}`,
+      forbidden: `Watchdog may not restart agent: ${details.error}`,
+      quarantined: `Agent quarantined — watchdog will not restart it until an operator releases it: ${details.reason}`,
+    };
+    await this.deps.insertActivity({
+      agentId,
+      type: "agent_recovery",
+      summary: summaries[outcome],
+      details: { source: "watchdog_recovery", outcome, ...details },
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module singleton
+// ---------------------------------------------------------------------------
+
+let _policy: WatchdogRecoveryPolicy | null = null;
+
+export function registerWatchdogRecoveryPolicy(policy: WatchdogRecoveryPolicy): void {
+  _policy = policy;
+}
+
+export function getWatchdogRecoveryPolicy(): WatchdogRecoveryPolicy {
+  if (!_policy) {
+    throw new Error("Watchdog recovery policy not registered — call registerWatchdogRecoveryPolicy first");
+  }
+  return _policy;
+}